@@ -0,0 +1,65 @@
+/**
+ * Checks of the search query parser and evaluator against a few notes, with the index lookups
+ * given by hand. Run with `npm run search-checks`; exits non-zero if any check fails.
+ */
+import assert from 'node:assert/strict';
+import { Note } from '../src/types';
+import { parseSearchQuery, evaluateQuery, QueryContext } from '../src/utils/searchQuery';
+
+const note = (id: string, content: string): Note => ({ id, title: id, content, createdAt: 0, updatedAt: 0 });
+
+const notes = [note('a', 'foo bar'), note('b', 'foo'), note('c', 'bar')];
+
+const context: QueryContext = {
+  notebooks: [],
+  textMatches: new Map([
+    ['foo', new Set(['a', 'b'])],
+    ['bar', new Set(['a', 'c'])]
+  ]),
+  now: Date.now()
+};
+
+// IDs of the notes a query matches
+const search = (query: string): string[] => {
+  const { ast, error } = parseSearchQuery(query);
+  assert.equal(error, null, `"${query}" parses`);
+  return notes.filter(n => evaluateQuery(ast, n, context)).map(n => n.id);
+};
+
+const checks: Record<string, () => void> = {
+  'Terms are ANDed': () => {
+    assert.deepEqual(search('foo bar'), ['a']);
+  },
+
+  'OR and negation': () => {
+    assert.deepEqual(search('foo OR bar'), ['a', 'b', 'c']);
+    assert.deepEqual(search('foo -bar'), ['b']);
+  },
+
+  'Stop words are dropped rather than matching everything or nothing': () => {
+    assert.equal(parseSearchQuery('the').ast, null);
+    assert.deepEqual(parseSearchQuery('foo the').ast, { type: 'text', value: 'foo' });
+    assert.deepEqual(search('foo -the'), ['a', 'b']);
+    assert.deepEqual(search('bar OR the'), ['a', 'c']);
+    assert.deepEqual(search('foo -(the a)'), ['a', 'b']);
+  },
+
+  'Syntax errors are reported with their position': () => {
+    assert.deepEqual(parseSearchQuery('foo OR').error, { message: 'Expected a search term after "OR"', position: 6 });
+    assert.equal(parseSearchQuery('(foo').error?.message, 'Missing closing parenthesis');
+  }
+};
+
+let failed = 0;
+for (const [name, check] of Object.entries(checks)) {
+  try {
+    check();
+    console.info(`✓ ${name}`);
+  } catch (err) {
+    failed++;
+    console.info(`✗ ${name}`);
+    console.error(err);
+  }
+}
+console.info(`${Object.keys(checks).length - failed} passed, ${failed} failed`);
+process.exitCode = failed > 0 ? 1 : 0;
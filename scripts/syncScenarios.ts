@@ -0,0 +1,159 @@
+/**
+ * Two simulated devices syncing one account through the in-memory remote, with the same sync
+ * steps the app runs: send the sync queue, then pull and merge what changed in the cloud.
+ * Run with `npm run scenarios`; exits non-zero if any scenario fails.
+ */
+import assert from 'node:assert/strict';
+import { Note, NoteStores } from '../src/types';
+import { createMemoryRemote, MemoryRemote, MemoryRemoteClient } from '../src/utils/memoryRemoteStore';
+import { createMemoryNoteStore, MemoryNoteStore } from '../src/utils/memoryNoteStore';
+import { createMemoryDeviceStore } from '../src/utils/device';
+import { createTombstone } from '../src/utils/tombstones';
+import { createId } from '../src/utils/ids';
+import { flushSyncQueue } from '../src/utils/syncQueue';
+import { pullNoteChanges } from '../src/utils/noteSync';
+
+const USER_ID = 'scenario-user';
+
+interface Device {
+  local: MemoryNoteStore;
+  remote: MemoryRemoteClient;
+  stores: NoteStores;
+  createNote: (title: string, content: string) => Promise<Note>;
+  editNote: (noteId: string, content: string) => Promise<void>;
+  deleteNote: (noteId: string) => Promise<void>;
+  sync: () => Promise<void>;
+  getNote: (noteId: string) => Promise<Note | null>;
+}
+
+/**
+ * A device whose changes go through the sync queue, as they do while the app is offline
+ */
+const createDevice = (cloud: MemoryRemote): Device => {
+  const local = createMemoryNoteStore();
+  const remote = cloud.connect({ latency: { min: 1, max: 5 } });
+  const device = createMemoryDeviceStore();
+  const stores: NoteStores = { local, remote, device };
+
+  return {
+    local,
+    remote,
+    stores,
+    createNote: async (title, content) => {
+      const now = Date.now();
+      const note: Note = { id: createId(), title, content, createdAt: now, updatedAt: now, deviceId: device.getDeviceId() };
+      await local.saveNote(note, USER_ID);
+      await local.addToSyncQueue('create', note.id, note);
+      return note;
+    },
+    editNote: async (noteId, content) => {
+      const storedNote = await local.getNote(noteId);
+      assert.ok(storedNote, `note ${noteId} to edit`);
+      const note = { ...storedNote, content, updatedAt: Date.now(), deviceId: device.getDeviceId() };
+      await local.saveNote(note, USER_ID);
+      await local.addToSyncQueue('update', note.id, note);
+    },
+    deleteNote: async (noteId) => {
+      await local.saveTombstones([createTombstone(noteId, device.getDeviceId())], USER_ID);
+      await local.deleteNote(noteId);
+      await local.addToSyncQueue('delete', noteId);
+    },
+    sync: async () => {
+      await flushSyncQueue(stores, USER_ID);
+      await pullNoteChanges(stores, USER_ID);
+    },
+    getNote: noteId => local.getNote(noteId)
+  };
+};
+
+// Lets updatedAt move on between steps, as it would between real edits
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+const scenarios: Record<string, () => Promise<void>> = {
+  'A note created on one device reaches the other': async () => {
+    const cloud = createMemoryRemote();
+    const [a, b] = [createDevice(cloud), createDevice(cloud)];
+
+    const note = await a.createNote('Groceries', 'milk\neggs');
+    await a.sync();
+    await b.sync();
+
+    assert.equal((await b.getNote(note.id))?.content, 'milk\neggs');
+    assert.deepEqual(await a.local.getSyncQueue(), []);
+  },
+
+  'Offline edits to different lines on two devices are merged': async () => {
+    const cloud = createMemoryRemote();
+    const [a, b] = [createDevice(cloud), createDevice(cloud)];
+    const note = await a.createNote('Groceries', 'milk\neggs\nbread');
+    await a.sync();
+    await b.sync();
+
+    a.remote.setOnline(false);
+    b.remote.setOnline(false);
+    await a.editNote(note.id, 'oat milk\neggs\nbread');
+    await tick();
+    await b.editNote(note.id, 'milk\neggs\nrye bread');
+
+    a.remote.setOnline(true);
+    b.remote.setOnline(true);
+    await a.sync();
+    await b.sync();
+    await a.sync();
+
+    const expected = 'oat milk\neggs\nrye bread';
+    assert.equal((await a.getNote(note.id))?.content, expected);
+    assert.equal((await b.getNote(note.id))?.content, expected);
+    assert.equal(cloud.getNotes(USER_ID).find(n => n.id === note.id)?.content, expected);
+  },
+
+  'A note deleted on one device is deleted on the other': async () => {
+    const cloud = createMemoryRemote();
+    const [a, b] = [createDevice(cloud), createDevice(cloud)];
+    const note = await a.createNote('Draft', 'to delete');
+    await a.sync();
+    await b.sync();
+
+    await a.deleteNote(note.id);
+    await a.sync();
+    await b.sync();
+
+    assert.equal(await b.getNote(note.id), null);
+    assert.equal(cloud.getNotes(USER_ID).some(n => n.id === note.id), false);
+  },
+
+  'A failed upload stays queued and is sent on retry': async () => {
+    const cloud = createMemoryRemote();
+    const [a, b] = [createDevice(cloud), createDevice(cloud)];
+    const note = await a.createNote('Flaky', 'first try');
+
+    a.remote.failNext(1);
+    const { failures, remaining } = await flushSyncQueue(a.stores, USER_ID);
+    assert.equal(failures, 1);
+    assert.equal(remaining[0]?.attempts, 1);
+
+    await flushSyncQueue(a.stores, USER_ID, { ignoreBackoff: true });
+    await b.sync();
+    assert.equal((await b.getNote(note.id))?.content, 'first try');
+  }
+};
+
+const run = async () => {
+  let failed = 0;
+  for (const [name, scenario] of Object.entries(scenarios)) {
+    try {
+      await scenario();
+      console.info(`✓ ${name}`);
+    } catch (err) {
+      failed++;
+      console.info(`✗ ${name}`);
+      console.error(err);
+    }
+  }
+  console.info(`${Object.keys(scenarios).length - failed} passed, ${failed} failed`);
+  process.exitCode = failed > 0 ? 1 : 0;
+};
+
+// The sync steps log every operation; only the results are of interest here
+console.log = () => {};
+run();
@@ -0,0 +1,82 @@
+import { createVerify } from 'node:crypto';
+
+// Public keys Firebase Auth signs ID tokens with
+const CERTS_URL = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+
+let certs = null;
+let certsExpireAt = 0;
+
+/**
+ * Fetch the signing certificates, cached for as long as Google allows
+ */
+const getCerts = async () => {
+  if (certs && Date.now() < certsExpireAt) return certs;
+
+  const response = await fetch(CERTS_URL);
+  if (!response.ok) {
+    throw new Error(`Could not fetch token certificates (${response.status})`);
+  }
+  const maxAge = Number(/max-age=(\d+)/.exec(response.headers.get('cache-control') || '')?.[1]) || 3600;
+  certs = await response.json();
+  certsExpireAt = Date.now() + maxAge * 1000;
+  return certs;
+};
+
+const decodeSegment = (segment) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+/**
+ * Verify a Firebase Auth ID token for the project and return the user ID it was issued to.
+ * Throws if the token is malformed, expired, for another project or not signed by Firebase.
+ */
+export const verifyIdToken = async (token, projectId) => {
+  const [headerSegment, payloadSegment, signature] = (token || '').split('.');
+  if (!signature) {
+    throw new Error('Malformed token');
+  }
+
+  const header = decodeSegment(headerSegment);
+  const payload = decodeSegment(payloadSegment);
+  if (header.alg !== 'RS256') {
+    throw new Error('Unexpected token algorithm');
+  }
+
+  const cert = (await getCerts())[header.kid];
+  if (!cert) {
+    throw new Error('Token signed with an unknown key');
+  }
+
+  const verified = createVerify('RSA-SHA256')
+    .update(`${headerSegment}.${payloadSegment}`)
+    .verify(cert, Buffer.from(signature, 'base64url'));
+  if (!verified) {
+    throw new Error('Invalid token signature');
+  }
+
+  const now = Date.now() / 1000;
+  if (payload.aud !== projectId || payload.iss !== `https://securetoken.google.com/${projectId}`) {
+    throw new Error('Token was issued for another project');
+  }
+  if (typeof payload.exp !== 'number' || payload.exp <= now) {
+    throw new Error('Token expired');
+  }
+  if (typeof payload.sub !== 'string' || !payload.sub) {
+    throw new Error('Token has no user');
+  }
+
+  return payload.sub;
+};
+
+/**
+ * Check that a request may act for the user. With auth disabled every request is trusted,
+ * which is only meant for running the server on your own machine.
+ */
+export const authorize = async (config, token, userId) => {
+  if (config.authDisabled) return true;
+
+  try {
+    return (await verifyIdToken(token, config.projectId)) === userId;
+  } catch (error) {
+    console.warn('Rejected token:', error.message);
+    return false;
+  }
+};
@@ -0,0 +1,240 @@
+import { createServer } from 'node:http';
+import { fileURLToPath } from 'node:url';
+import { createFileStore } from './store.js';
+import { authorize } from './auth.js';
+import { acceptWebSocket } from './websocket.js';
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const AUTH_TIMEOUT = 10000;
+
+const config = {
+  port: Number(process.env.PORT) || 8787,
+  host: process.env.HOST || '127.0.0.1',
+  dataFile: process.env.DATA_FILE || fileURLToPath(new URL('./data/sync.json', import.meta.url)),
+  projectId: process.env.FIREBASE_PROJECT_ID,
+  authDisabled: process.env.SYNC_SERVER_AUTH === 'none',
+  allowedOrigin: process.env.ALLOWED_ORIGIN || '*'
+};
+
+if (!config.projectId && !config.authDisabled) {
+  console.error('Set FIREBASE_PROJECT_ID to verify sign-ins, or SYNC_SERVER_AUTH=none to trust every request (local use only).');
+  process.exit(1);
+}
+
+const store = await createFileStore(config.dataFile);
+
+// Open event connections by user
+const listeners = new Map();
+
+const broadcast = (userId, event) => {
+  listeners.get(userId)?.forEach(connection => connection.send(event));
+};
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// ULIDs, and the IDs older versions of the app made: timestamps, Firebase keys, nb-/ss- prefixed ones
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const RESERVED_IDS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Reject IDs that aren't ones the app makes, before they're used as keys
+ */
+const checkIds = (ids) => {
+  ids.forEach(id => {
+    if (typeof id !== 'string' || !ID_PATTERN.test(id) || RESERVED_IDS.has(id)) {
+      throw new HttpError(400, 'Invalid ID');
+    }
+  });
+  return ids;
+};
+
+// Each route handles a path under /users/:userId; returning undefined answers 204 No Content
+const routes = [
+  ['GET', /^\/notes$/, ({ userId, query }) => store.getNotes(userId, Number(query.get('since')) || 0)],
+  ['PUT', /^\/notes\/([^/]+)$/, ({ userId, params: [noteId], body }) => {
+    const note = store.saveNote(userId, noteId, body);
+    broadcast(userId, { type: 'note', noteId, note });
+  }],
+  ['DELETE', /^\/notes\/([^/]+)$/, ({ userId, params: [noteId], body }) => {
+    store.deleteNote(userId, noteId, body);
+    broadcast(userId, { type: 'note', noteId, note: null });
+    broadcast(userId, { type: 'tombstones', tombstones: store.getTombstones(userId) });
+  }],
+
+  ['GET', /^\/notebooks$/, ({ userId }) => store.getNotebooks(userId)],
+  ['PUT', /^\/notebooks\/([^/]+)$/, ({ userId, params: [notebookId], body }) => {
+    store.saveNotebook(userId, notebookId, body);
+    broadcast(userId, { type: 'notebooks', notebooks: store.getNotebooks(userId) });
+  }],
+  ['DELETE', /^\/notebooks\/([^/]+)$/, ({ userId, params: [notebookId] }) => {
+    store.deleteNotebook(userId, notebookId);
+    broadcast(userId, { type: 'notebooks', notebooks: store.getNotebooks(userId) });
+  }],
+
+  ['GET', /^\/saved-searches$/, ({ userId }) => store.getSavedSearches(userId)],
+  ['PUT', /^\/saved-searches\/([^/]+)$/, ({ userId, params: [savedSearchId], body }) => {
+    store.saveSavedSearch(userId, savedSearchId, body);
+    broadcast(userId, { type: 'savedSearches', savedSearches: store.getSavedSearches(userId) });
+  }],
+  ['DELETE', /^\/saved-searches\/([^/]+)$/, ({ userId, params: [savedSearchId] }) => {
+    store.deleteSavedSearch(userId, savedSearchId);
+    broadcast(userId, { type: 'savedSearches', savedSearches: store.getSavedSearches(userId) });
+  }],
+
+  ['GET', /^\/versions\/([^/]+)$/, ({ userId, params: [noteId] }) => store.getVersions(userId, noteId)],
+  ['PUT', /^\/versions\/([^/]+)\/([^/]+)$/, ({ userId, params: [noteId, versionId], body }) => {
+    store.saveVersion(userId, noteId, versionId, body);
+  }],
+  ['DELETE', /^\/versions\/([^/]+)$/, ({ userId, params: [noteId], body }) => {
+    store.deleteVersions(userId, noteId, checkIds(body.versionIds || []));
+  }],
+
+  ['GET', /^\/tombstones$/, ({ userId }) => store.getTombstones(userId)],
+  ['POST', /^\/tombstones\/seen$/, ({ userId, body }) => {
+    store.markTombstonesSeen(userId, checkIds(body.noteIds || []), checkIds([body.deviceId])[0]);
+    broadcast(userId, { type: 'tombstones', tombstones: store.getTombstones(userId) });
+  }],
+  ['DELETE', /^\/tombstones$/, ({ userId, body }) => {
+    store.deleteTombstones(userId, checkIds(body.noteIds || []));
+    broadcast(userId, { type: 'tombstones', tombstones: store.getTombstones(userId) });
+  }],
+
+  ['PUT', /^\/devices\/([^/]+)$/, ({ userId, params: [deviceId] }) => store.registerDevice(userId, deviceId)]
+];
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (size === 0) return resolve({});
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new HttpError(400, 'Body is not valid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+/**
+ * Split /users/:userId/rest into the user and the rest of the path
+ */
+const parseUserPath = (pathname) => {
+  const match = /^\/users\/([^/]+)(\/.*)$/.exec(pathname);
+  return match ? { userId: decodeURIComponent(match[1]), path: match[2] } : null;
+};
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, POST, DELETE');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  try {
+    const url = new URL(req.url, 'http://localhost');
+    if (url.pathname === '/health') {
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+
+    const target = parseUserPath(url.pathname);
+    const route = target && routes.find(([method, pattern]) => method === req.method && pattern.test(target.path));
+    if (!route) {
+      throw new HttpError(404, 'Not found');
+    }
+    checkIds([target.userId]);
+
+    const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+    if (!(await authorize(config, token, target.userId))) {
+      throw new HttpError(403, 'Not allowed for this user');
+    }
+
+    const [, pattern, handle] = route;
+    const params = checkIds(pattern.exec(target.path).slice(1).map(decodeURIComponent));
+    const body = req.method === 'GET' ? {} : await readBody(req);
+    const result = await handle({ userId: target.userId, params, query: url.searchParams, body });
+
+    sendJson(res, result === undefined ? 204 : 200, result);
+  } catch (error) {
+    if (!(error instanceof HttpError)) {
+      console.error(`Error handling ${req.method} ${req.url}:`, error);
+    }
+    if (!res.headersSent) {
+      sendJson(res, error.status || 500, { error: error.status ? error.message : 'Internal server error' });
+    }
+  }
+});
+
+// Push changes to open apps: they connect to /users/:userId/events and sign in with their first message
+server.on('upgrade', (req, socket) => {
+  const target = parseUserPath(new URL(req.url, 'http://localhost').pathname);
+  if (!target || target.path !== '/events') {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+
+  const connection = acceptWebSocket(req, socket);
+  if (!connection) return;
+
+  const authTimer = setTimeout(() => connection.close(1008), AUTH_TIMEOUT);
+  let authorized = false;
+
+  connection.onMessage(async (message) => {
+    if (authorized || message.type !== 'auth') return;
+
+    if (!(await authorize(config, message.token, target.userId))) {
+      connection.close(1008);
+      return;
+    }
+
+    authorized = true;
+    clearTimeout(authTimer);
+    if (!listeners.has(target.userId)) listeners.set(target.userId, new Set());
+    listeners.get(target.userId).add(connection);
+    connection.send({ type: 'ready' });
+  });
+
+  connection.onClose(() => {
+    clearTimeout(authTimer);
+    listeners.get(target.userId)?.delete(connection);
+  });
+});
+
+const shutdown = async () => {
+  server.close();
+  await store.flush();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+server.listen(config.port, config.host, () => {
+  console.log(`Sync server listening on http://${config.host}:${config.port}, storing data in ${config.dataFile}`);
+  if (config.authDisabled) {
+    console.warn('Authentication is disabled: any request can read and write any user. Use this only on your own machine.');
+  }
+});
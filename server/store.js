@@ -0,0 +1,189 @@
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+const SAVE_DELAY = 200;
+
+// Records are kept in Maps, so IDs from request paths can never reach an object's prototype
+const emptyUser = () => ({
+  notes: new Map(),
+  versions: new Map(), // By note, then version
+  notebooks: new Map(),
+  savedSearches: new Map(),
+  tombstones: new Map(),
+  devices: new Map()
+});
+
+const toMap = (record = {}, convert = value => value) =>
+  new Map(Object.entries(record).map(([key, value]) => [key, convert(value)]));
+
+const fromMap = (map, convert = value => value) =>
+  Object.fromEntries(Array.from(map, ([key, value]) => [key, convert(value)]));
+
+/**
+ * A user's data as stored in the file, in Maps
+ */
+const loadUser = (user) => ({
+  notes: toMap(user.notes),
+  versions: toMap(user.versions, versions => toMap(versions)),
+  notebooks: toMap(user.notebooks),
+  savedSearches: toMap(user.savedSearches),
+  tombstones: toMap(user.tombstones),
+  devices: toMap(user.devices)
+});
+
+/**
+ * A user's data as written to the file
+ */
+const serializeUser = (user) => ({
+  notes: fromMap(user.notes),
+  versions: fromMap(user.versions, versions => fromMap(versions)),
+  notebooks: fromMap(user.notebooks),
+  savedSearches: fromMap(user.savedSearches),
+  tombstones: fromMap(user.tombstones),
+  devices: fromMap(user.devices)
+});
+
+/**
+ * The fields of a note the server keeps, matching what the app writes to Firebase
+ */
+const toStoredNote = (id, note) => ({
+  id,
+  title: note.title ?? '',
+  content: note.content ?? '',
+  createdAt: note.createdAt,
+  updatedAt: note.updatedAt || Date.now(),
+  shareId: note.shareId || null,
+  notebookId: note.notebookId || null,
+  tags: note.tags || [],
+  trashedAt: note.trashedAt || null,
+  deviceId: note.deviceId || null
+});
+
+/**
+ * A JSON file holding every user's data, kept in memory and written back shortly after each change.
+ * Writes go to a temporary file that replaces the old one, so a crash never leaves half a file.
+ */
+export const createFileStore = async (filePath) => {
+  let users = new Map();
+  try {
+    users = toMap(JSON.parse(await readFile(filePath, 'utf8')).users, loadUser);
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+
+  let saveTimer = null;
+  let saving = Promise.resolve();
+
+  const save = () => {
+    saving = saving.then(async () => {
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(`${filePath}.tmp`, JSON.stringify({ users: fromMap(users, serializeUser) }));
+      await rename(`${filePath}.tmp`, filePath);
+    }).catch(error => console.error('Error writing sync data:', error));
+    return saving;
+  };
+
+  const scheduleSave = () => {
+    clearTimeout(saveTimer);
+    saveTimer = setTimeout(save, SAVE_DELAY);
+  };
+
+  const getUser = (userId) => {
+    if (!users.has(userId)) {
+      users.set(userId, emptyUser());
+    }
+    return users.get(userId);
+  };
+
+  // Run a change to a user's data and schedule writing it out
+  const change = (userId, mutate) => {
+    const result = mutate(getUser(userId));
+    scheduleSave();
+    return result;
+  };
+
+  return {
+    getNotes: (userId, since = 0) =>
+      Array.from(getUser(userId).notes.values())
+        .filter(note => note.updatedAt >= since)
+        .sort((a, b) => a.updatedAt - b.updatedAt),
+
+    saveNote: (userId, noteId, note) => change(userId, user => {
+      const storedNote = toStoredNote(noteId, note);
+      user.notes.set(noteId, storedNote);
+      return storedNote;
+    }),
+
+    // A note's history goes with it
+    deleteNote: (userId, noteId, tombstone) => change(userId, user => {
+      user.notes.delete(noteId);
+      user.versions.delete(noteId);
+      user.tombstones.set(noteId, { ...tombstone, noteId });
+    }),
+
+    getNotebooks: (userId) => Array.from(getUser(userId).notebooks.values()),
+
+    saveNotebook: (userId, notebookId, notebook) => change(userId, user => {
+      user.notebooks.set(notebookId, { ...notebook, id: notebookId });
+    }),
+
+    deleteNotebook: (userId, notebookId) => change(userId, user => {
+      user.notebooks.delete(notebookId);
+    }),
+
+    getSavedSearches: (userId) => Array.from(getUser(userId).savedSearches.values()),
+
+    saveSavedSearch: (userId, savedSearchId, savedSearch) => change(userId, user => {
+      user.savedSearches.set(savedSearchId, { ...savedSearch, id: savedSearchId });
+    }),
+
+    deleteSavedSearch: (userId, savedSearchId) => change(userId, user => {
+      user.savedSearches.delete(savedSearchId);
+    }),
+
+    getVersions: (userId, noteId) => Array.from(getUser(userId).versions.get(noteId)?.values() ?? []),
+
+    saveVersion: (userId, noteId, versionId, version) => change(userId, user => {
+      if (!user.versions.has(noteId)) {
+        user.versions.set(noteId, new Map());
+      }
+      user.versions.get(noteId).set(versionId, { ...version, id: versionId, noteId });
+    }),
+
+    deleteVersions: (userId, noteId, versionIds) => change(userId, user => {
+      versionIds.forEach(versionId => {
+        user.versions.get(noteId)?.delete(versionId);
+      });
+    }),
+
+    getTombstones: (userId) => Array.from(getUser(userId).tombstones.values()),
+
+    markTombstonesSeen: (userId, noteIds, deviceId) => change(userId, user => {
+      const now = Date.now();
+      noteIds.forEach(noteId => {
+        const tombstone = user.tombstones.get(noteId);
+        if (tombstone) {
+          tombstone.seenBy = { ...tombstone.seenBy, [deviceId]: now };
+        }
+      });
+    }),
+
+    deleteTombstones: (userId, noteIds) => change(userId, user => {
+      noteIds.forEach(noteId => {
+        user.tombstones.delete(noteId);
+      });
+    }),
+
+    // Record that a device synced; returns every device's last sync time
+    registerDevice: (userId, deviceId) => change(userId, user => {
+      user.devices.set(deviceId, Date.now());
+      return fromMap(user.devices);
+    }),
+
+    // Write any pending change now, e.g. before shutting down
+    flush: () => {
+      clearTimeout(saveTimer);
+      return save();
+    }
+  };
+};
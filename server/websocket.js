@@ -0,0 +1,182 @@
+import { createHash } from 'node:crypto';
+
+// Fixed GUID from RFC 6455, used to answer the handshake
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const PING_INTERVAL = 30000;
+
+const OPCODES = { continuation: 0x0, text: 0x1, close: 0x8, ping: 0x9, pong: 0xa };
+
+/**
+ * Build a single unmasked frame, as servers send them
+ */
+const encodeFrame = (opcode, payload = Buffer.alloc(0)) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * Read one frame from the start of the buffer, or null until it has fully arrived
+ */
+const decodeFrame = (buffer) => {
+  if (buffer.length < 2) return null;
+
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+
+  if (length > MAX_MESSAGE_BYTES) {
+    throw new Error('WebSocket message too large');
+  }
+
+  const maskLength = masked ? 4 : 0;
+  if (buffer.length < offset + maskLength + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset + maskLength, offset + maskLength + length));
+  if (masked) {
+    const mask = buffer.subarray(offset, offset + 4);
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= mask[i % 4];
+    }
+  }
+
+  return { fin, opcode, payload, size: offset + maskLength + length };
+};
+
+/**
+ * Accept a WebSocket upgrade request. Returns a connection that sends and receives JSON messages.
+ * Only what the sync server needs is supported: text messages, ping/pong and close.
+ */
+export const acceptWebSocket = (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+
+  const messageListeners = new Set();
+  const closeListeners = new Set();
+  let buffered = Buffer.alloc(0);
+  let fragments = [];
+  let closed = false;
+  let alive = true;
+
+  const close = (code = 1000) => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    socket.end(encodeFrame(OPCODES.close, payload));
+    closeListeners.forEach(listener => listener());
+  };
+
+  // Drop connections that stop answering pings
+  const heartbeat = setInterval(() => {
+    if (!alive) {
+      socket.destroy();
+      return;
+    }
+    alive = false;
+    socket.write(encodeFrame(OPCODES.ping));
+  }, PING_INTERVAL);
+
+  const handleFrame = ({ fin, opcode, payload }) => {
+    switch (opcode) {
+      case OPCODES.text:
+      case OPCODES.continuation: {
+        fragments.push(payload);
+        if (!fin) return;
+        const text = Buffer.concat(fragments).toString('utf8');
+        fragments = [];
+        let message;
+        try {
+          message = JSON.parse(text);
+        } catch {
+          close(1007);
+          return;
+        }
+        messageListeners.forEach(listener => listener(message));
+        return;
+      }
+      case OPCODES.ping:
+        socket.write(encodeFrame(OPCODES.pong, payload));
+        return;
+      case OPCODES.pong:
+        alive = true;
+        return;
+      case OPCODES.close:
+        close();
+        return;
+      default:
+        // Binary messages aren't part of the protocol
+        close(1003);
+    }
+  };
+
+  socket.on('data', chunk => {
+    buffered = Buffer.concat([buffered, chunk]);
+    try {
+      let frame;
+      while (!closed && (frame = decodeFrame(buffered))) {
+        buffered = buffered.subarray(frame.size);
+        handleFrame(frame);
+      }
+    } catch (error) {
+      console.error('Error reading WebSocket message:', error.message);
+      close(1009);
+    }
+  });
+
+  socket.on('close', () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    closeListeners.forEach(listener => listener());
+  });
+  socket.on('error', () => socket.destroy());
+
+  return {
+    send: (message) => {
+      if (!closed) socket.write(encodeFrame(OPCODES.text, Buffer.from(JSON.stringify(message))));
+    },
+    close,
+    onMessage: (listener) => messageListeners.add(listener),
+    onClose: (listener) => closeListeners.add(listener)
+  };
+};
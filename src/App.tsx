@@ -4,7 +4,9 @@ import { Note, View } from './types';
 import AuthScreen from './pages/AuthScreen';
 import Dashboard from './pages/Dashboard';
 import SharedNoteView from './pages/SharedNoteView';
+import DatabaseUpgradeScreen from './pages/DatabaseUpgradeScreen';
 import { useAuth } from './hooks/useAuth';
+import { useDatabaseStatus } from './hooks/useDatabaseStatus';
 import { shareNote, getShareableUrl } from './utils/shareNote';
 
 const App: React.FC = () => {
@@ -19,6 +21,7 @@ const App: React.FC = () => {
   });
 
   const { user, loading, signOut: firebaseSignOut } = useAuth();
+  const { status: databaseStatus, retry: retryDatabase } = useDatabaseStatus();
 
   // Check for shared note route on mount
   useEffect(() => {
@@ -116,6 +119,12 @@ const App: React.FC = () => {
     );
   }
 
+  // Shared notes are read from the cloud, so they don't wait for the offline database
+  const databaseUnavailable = ['upgrading', 'blocked', 'failed'].includes(databaseStatus.state);
+  if (databaseUnavailable && view !== View.SharedNote) {
+    return <DatabaseUpgradeScreen status={databaseStatus} onRetry={retryDatabase} />;
+  }
+
   const renderContent = () => {
     switch (view) {
       case View.Auth:
@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { Note } from '../types';
+
+interface BacklinksPanelProps {
+  backlinks: Note[];
+  onOpenNote: (note: Note) => void;
+}
+
+const BacklinksPanel: React.FC<BacklinksPanelProps> = ({ backlinks, onOpenNote }) => {
+  const [isOpen, setIsOpen] = useState(true);
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center justify-between w-full px-3 sm:px-4 py-2 text-xs font-semibold tracking-wide text-gray-500 uppercase dark:text-gray-400"
+        aria-expanded={isOpen}
+      >
+        <span>Linked from {backlinks.length} {backlinks.length === 1 ? 'note' : 'notes'}</span>
+        <span>{isOpen ? '▾' : '▸'}</span>
+      </button>
+      {isOpen && (
+        <div className="px-3 sm:px-4 pb-3 max-h-40 overflow-y-auto">
+          {backlinks.length === 0 ? (
+            <p className="text-xs text-gray-400 dark:text-gray-500">
+              No notes link here yet. Type {'[['} in another note to link to this one.
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {backlinks.map(note => (
+                <li key={note.id}>
+                  <button
+                    onClick={() => onOpenNote(note)}
+                    className="text-sm text-primary-600 hover:underline dark:text-primary-400"
+                  >
+                    {note.title || 'Untitled Note'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BacklinksPanel;
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Note, MergeChunk } from '../types';
+import { applyResolutions } from '../utils/threeWayMerge';
+import { formatVersionDate } from '../utils/versionHistory';
+
+interface ConflictResolverProps {
+  note: Note;
+  onResolve: (title: string, content: string) => void;
+  onClose: () => void;
+}
+
+type ConflictChunk = Extract<MergeChunk, { type: 'conflict' }>;
+
+const ConflictResolver: React.FC<ConflictResolverProps> = ({ note, onResolve, onClose }) => {
+  const conflict = note.conflict;
+  const conflictChunks = (conflict?.chunks || []).filter(
+    (chunk): chunk is ConflictChunk => chunk.type === 'conflict'
+  );
+
+  const [title, setTitle] = useState(conflict?.title?.local ?? note.title);
+  const [resolutions, setResolutions] = useState<string[]>(
+    conflictChunks.map(chunk => chunk.local.join('\n'))
+  );
+
+  if (!conflict) return null;
+
+  const setResolution = (index: number, value: string) => {
+    setResolutions(prev => prev.map((resolution, i) => (i === index ? value : resolution)));
+  };
+
+  const handleApply = () => {
+    onResolve(title, applyResolutions(conflict.chunks, resolutions));
+  };
+
+  const renderLines = (lines: string[]) => (
+    <pre className="p-2 text-xs font-mono whitespace-pre-wrap break-words rounded bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-200 min-h-[2rem]">
+      {lines.length > 0 ? lines.join('\n') : <span className="italic text-gray-400">(removed)</span>}
+    </pre>
+  );
+
+  const choiceClasses = 'px-2 py-1 text-xs font-medium rounded-lg transition-colors text-primary-600 hover:bg-primary-100 dark:text-primary-400 dark:hover:bg-primary-900/50';
+
+  let conflictIndex = 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h3 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white">
+              Resolve Conflicts
+            </h3>
+            <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 mt-1">
+              This note was also edited on another device ({formatVersionDate(conflict.remote.updatedAt)}).
+              Pick or edit the text to keep for each conflict.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            aria-label="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 sm:w-6 sm:h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-4">
+          {/* Title conflict */}
+          {conflict.title && (
+            <div className="p-3 sm:p-4 rounded-lg border border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-900/20">
+              <h4 className="font-semibold text-sm text-gray-900 dark:text-white mb-2">Title</h4>
+              <div className="flex flex-wrap gap-2 mb-2">
+                <button onClick={() => setTitle(conflict.title!.local)} className={choiceClasses}>
+                  Use mine: “{conflict.title.local}”
+                </button>
+                <button onClick={() => setTitle(conflict.title!.remote)} className={choiceClasses}>
+                  Use theirs: “{conflict.title.remote}”
+                </button>
+              </div>
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Note Title"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+          )}
+
+          {/* Content hunks */}
+          {conflict.chunks.map((chunk, chunkIndex) => {
+            if (chunk.type === 'resolved') {
+              return (
+                <p key={chunkIndex} className="text-xs text-center text-gray-400 dark:text-gray-500">
+                  {chunk.lines.length} merged line{chunk.lines.length !== 1 ? 's' : ''}
+                </p>
+              );
+            }
+
+            const index = conflictIndex++;
+            return (
+              <div key={chunkIndex} className="p-3 sm:p-4 rounded-lg border border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-900/20">
+                <h4 className="font-semibold text-sm text-gray-900 dark:text-white mb-2">
+                  Conflict {index + 1} of {conflictChunks.length}
+                </h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-2">
+                  <div>
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-xs font-medium text-gray-600 dark:text-gray-300">This device</span>
+                      <button onClick={() => setResolution(index, chunk.local.join('\n'))} className={choiceClasses}>
+                        Use mine
+                      </button>
+                    </div>
+                    {renderLines(chunk.local)}
+                  </div>
+                  <div>
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-xs font-medium text-gray-600 dark:text-gray-300">Other device</span>
+                      <button onClick={() => setResolution(index, chunk.remote.join('\n'))} className={choiceClasses}>
+                        Use theirs
+                      </button>
+                    </div>
+                    {renderLines(chunk.remote)}
+                  </div>
+                </div>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-xs font-medium text-gray-600 dark:text-gray-300">Result</span>
+                  <button
+                    onClick={() => setResolution(index, [...chunk.local, ...chunk.remote].join('\n'))}
+                    className={choiceClasses}
+                  >
+                    Keep both
+                  </button>
+                </div>
+                <textarea
+                  value={resolutions[index]}
+                  onChange={(e) => setResolution(index, e.target.value)}
+                  rows={Math.max(3, resolutions[index].split('\n').length)}
+                  aria-label={`Resolution for conflict ${index + 1}`}
+                  className="w-full px-3 py-2 text-xs font-mono border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        <div className="flex flex-col sm:flex-row justify-end gap-2 sm:gap-3 p-4 sm:p-6 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            Later
+          </button>
+          <button
+            onClick={handleApply}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors"
+          >
+            Apply Resolution
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictResolver;
@@ -1,40 +1,57 @@
-import React from 'react';
+import React, { createContext, useContext } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeRaw from 'rehype-raw';
+import rehypeSanitize from 'rehype-sanitize';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus, vs } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { remarkWikiLinks, WIKI_LINK_HREF_PREFIX } from '../utils/wikiLinks';
 
 interface MarkdownRendererProps {
   content: string;
   isDarkMode?: boolean;
+  // Makes task list checkboxes clickable; `line` is the 0-based line of the task in `content`
+  onToggleTask?: (line: number, checked: boolean) => void;
+  // Makes [[wiki links]] clickable; without it they render as plain text
+  onOpenWikiLink?: (target: string) => void;
+  isWikiLinkResolved?: (target: string) => boolean;
 }
 
-const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, isDarkMode = false }) => {
-  // Parse content and render with code blocks
-  const renderContent = () => {
-    const elements: React.ReactNode[] = [];
-    let currentIndex = 0;
+// Sanitizing prefixes every id (so user content can't clobber page globals); in-page links follow suit
+const SANITIZED_ID_PREFIX = 'user-content-';
 
-    // Regex to match code blocks: ```language\ncode\n```
-    const codeBlockRegex = /```(\w+)?\n([\s\S]*?)```/g;
-    let match;
+// Source line of the task list item a checkbox belongs to
+const TaskLineContext = createContext<number | null>(null);
 
-    while ((match = codeBlockRegex.exec(content)) !== null) {
-      const beforeCode = content.substring(currentIndex, match.index);
-      
-      // Add text before code block
-      if (beforeCode) {
-        elements.push(
-          <div key={`text-${currentIndex}`} className="whitespace-pre-wrap">
-            {beforeCode}
-          </div>
-        );
+const TaskCheckbox: React.FC<{ checked: boolean; onToggle?: (line: number, checked: boolean) => void }> = ({ checked, onToggle }) => {
+  const line = useContext(TaskLineContext);
+  const isInteractive = !!onToggle && line !== null;
+
+  return (
+    <input
+      type="checkbox"
+      checked={checked}
+      disabled={!isInteractive}
+      onChange={() => isInteractive && onToggle(line, !checked)}
+      className={`mr-1.5 align-middle ${isInteractive ? 'cursor-pointer' : ''}`}
+    />
+  );
+};
+
+const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, isDarkMode = false, onToggleTask, onOpenWikiLink, isWikiLinkResolved }) => {
+  const components: Components = {
+    // Fenced and indented code blocks keep the syntax-highlighted look
+    pre: ({ children }) => {
+      const codeElement = React.Children.toArray(children)[0];
+      if (!React.isValidElement<{ className?: string; children?: React.ReactNode }>(codeElement)) {
+        return <pre>{children}</pre>;
       }
 
-      // Add code block with syntax highlighting
-      const language = match[1] || 'text';
-      const code = match[2].trim();
-      
-      elements.push(
-        <div key={`code-${match.index}`} className="my-4 rounded-lg overflow-hidden">
+      const language = codeElement.props.className?.match(/language-(\S+)/)?.[1] || 'text';
+      const code = String(codeElement.props.children ?? '').replace(/\n$/, '');
+
+      return (
+        <div className="not-prose my-4 rounded-lg overflow-hidden">
           <div className="bg-gray-700 dark:bg-gray-900 px-4 py-2 text-xs text-gray-300 dark:text-gray-400 font-mono">
             {language}
           </div>
@@ -53,24 +70,71 @@ const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, isDarkMode
           </SyntaxHighlighter>
         </div>
       );
-
-      currentIndex = match.index + match[0].length;
-    }
-
-    // Add remaining text after last code block
-    if (currentIndex < content.length) {
-      const remainingText = content.substring(currentIndex);
-      elements.push(
-        <div key={`text-${currentIndex}`} className="whitespace-pre-wrap">
-          {remainingText}
-        </div>
+    },
+    a: ({ href, children, node, ...props }) => {
+      if (href?.startsWith(WIKI_LINK_HREF_PREFIX)) {
+        const target = decodeURIComponent(href.slice(WIKI_LINK_HREF_PREFIX.length));
+        if (!onOpenWikiLink) {
+          return <span>{children}</span>;
+        }
+        const isResolved = isWikiLinkResolved?.(target) ?? true;
+        return (
+          <a
+            href={href}
+            onClick={(e) => {
+              e.preventDefault();
+              onOpenWikiLink(target);
+            }}
+            title={isResolved ? target : `${target} (no such note yet)`}
+            className={isResolved ? 'text-primary-600 dark:text-primary-400' : 'text-gray-400 dark:text-gray-500 decoration-dashed'}
+          >
+            {children}
+          </a>
+        );
+      }
+      if (href?.startsWith('#')) {
+        return <a {...props} href={`#${SANITIZED_ID_PREFIX}${href.slice(1)}`}>{children}</a>;
+      }
+      return <a {...props} href={href} target="_blank" rel="noopener noreferrer">{children}</a>;
+    },
+    li: ({ children, node, ...props }) => {
+      const line = node?.position?.start.line;
+      if (!props.className?.includes('task-list-item') || line === undefined) {
+        return <li {...props}>{children}</li>;
+      }
+      return (
+        <li {...props}>
+          <TaskLineContext.Provider value={line - 1}>{children}</TaskLineContext.Provider>
+        </li>
       );
-    }
-
-    return elements.length > 0 ? elements : <div className="whitespace-pre-wrap">{content}</div>;
+    },
+    input: ({ node, ...props }) => {
+      if (props.type !== 'checkbox') {
+        return <input {...props} />;
+      }
+      return <TaskCheckbox checked={!!props.checked} onToggle={onToggleTask} />;
+    },
+    table: ({ children, node, ...props }) => (
+      <div className="overflow-x-auto">
+        <table {...props}>{children}</table>
+      </div>
+    )
   };
 
-  return <div className="prose dark:prose-invert max-w-none">{renderContent()}</div>;
+  return (
+    <div className="prose dark:prose-invert max-w-none">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkWikiLinks]}
+        // Raw HTML is parsed, then sanitized with GitHub's allow-list (no scripts, handlers or javascript: URLs)
+        rehypePlugins={[rehypeRaw, rehypeSanitize]}
+        // Footnote ids are prefixed by the sanitizer instead
+        remarkRehypeOptions={{ clobberPrefix: '' }}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
 };
 
 export default MarkdownRenderer;
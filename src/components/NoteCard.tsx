@@ -1,51 +1,82 @@
-
 import React from 'react';
-import { Note } from '../types';
+import { Note, NoteSyncState } from '../types';
+import { NOTE_DRAG_TYPE } from './NotebookTree';
+import { SearchMatch } from '../hooks/useNoteSearch';
 
 interface NoteCardProps {
   note: Note;
   isActive: boolean;
   onClick: () => void;
-  searchTerm?: string;
+  match?: SearchMatch;
+  syncState?: NoteSyncState;
 }
 
-const NoteCard: React.FC<NoteCardProps> = ({ note, isActive, onClick, searchTerm = '' }) => {
+const SYNC_INDICATORS: Record<Exclude<NoteSyncState, 'synced'>, { className: string; label: string }> = {
+  pending: { className: 'bg-amber-400', label: 'Changes not synced yet' },
+  syncing: { className: 'bg-blue-500 animate-pulse', label: 'Syncing...' },
+  failed: { className: 'bg-red-500', label: 'Failed to sync — see sync status' }
+};
+
+const NoteCard: React.FC<NoteCardProps> = ({ note, isActive, onClick, match, syncState = 'synced' }) => {
   const contentSnippet = note.content.substring(0, 100).replace(/```[\s\S]*?```/g, '[Code Snippet]') + (note.content.length > 100 ? '...' : '');
 
-  // Function to highlight search term
-  const highlightText = (text: string, search: string) => {
-    if (!search.trim()) return text;
-    
-    const regex = new RegExp(`(${search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-    const parts = text.split(regex);
-    
-    return parts.map((part, index) => 
-      regex.test(part) ? (
+  // Function to highlight matched word ranges
+  const highlightRanges = (text: string, ranges: Array<[number, number]>) => {
+    if (ranges.length === 0) return text;
+
+    const parts: React.ReactNode[] = [];
+    let lastIndex = 0;
+    ranges.forEach(([start, end], index) => {
+      if (start > lastIndex) parts.push(text.slice(lastIndex, start));
+      parts.push(
         <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 text-gray-900 dark:text-gray-100 rounded px-0.5">
-          {part}
+          {text.slice(start, end)}
         </mark>
-      ) : (
-        part
-      )
-    );
+      );
+      lastIndex = end;
+    });
+    if (lastIndex < text.length) parts.push(text.slice(lastIndex));
+
+    return parts;
   };
 
   const baseClasses = 'block p-3 sm:p-4 m-2 rounded-lg cursor-pointer transition-all duration-150';
   const activeClasses = 'bg-primary-100 dark:bg-primary-900/50 border-l-4 border-primary-600';
   const inactiveClasses = 'hover:bg-gray-100 dark:hover:bg-gray-700/50';
-  const searchMatchClasses = searchTerm ? 'ring-2 ring-yellow-300 dark:ring-yellow-600' : '';
+  const searchMatchClasses = match ? 'ring-2 ring-yellow-300 dark:ring-yellow-600' : '';
+  const title = note.title || 'Untitled Note';
 
   return (
     <div
       className={`${baseClasses} ${isActive ? activeClasses : inactiveClasses} ${searchMatchClasses}`}
       onClick={onClick}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(NOTE_DRAG_TYPE, note.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
     >
-      <h3 className="font-semibold truncate text-sm sm:text-base text-gray-800 dark:text-gray-100">
-        {highlightText(note.title || 'Untitled Note', searchTerm)}
-      </h3>
-      <p className="mt-1 text-xs sm:text-sm text-gray-500 truncate dark:text-gray-400">
-        {searchTerm ? highlightText(contentSnippet || 'No content', searchTerm) : (contentSnippet || 'No content')}
-      </p>
+      <div className="flex items-center gap-2">
+        <h3 className="flex-1 font-semibold truncate text-sm sm:text-base text-gray-800 dark:text-gray-100">
+          {match && note.title ? highlightRanges(title, match.titleRanges) : title}
+        </h3>
+        {syncState !== 'synced' && (
+          <span
+            className={`flex-shrink-0 w-2 h-2 rounded-full ${SYNC_INDICATORS[syncState].className}`}
+            title={SYNC_INDICATORS[syncState].label}
+            aria-label={SYNC_INDICATORS[syncState].label}
+          />
+        )}
+      </div>
+      {match ? (
+        <p className="mt-1 text-xs sm:text-sm text-gray-500 dark:text-gray-400 line-clamp-2">
+          {match.snippet.text ? highlightRanges(match.snippet.text, match.snippet.ranges) : 'No content'}
+        </p>
+      ) : (
+        <p className="mt-1 text-xs sm:text-sm text-gray-500 truncate dark:text-gray-400">
+          {contentSnippet || 'No content'}
+        </p>
+      )}
     </div>
   );
 };
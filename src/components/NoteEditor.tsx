@@ -1,34 +1,92 @@
 
 import React, { useState, useEffect } from 'react';
-import { Note } from '../types';
+import { Note, VersionChangeType, RestoredHunk } from '../types';
 import { ShareIcon } from './icons/ShareIcon';
 import { TrashIcon } from './icons/TrashIcon';
 import { HistoryIcon } from './icons/HistoryIcon';
+import { BookmarkIcon } from './icons/BookmarkIcon';
 import MarkdownRenderer from './MarkdownRenderer';
 import VersionHistory from './VersionHistory';
+import ConflictResolver from './ConflictResolver';
+import TagInput from './TagInput';
+import BacklinksPanel from './BacklinksPanel';
+import { setTaskChecked } from '../utils/tasks';
+import { getOpenWikiLink, normalizeLinkTarget } from '../utils/wikiLinks';
+
+const MAX_LINK_SUGGESTIONS = 6;
 
 interface NoteEditorProps {
   note: Note;
-  onSave: (note: Note) => void;
+  onSave: (note: Note, changeType?: VersionChangeType, restoredHunks?: RestoredHunk[]) => void;
   onDelete: (noteId: string) => void;
   onShare: (note: Note) => Promise<string>;
+  allTags?: string[];
+  onResolveConflict?: (noteId: string, title: string, content: string) => void;
+  onCreateCheckpoint?: (note: Note, label: string) => Promise<void>;
   onEditingChange?: (noteId: string | null) => void;
+  // Another tab is editing this note right now
+  isEditedInAnotherTab?: boolean;
   onBack?: () => void;
   isDarkMode?: boolean;
+  noteTitles?: string[];
+  backlinks?: Note[];
+  onOpenNote?: (note: Note) => void;
+  onOpenWikiLink?: (target: string) => void;
+  isWikiLinkResolved?: (target: string) => boolean;
+  // Offered after a rename when other notes still link to the old title
+  linkRenameOffer?: { fromTitle: string; count: number } | null;
+  onRewriteLinks?: () => void;
+  onDismissLinkRename?: () => void;
 }
 
-const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSave, onDelete, onShare, onEditingChange, onBack, isDarkMode = false }) => {
+const NoteEditor: React.FC<NoteEditorProps> = ({
+  note,
+  onSave,
+  onDelete,
+  onShare,
+  allTags = [],
+  onResolveConflict,
+  onCreateCheckpoint,
+  onEditingChange,
+  isEditedInAnotherTab = false,
+  onBack,
+  isDarkMode = false,
+  noteTitles = [],
+  backlinks = [],
+  onOpenNote,
+  onOpenWikiLink,
+  isWikiLinkResolved,
+  linkRenameOffer,
+  onRewriteLinks,
+  onDismissLinkRename
+}) => {
   const [title, setTitle] = useState(note.title);
   const [content, setContent] = useState(note.content);
+  const [tags, setTags] = useState<string[]>(note.tags || []);
   const [isSaved, setIsSaved] = useState(true);
   const [isPreview, setIsPreview] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
+  const [checkpointLabel, setCheckpointLabel] = useState<string | null>(null);
   const [shareUrl, setShareUrl] = useState<string | null>(null);
   const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const [showConflictResolver, setShowConflictResolver] = useState(false);
+  const [linkQuery, setLinkQuery] = useState<string | null>(null);
+  const [highlightedLink, setHighlightedLink] = useState(0);
+  const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+
+  // Titles matching the [[partial link before the cursor; prefix matches first
+  const linkSuggestions = linkQuery === null ? [] : (() => {
+    const query = normalizeLinkTarget(linkQuery);
+    const candidates = Array.from(new Set(noteTitles.filter(t => t.trim() && normalizeLinkTarget(t) !== normalizeLinkTarget(title))));
+    const startsWith = candidates.filter(t => normalizeLinkTarget(t).startsWith(query));
+    const contains = candidates.filter(t => !normalizeLinkTarget(t).startsWith(query) && normalizeLinkTarget(t).includes(query));
+    return [...startsWith, ...contains].slice(0, MAX_LINK_SUGGESTIONS);
+  })();
 
   useEffect(() => {
     setTitle(note.title);
     setContent(note.content);
+    setTags(note.tags || []);
     
     // Clear editing flag when switching notes
     return () => {
@@ -49,7 +107,7 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSave, onDelete, onShare
       clearTimeout(handler);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [title, content, isSaved]);
+  }, [title, content, tags, isSaved]);
 
   const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setTitle(e.target.value);
@@ -62,6 +120,8 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSave, onDelete, onShare
 
   const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setContent(e.target.value);
+    setLinkQuery(getOpenWikiLink(e.target.value.slice(0, e.target.selectionStart)));
+    setHighlightedLink(0);
     setIsSaved(false);
     // Notify that we're editing this note
     if (onEditingChange) {
@@ -69,8 +129,56 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSave, onDelete, onShare
     }
   };
 
+  // Complete the [[link under the cursor with a note title
+  const insertLink = (linkTitle: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const cursor = textarea.selectionStart;
+    const before = content.slice(0, cursor);
+    const start = before.lastIndexOf('[[') + 2;
+    const after = content.slice(cursor);
+    const closing = after.startsWith(']]') ? '' : ']]';
+    const newContent = content.slice(0, start) + linkTitle + closing + after;
+    const newCursor = start + linkTitle.length + 2;
+
+    setContent(newContent);
+    setLinkQuery(null);
+    setIsSaved(false);
+    onEditingChange?.(note.id);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(newCursor, newCursor);
+    });
+  };
+
+  const handleContentKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (linkSuggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlightedLink(prev => (prev + 1) % linkSuggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedLink(prev => (prev - 1 + linkSuggestions.length) % linkSuggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertLink(linkSuggestions[Math.min(highlightedLink, linkSuggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setLinkQuery(null);
+    }
+  };
+
+  const handleTagsChange = (newTags: string[]) => {
+    setTags(newTags);
+    setIsSaved(false);
+    if (onEditingChange) {
+      onEditingChange(note.id);
+    }
+  };
+
   const handleSave = () => {
-    onSave({ ...note, title, content });
+    onSave({ ...note, title, content, tags });
     setIsSaved(true);
     // Clear editing flag after save
     if (onEditingChange) {
@@ -117,13 +225,42 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSave, onDelete, onShare
     setShareUrl(null);
   };
 
-  const handleRestoreVersion = (restoredNote: Note) => {
+  const handleCreateCheckpoint = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onCreateCheckpoint || !checkpointLabel?.trim()) return;
+
+    // Save first so the checkpoint matches the note as it is now
+    handleSave();
+    await onCreateCheckpoint({ ...note, title, content, tags }, checkpointLabel);
+    setCheckpointLabel(null);
+  };
+
+  // Ticking a checkbox in preview writes straight back to the note
+  const handleToggleTask = (line: number, checked: boolean) => {
+    const newContent = setTaskChecked(content, line, checked);
+    if (newContent === content) return;
+
+    setContent(newContent);
+    onSave({ ...note, title, content: newContent, tags });
+    setIsSaved(true);
+  };
+
+  const handleRestoreVersion = (restoredNote: Note, restoredHunks: RestoredHunk[]) => {
     setTitle(restoredNote.title);
     setContent(restoredNote.content);
-    onSave(restoredNote);
+    setTags(restoredNote.tags || []);
+    onSave(restoredNote, 'restored', restoredHunks);
     setIsSaved(true);
   };
 
+  const handleResolveConflict = (resolvedTitle: string, resolvedContent: string) => {
+    setTitle(resolvedTitle);
+    setContent(resolvedContent);
+    setIsSaved(true);
+    setShowConflictResolver(false);
+    onResolveConflict?.(note.id, resolvedTitle, resolvedContent);
+  };
+
   return (
     <div className="flex flex-col h-full bg-gray-50 dark:bg-gray-900">
       <div className="flex items-center justify-between p-3 sm:p-4 border-b border-gray-200 dark:border-gray-700">
@@ -165,6 +302,16 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSave, onDelete, onShare
           >
             <HistoryIcon className="w-4 h-4 sm:w-5 sm:h-5" />
           </button>
+          {onCreateCheckpoint && (
+            <button 
+              onClick={() => setCheckpointLabel('')} 
+              className="p-1.5 sm:p-2 text-gray-500 rounded-full hover:bg-gray-200 hover:text-gray-800 dark:hover:bg-gray-700 dark:hover:text-gray-200 transition-colors"
+              aria-label="Create checkpoint"
+              title="Create checkpoint"
+            >
+              <BookmarkIcon className="w-4 h-4 sm:w-5 sm:h-5" />
+            </button>
+          )}
           <button 
             onClick={handleShare} 
             className="p-1.5 sm:p-2 text-gray-500 rounded-full hover:bg-gray-200 hover:text-gray-800 dark:hover:bg-gray-700 dark:hover:text-gray-200 transition-colors"
@@ -176,21 +323,79 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSave, onDelete, onShare
           <button 
             onClick={() => onDelete(note.id)} 
             className="p-1.5 sm:p-2 text-gray-500 rounded-full hover:bg-gray-200 hover:text-red-600 dark:hover:bg-gray-700 dark:hover:text-red-500 transition-colors"
-            aria-label="Delete note"
-            title="Delete note"
+            aria-label="Move to trash"
+            title="Move to trash"
           >
             <TrashIcon className="w-4 h-4 sm:w-5 sm:h-5" />
           </button>
         </div>
       </div>
       
+      {/* Merge conflict notice */}
+      {note.conflict && onResolveConflict && (
+        <div className="flex items-center justify-between gap-2 px-3 sm:px-4 py-2 text-xs sm:text-sm text-yellow-800 bg-yellow-50 border-b border-yellow-200 dark:bg-yellow-900/20 dark:text-yellow-300 dark:border-yellow-800">
+          <span>⚠️ This note was edited on another device and couldn't be merged automatically.</span>
+          <button
+            onClick={() => setShowConflictResolver(true)}
+            className="px-3 py-1 font-medium text-white bg-yellow-600 rounded-lg hover:bg-yellow-700 transition-colors"
+          >
+            Resolve
+          </button>
+        </div>
+      )}
+      
+      {/* Same note open for editing in another tab */}
+      {isEditedInAnotherTab && (
+        <div className="px-3 sm:px-4 py-2 text-xs sm:text-sm text-orange-800 bg-orange-50 border-b border-orange-200 dark:bg-orange-900/20 dark:text-orange-300 dark:border-orange-800">
+          ✏️ This note is also being edited in another tab. Whichever tab saves last wins, so finish in one of them.
+        </div>
+      )}
+
+      {/* Offer to update links after a rename */}
+      {linkRenameOffer && onRewriteLinks && (
+        <div className="flex items-center justify-between gap-2 px-3 sm:px-4 py-2 text-xs sm:text-sm text-blue-800 bg-blue-50 border-b border-blue-200 dark:bg-blue-900/20 dark:text-blue-300 dark:border-blue-800">
+          <span>
+            🔗 {linkRenameOffer.count} {linkRenameOffer.count === 1 ? 'note links' : 'notes link'} to "{linkRenameOffer.fromTitle}". Update {linkRenameOffer.count === 1 ? 'it' : 'them'} to the new title?
+          </span>
+          <div className="flex items-center gap-1 shrink-0">
+            <button
+              onClick={onDismissLinkRename}
+              className="px-3 py-1 font-medium text-blue-700 rounded-lg hover:bg-blue-100 dark:text-blue-300 dark:hover:bg-blue-900/40 transition-colors"
+            >
+              Keep
+            </button>
+            <button
+              onClick={onRewriteLinks}
+              className="px-3 py-1 font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Update links
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="flex-1 p-3 sm:p-4 md:p-6 overflow-y-auto">
         {isPreview ? (
           <div>
             <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white mb-4 sm:mb-6">
               {title || 'Untitled Note'}
             </h1>
-            <MarkdownRenderer content={content} isDarkMode={isDarkMode} />
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 -mt-2 mb-4 sm:mb-6">
+                {tags.map(tag => (
+                  <span key={tag} className="px-2 py-0.5 text-xs font-medium text-primary-700 bg-primary-100 rounded-full dark:bg-primary-900/50 dark:text-primary-300">
+                    #{tag}
+                  </span>
+                ))}
+              </div>
+            )}
+            <MarkdownRenderer
+              content={content}
+              isDarkMode={isDarkMode}
+              onToggleTask={handleToggleTask}
+              onOpenWikiLink={onOpenWikiLink}
+              isWikiLinkResolved={isWikiLinkResolved}
+            />
           </div>
         ) : (
           <>
@@ -201,16 +406,46 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSave, onDelete, onShare
               placeholder="Note Title"
               className="w-full text-2xl sm:text-3xl font-bold bg-transparent focus:outline-none text-gray-900 dark:text-white placeholder-gray-400"
             />
+            <div className="mt-2">
+              <TagInput tags={tags} suggestions={allTags} onChange={handleTagsChange} />
+            </div>
             <textarea
+              ref={textareaRef}
               value={content}
               onChange={handleContentChange}
+              onKeyDown={handleContentKeyDown}
+              onBlur={() => setLinkQuery(null)}
               placeholder="Start writing... Use ```language for code blocks"
               className="w-full h-full mt-3 sm:mt-4 text-base sm:text-lg bg-transparent resize-none focus:outline-none leading-relaxed text-gray-800 dark:text-gray-300 placeholder-gray-400"
             />
+            {/* [[ link autocomplete */}
+            {linkSuggestions.length > 0 && (
+              <ul className="sticky bottom-0 py-1 bg-white border border-gray-200 rounded-lg shadow-lg dark:bg-gray-700 dark:border-gray-600">
+                <li className="px-3 py-1 text-xs text-gray-400">Link to note</li>
+                {linkSuggestions.map((linkTitle, index) => (
+                  <li key={linkTitle}>
+                    <button
+                      // Keep focus in the textarea so the click doesn't close the list first
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        insertLink(linkTitle);
+                      }}
+                      className={`w-full px-3 py-1.5 text-left text-sm text-gray-800 dark:text-gray-200 ${
+                        index === highlightedLink ? 'bg-primary-50 dark:bg-gray-600' : 'hover:bg-gray-50 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      {linkTitle}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
           </>
         )}
       </div>
 
+      {onOpenNote && <BacklinksPanel backlinks={backlinks} onOpenNote={onOpenNote} />}
+
       {/* Share Modal */}
       {showShareModal && shareUrl && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4" onClick={closeShareModal}>
@@ -257,10 +492,63 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSave, onDelete, onShare
         </div>
       )}
 
+      {/* Checkpoint Modal */}
+      {checkpointLabel !== null && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4" onClick={() => setCheckpointLabel(null)}>
+          <form
+            onSubmit={handleCreateCheckpoint}
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-4 sm:p-6 max-w-md w-full"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white mb-3 sm:mb-4">
+              Create Checkpoint
+            </h3>
+            <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400 mb-3 sm:mb-4">
+              Name this point in the note's history. Checkpoints are never cleaned up and can be shared as a frozen link.
+            </p>
+            <input
+              type="text"
+              value={checkpointLabel}
+              onChange={(e) => setCheckpointLabel(e.target.value)}
+              placeholder="e.g. before refactor, sent to client"
+              autoFocus
+              maxLength={80}
+              className="w-full px-3 py-2 mb-4 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-gray-200"
+            />
+            <div className="flex flex-col sm:flex-row justify-end space-y-2 sm:space-y-0 sm:space-x-2">
+              <button
+                type="button"
+                onClick={() => setCheckpointLabel(null)}
+                className="w-full sm:w-auto px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!checkpointLabel.trim()}
+                className="w-full sm:w-auto px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Create Checkpoint
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Conflict Resolver Modal */}
+      {showConflictResolver && note.conflict && (
+        <ConflictResolver
+          note={note}
+          onResolve={handleResolveConflict}
+          onClose={() => setShowConflictResolver(false)}
+        />
+      )}
+
       {/* Version History Modal */}
       {showVersionHistory && (
         <VersionHistory
           note={note}
+          draft={{ title, content, tags }}
           onRestore={handleRestoreVersion}
           onClose={() => setShowVersionHistory(false)}
           isDarkMode={isDarkMode}
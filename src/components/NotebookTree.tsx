@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { Notebook } from '../types';
+import { buildNotebookTree, canMoveNotebook, NotebookNode } from '../utils/notebooks';
+
+export const NOTE_DRAG_TYPE = 'application/x-smartnote-note';
+const NOTEBOOK_DRAG_TYPE = 'application/x-smartnote-notebook';
+
+interface NotebookTreeProps {
+  notebooks: Notebook[];
+  noteCounts: Map<string, number>;
+  totalCount: number;
+  selectedNotebookId: string | null;
+  onSelect: (notebookId: string | null) => void;
+  onCreate: (parentId: string | null) => Promise<Notebook>;
+  onRename: (notebookId: string, name: string) => void;
+  onMove: (notebookId: string, parentId: string | null) => void;
+  onDelete: (notebookId: string) => void;
+  onMoveNote: (noteId: string, notebookId: string | null) => void;
+}
+
+const NotebookTree: React.FC<NotebookTreeProps> = ({
+  notebooks,
+  noteCounts,
+  totalCount,
+  selectedNotebookId,
+  onSelect,
+  onCreate,
+  onRename,
+  onMove,
+  onDelete,
+  onMoveNote
+}) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [dropTargetId, setDropTargetId] = useState<string | null | undefined>(undefined);
+  const tree = buildNotebookTree(notebooks);
+
+  const toggleCollapsed = (notebookId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(notebookId)) {
+        next.delete(notebookId);
+      } else {
+        next.add(notebookId);
+      }
+      return next;
+    });
+  };
+
+  const startRename = (notebook: Notebook) => {
+    setRenamingId(notebook.id);
+    setRenameValue(notebook.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      onRename(renamingId, renameValue);
+    }
+    setRenamingId(null);
+  };
+
+  const handleCreate = async (parentId: string | null) => {
+    const notebook = await onCreate(parentId);
+    if (parentId) {
+      setCollapsed(prev => {
+        const next = new Set(prev);
+        next.delete(parentId);
+        return next;
+      });
+    }
+    startRename(notebook);
+  };
+
+  const handleDelete = (notebook: Notebook) => {
+    if (window.confirm(`Delete notebook "${notebook.name}"? Its notes and sub-notebooks will move to the parent notebook.`)) {
+      onDelete(notebook.id);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent, targetId: string | null) => {
+    const types = Array.from(e.dataTransfer.types);
+    if (types.includes(NOTE_DRAG_TYPE) || types.includes(NOTEBOOK_DRAG_TYPE)) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTargetId(targetId);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, targetId: string | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTargetId(undefined);
+
+    const noteId = e.dataTransfer.getData(NOTE_DRAG_TYPE);
+    if (noteId) {
+      onMoveNote(noteId, targetId);
+      return;
+    }
+
+    const notebookId = e.dataTransfer.getData(NOTEBOOK_DRAG_TYPE);
+    if (notebookId && canMoveNotebook(notebooks, notebookId, targetId)) {
+      onMove(notebookId, targetId);
+    }
+  };
+
+  const rowClasses = (isSelected: boolean, isDropTarget: boolean) =>
+    `group flex items-center justify-between pr-2 py-1 text-sm rounded-lg cursor-pointer transition-colors ${
+      isSelected
+        ? 'bg-primary-100 text-primary-700 dark:bg-primary-900/50 dark:text-primary-300'
+        : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700/50'
+    } ${isDropTarget ? 'ring-2 ring-primary-400' : ''}`;
+
+  const actionClasses = 'px-1 text-xs text-gray-400 hover:text-gray-700 dark:hover:text-gray-200';
+
+  const renderNode = (node: NotebookNode): React.ReactNode => {
+    const { notebook, children, depth } = node;
+    const isCollapsed = collapsed.has(notebook.id);
+
+    return (
+      <li key={notebook.id}>
+        <div
+          draggable={renamingId !== notebook.id}
+          onDragStart={(e) => {
+            e.dataTransfer.setData(NOTEBOOK_DRAG_TYPE, notebook.id);
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          onDragOver={(e) => handleDragOver(e, notebook.id)}
+          onDragLeave={() => setDropTargetId(undefined)}
+          onDrop={(e) => handleDrop(e, notebook.id)}
+          onClick={() => onSelect(notebook.id)}
+          className={rowClasses(selectedNotebookId === notebook.id, dropTargetId === notebook.id)}
+          style={{ paddingLeft: `${0.5 + depth * 0.75}rem` }}
+        >
+          <div className="flex items-center min-w-0 flex-1">
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleCollapsed(notebook.id);
+              }}
+              className={`w-4 mr-1 text-xs text-gray-400 ${children.length === 0 ? 'invisible' : ''}`}
+              aria-label={isCollapsed ? 'Expand notebook' : 'Collapse notebook'}
+            >
+              {isCollapsed ? '▸' : '▾'}
+            </button>
+            {renamingId === notebook.id ? (
+              <input
+                autoFocus
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                onBlur={commitRename}
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+                aria-label="Notebook name"
+                className="flex-1 min-w-0 px-1 text-sm bg-white border border-gray-300 rounded dark:bg-gray-700 dark:border-gray-600 focus:outline-none"
+              />
+            ) : (
+              <span className="truncate">📁 {notebook.name}</span>
+            )}
+          </div>
+          <div className="flex items-center">
+            <span className="hidden group-hover:flex">
+              <button
+                onClick={(e) => { e.stopPropagation(); handleCreate(notebook.id); }}
+                className={actionClasses}
+                title="New sub-notebook"
+                aria-label="New sub-notebook"
+              >
+                +
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); startRename(notebook); }}
+                className={actionClasses}
+                title="Rename notebook"
+                aria-label="Rename notebook"
+              >
+                ✎
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); handleDelete(notebook); }}
+                className={`${actionClasses} hover:text-red-600 dark:hover:text-red-500`}
+                title="Delete notebook"
+                aria-label="Delete notebook"
+              >
+                ×
+              </button>
+            </span>
+            <span className="ml-1 text-xs text-gray-400">{noteCounts.get(notebook.id) || 0}</span>
+          </div>
+        </div>
+        {children.length > 0 && !isCollapsed && <ul>{children.map(renderNode)}</ul>}
+      </li>
+    );
+  };
+
+  return (
+    <div className="px-2 pb-2 border-b border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between px-2 py-1">
+        <span className="text-xs font-semibold tracking-wide text-gray-500 uppercase dark:text-gray-400">Notebooks</span>
+        <button
+          onClick={() => handleCreate(null)}
+          className="px-1 text-sm text-gray-500 hover:text-primary-600 dark:text-gray-400 dark:hover:text-primary-400"
+          title="New notebook"
+          aria-label="New notebook"
+        >
+          +
+        </button>
+      </div>
+      <ul className="max-h-48 overflow-y-auto">
+        <li>
+          <div
+            onClick={() => onSelect(null)}
+            onDragOver={(e) => handleDragOver(e, null)}
+            onDragLeave={() => setDropTargetId(undefined)}
+            onDrop={(e) => handleDrop(e, null)}
+            className={`${rowClasses(selectedNotebookId === null, dropTargetId === null)} pl-2`}
+          >
+            <span className="truncate">🗂️ All Notes</span>
+            <span className="text-xs text-gray-400">{totalCount}</span>
+          </div>
+        </li>
+        {tree.map(renderNode)}
+      </ul>
+    </div>
+  );
+};
+
+export default NotebookTree;
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { SavedSearch } from '../types';
+import { parseSearchQuery } from '../utils/searchQuery';
+
+const SAVED_SEARCH_DRAG_TYPE = 'application/x-smartnote-saved-search';
+
+interface SavedSearchListProps {
+  savedSearches: SavedSearch[];
+  counts: Record<string, number | null>;
+  currentQuery: string;
+  canSaveCurrent: boolean;
+  onSelect: (query: string) => void;
+  onSave: (name: string, query: string) => Promise<SavedSearch>;
+  onUpdate: (savedSearchId: string, changes: Pick<SavedSearch, 'name' | 'query'>) => void;
+  onMove: (savedSearchId: string, targetIndex: number) => void;
+  onDelete: (savedSearchId: string) => void;
+}
+
+const SavedSearchList: React.FC<SavedSearchListProps> = ({
+  savedSearches,
+  counts,
+  currentQuery,
+  canSaveCurrent,
+  onSelect,
+  onSave,
+  onUpdate,
+  onMove,
+  onDelete
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [draftQuery, setDraftQuery] = useState('');
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  if (savedSearches.length === 0 && !canSaveCurrent) return null;
+
+  const draftError = editingId ? parseSearchQuery(draftQuery).error : null;
+
+  const startEdit = (savedSearch: SavedSearch) => {
+    setEditingId(savedSearch.id);
+    setDraftName(savedSearch.name);
+    setDraftQuery(savedSearch.query);
+  };
+
+  const commitEdit = () => {
+    if (!editingId || draftError || !draftQuery.trim()) return;
+    onUpdate(editingId, { name: draftName, query: draftQuery });
+    setEditingId(null);
+  };
+
+  const handleSaveCurrent = async () => {
+    const savedSearch = await onSave(currentQuery, currentQuery);
+    startEdit(savedSearch);
+  };
+
+  const handleDelete = (savedSearch: SavedSearch) => {
+    if (window.confirm(`Delete saved search "${savedSearch.name}"? Notes are not affected.`)) {
+      onDelete(savedSearch.id);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    setDropIndex(null);
+    const savedSearchId = e.dataTransfer.getData(SAVED_SEARCH_DRAG_TYPE);
+    if (savedSearchId) {
+      onMove(savedSearchId, index);
+    }
+  };
+
+  const actionClasses = 'px-1 text-xs text-gray-400 hover:text-gray-700 dark:hover:text-gray-200';
+  const inputClasses = 'w-full px-1.5 py-0.5 text-sm bg-white border border-gray-300 rounded dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-1 focus:ring-primary-500';
+
+  return (
+    <div className="px-2 py-2 border-b border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between px-2 mb-1">
+        <span className="text-xs font-semibold tracking-wide text-gray-500 uppercase dark:text-gray-400">Saved Searches</span>
+        {canSaveCurrent && (
+          <button
+            onClick={handleSaveCurrent}
+            className="px-1 text-xs text-primary-600 hover:text-primary-700 dark:text-primary-400"
+            title="Save the current search as a smart folder"
+          >
+            Save search
+          </button>
+        )}
+      </div>
+      <ul className="max-h-40 overflow-y-auto">
+        {savedSearches.map((savedSearch, index) => {
+          const count = counts[savedSearch.id];
+          const isActive = currentQuery.trim() === savedSearch.query;
+
+          if (editingId === savedSearch.id) {
+            return (
+              <li key={savedSearch.id} className="p-2 space-y-1 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEdit();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  placeholder="Name"
+                  aria-label="Saved search name"
+                  className={inputClasses}
+                />
+                <input
+                  value={draftQuery}
+                  onChange={(e) => setDraftQuery(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEdit();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  placeholder="Query"
+                  aria-label="Saved search query"
+                  aria-invalid={!!draftError}
+                  className={`${inputClasses} font-mono`}
+                />
+                {draftError && <p className="text-xs text-red-600 dark:text-red-400">{draftError.message}</p>}
+                <div className="flex justify-end gap-1">
+                  <button onClick={() => setEditingId(null)} className="px-2 py-0.5 text-xs text-gray-600 dark:text-gray-300">
+                    Cancel
+                  </button>
+                  <button
+                    onClick={commitEdit}
+                    disabled={!!draftError || !draftQuery.trim()}
+                    className="px-2 py-0.5 text-xs font-medium text-white rounded bg-primary-600 hover:bg-primary-700 disabled:opacity-40"
+                  >
+                    Save
+                  </button>
+                </div>
+              </li>
+            );
+          }
+
+          return (
+            <li
+              key={savedSearch.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData(SAVED_SEARCH_DRAG_TYPE, savedSearch.id);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={(e) => {
+                if (Array.from(e.dataTransfer.types).includes(SAVED_SEARCH_DRAG_TYPE)) {
+                  e.preventDefault();
+                  setDropIndex(index);
+                }
+              }}
+              onDragLeave={() => setDropIndex(null)}
+              onDrop={(e) => handleDrop(e, index)}
+              onClick={() => onSelect(savedSearch.query)}
+              title={savedSearch.query}
+              className={`group flex items-center justify-between px-2 py-1 text-sm rounded-lg cursor-pointer transition-colors ${
+                isActive
+                  ? 'bg-primary-100 text-primary-700 dark:bg-primary-900/50 dark:text-primary-300'
+                  : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700/50'
+              } ${dropIndex === index ? 'ring-2 ring-primary-400' : ''}`}
+            >
+              <span className="truncate">🔍 {savedSearch.name}</span>
+              <div className="flex items-center">
+                <span className="hidden group-hover:flex">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); startEdit(savedSearch); }}
+                    className={actionClasses}
+                    title="Edit saved search"
+                    aria-label="Edit saved search"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleDelete(savedSearch); }}
+                    className={`${actionClasses} hover:text-red-600 dark:hover:text-red-500`}
+                    title="Delete saved search"
+                    aria-label="Delete saved search"
+                  >
+                    ×
+                  </button>
+                </span>
+                <span
+                  className={`ml-1 text-xs ${count === null ? 'text-red-500' : 'text-gray-400'}`}
+                  title={count === null ? 'This query has an error' : undefined}
+                >
+                  {count === null ? '!' : count ?? '…'}
+                </span>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default SavedSearchList;
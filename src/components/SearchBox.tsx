@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Notebook } from '../types';
+import { SearchIcon } from './icons/SearchIcon';
+import { getQuerySuggestions, QueryError, QUERY_OPERATORS } from '../utils/searchQuery';
+
+interface SearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+  onClear: () => void;
+  inputRef: React.RefObject<HTMLInputElement>;
+  error: QueryError | null;
+  tags: string[];
+  notebooks: Notebook[];
+  languages: string[];
+}
+
+const SearchBox: React.FC<SearchBoxProps> = ({ value, onChange, onClear, inputRef, error, tags, notebooks, languages }) => {
+  const [cursor, setCursor] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const [showHelp, setShowHelp] = useState(false);
+
+  const suggestions = isFocused ? getQuerySuggestions(value, cursor, { tags, notebooks, languages }) : [];
+
+  const updateCursor = () => {
+    setCursor(inputRef.current?.selectionStart ?? value.length);
+  };
+
+  const applySuggestion = (suggestionValue: string) => {
+    // Replace the word under the cursor
+    const before = value.slice(0, cursor);
+    const wordStart = before.search(/-?[^\s()]*$/);
+    const after = value.slice(cursor).replace(/^[^\s()]*/, '');
+    const completesValue = !suggestionValue.endsWith(':');
+    const inserted = completesValue && !after.startsWith(' ') ? `${suggestionValue} ` : suggestionValue;
+    const nextValue = value.slice(0, wordStart) + inserted + after;
+    const nextCursor = wordStart + inserted.length;
+
+    onChange(nextValue);
+    setCursor(nextCursor);
+    setHighlightedIndex(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlightedIndex(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedIndex(prev => (prev - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Tab' || e.key === 'Enter') {
+      e.preventDefault();
+      applySuggestion(suggestions[Math.min(highlightedIndex, suggestions.length - 1)].value);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <SearchIcon className="absolute w-4 h-4 sm:w-5 sm:h-5 text-gray-400 top-2 sm:top-2.5 left-3 pointer-events-none"/>
+      <input
+        ref={inputRef}
+        type="text"
+        placeholder="Search notes, tag:, in:, lang:... (Ctrl+F)"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCursor(e.target.selectionStart ?? e.target.value.length);
+          setHighlightedIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={updateCursor}
+        onClick={updateCursor}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        aria-invalid={!!error}
+        className={`w-full pl-9 sm:pl-10 pr-16 py-2 text-sm border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-200 dark:placeholder-gray-400 transition-all ${
+          error ? 'border-red-400 dark:border-red-500' : 'border-gray-300 dark:border-gray-600'
+        }`}
+      />
+      <div className="absolute right-3 top-2 sm:top-2.5 flex items-center space-x-1">
+        <button
+          onClick={() => setShowHelp(prev => !prev)}
+          className="text-xs font-semibold text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+          aria-label="Search syntax help"
+          title="Search syntax"
+        >
+          ?
+        </button>
+        {/* Clear button */}
+        {value && (
+          <button
+            onClick={onClear}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+            aria-label="Clear search"
+            title="Clear search (Esc)"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4 sm:w-5 sm:h-5" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      {/* Operator / value hints */}
+      {suggestions.length > 0 && (
+        <ul className="absolute z-20 w-full mt-1 py-1 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 dark:bg-gray-700 dark:border-gray-600">
+          {suggestions.map((suggestion, index) => (
+            <li key={suggestion.value}>
+              <button
+                // Keep focus in the input so the click doesn't close the list first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  applySuggestion(suggestion.value);
+                }}
+                className={`w-full px-3 py-1.5 text-left text-sm ${
+                  index === highlightedIndex ? 'bg-primary-50 dark:bg-gray-600' : 'hover:bg-gray-50 dark:hover:bg-gray-600'
+                }`}
+              >
+                <span className="font-mono text-primary-700 dark:text-primary-300">{suggestion.label}</span>
+                {suggestion.description && (
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{suggestion.description}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="mt-1 px-2 text-xs text-red-600 dark:text-red-400" role="alert">
+          {error.message}
+        </p>
+      )}
+
+      {showHelp && (
+        <div className="mt-2 p-3 text-xs text-gray-600 bg-gray-50 border border-gray-200 rounded-lg dark:text-gray-300 dark:bg-gray-700 dark:border-gray-600">
+          <ul className="space-y-1">
+            {QUERY_OPERATORS.map(({ operator, description, example }) => (
+              <li key={operator}>
+                <span className="font-mono text-primary-700 dark:text-primary-300">{example}</span> — {description}
+              </li>
+            ))}
+            <li><span className="font-mono text-primary-700 dark:text-primary-300">"exact phrase"</span> — Words in this order</li>
+            <li><span className="font-mono text-primary-700 dark:text-primary-300">a OR b</span>, <span className="font-mono text-primary-700 dark:text-primary-300">-word</span>, <span className="font-mono text-primary-700 dark:text-primary-300">( )</span> — Either, exclude, group</li>
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
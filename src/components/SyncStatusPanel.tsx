@@ -0,0 +1,190 @@
+import React from 'react';
+import { Note, SyncError } from '../types';
+import { SyncQueueItem, DeadLetterItem } from '../utils/indexedDB';
+import { describeSyncItem, getSyncItemNoteId } from '../utils/syncStatus';
+import { formatVersionDate } from '../utils/versionHistory';
+
+interface SyncStatusPanelProps {
+  notes: Note[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  isSyncLeader: boolean;
+  lastSyncedAt: number | null;
+  pending: SyncQueueItem[];
+  inFlightNoteIds: Set<string>;
+  syncErrors: SyncError[];
+  deadLetters: DeadLetterItem[];
+  onSyncNow: () => void;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+  onClose: () => void;
+}
+
+const SectionHeading: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h4 className="mt-6 mb-2 text-xs font-semibold tracking-wide text-gray-500 uppercase first:mt-0 dark:text-gray-400">
+    {children}
+  </h4>
+);
+
+/**
+ * When a queued item that already failed will next be tried
+ */
+const formatNextRetry = (nextRetry: number): string => {
+  const minutes = Math.ceil((nextRetry - Date.now()) / 60000);
+  if (minutes <= 0) return 'retrying soon';
+  return `next retry in ${minutes} min${minutes > 1 ? 's' : ''}`;
+};
+
+const SyncStatusPanel: React.FC<SyncStatusPanelProps> = ({
+  notes,
+  isOnline,
+  isSyncing,
+  isSyncLeader,
+  lastSyncedAt,
+  pending,
+  inFlightNoteIds,
+  syncErrors,
+  deadLetters,
+  onSyncNow,
+  onRetry,
+  onDiscard,
+  onClose
+}) => {
+  const confirmDiscard = (item: DeadLetterItem) => {
+    if (window.confirm(`Discard "${describeSyncItem(item, notes)}"? This change will never reach the cloud.`)) {
+      onDiscard(item.id);
+    }
+  };
+
+  const isInFlight = (item: SyncQueueItem) => {
+    const noteId = getSyncItemNoteId(item);
+    return noteId !== null && inFlightNoteIds.has(noteId);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h3 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white">Sync Status</h3>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              {isSyncing ? 'Syncing...' : isOnline ? 'Online' : 'Offline'}
+              {' · '}
+              {lastSyncedAt ? `Last synced ${formatVersionDate(lastSyncedAt).toLowerCase()}` : 'Not synced yet on this device'}
+            </p>
+            {!isSyncLeader && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">Another open tab is syncing for this one.</p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onSyncNow}
+              disabled={!isOnline || isSyncing || !isSyncLeader}
+              title={
+                !isSyncLeader
+                  ? 'The syncing tab sends changes as soon as they are queued'
+                  : isOnline ? 'Send all pending changes now, skipping any backoff' : 'Sync is unavailable offline'
+              }
+              className="px-3 py-1.5 text-xs sm:text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Sync now
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              aria-label="Close"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 sm:w-6 sm:h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 sm:p-6">
+          <SectionHeading>Pending ({pending.length})</SectionHeading>
+          {pending.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">All local changes have reached the cloud.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+              {pending.map(item => (
+                <li key={item.id} className="py-2">
+                  <p className="text-sm text-gray-900 dark:text-white">{describeSyncItem(item, notes)}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Queued {formatVersionDate(item.timestamp).toLowerCase()}
+                    {isInFlight(item) && ' · sending…'}
+                    {!isInFlight(item) && item.attempts !== undefined && item.nextRetry !== undefined && (
+                      <> · failed {item.attempts} {item.attempts === 1 ? 'time' : 'times'}, {formatNextRetry(item.nextRetry)}</>
+                    )}
+                  </p>
+                  {item.lastError && (
+                    <p className="text-xs text-red-600 dark:text-red-400 break-words">{item.lastError}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <SectionHeading>Failed changes ({deadLetters.length})</SectionHeading>
+          {deadLetters.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Nothing failed. Changes that keep failing to sync show up here.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {deadLetters.map(item => (
+                <li key={item.id} className="p-3 border border-red-200 rounded-lg dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">{describeSyncItem(item, notes)}</p>
+                  <p className="mt-1 text-xs text-red-700 dark:text-red-300 break-words">
+                    {item.lastError || 'Unknown error'}
+                  </p>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Gave up {formatVersionDate(item.failedAt).toLowerCase()} after {item.attempts} attempts
+                  </p>
+                  <div className="flex justify-end gap-2 mt-2">
+                    <button
+                      onClick={() => confirmDiscard(item)}
+                      className="px-3 py-1 text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                    >
+                      Discard
+                    </button>
+                    <button
+                      onClick={() => onRetry(item.id)}
+                      className="px-3 py-1 text-xs font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors"
+                    >
+                      Retry
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <SectionHeading>Recent errors ({syncErrors.length})</SectionHeading>
+          {syncErrors.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No sync errors this session.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+              {syncErrors.map(syncError => (
+                <li key={syncError.id} className="py-2">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <p className="text-sm text-gray-900 dark:text-white">{syncError.description}</p>
+                    <span className="text-xs text-gray-500 whitespace-nowrap dark:text-gray-400">
+                      {formatVersionDate(syncError.timestamp)}
+                    </span>
+                  </div>
+                  <p className="text-xs text-red-600 dark:text-red-400 break-words">{syncError.message}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncStatusPanel;
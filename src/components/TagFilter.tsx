@@ -0,0 +1,79 @@
+import React from 'react';
+import { TagMatchMode } from '../utils/tags';
+
+interface TagFilterProps {
+  tagCounts: Array<{ tag: string; count: number }>;
+  selectedTags: string[];
+  matchMode: TagMatchMode;
+  onToggleTag: (tag: string) => void;
+  onMatchModeChange: (mode: TagMatchMode) => void;
+  onClear: () => void;
+  onManage: () => void;
+}
+
+const TagFilter: React.FC<TagFilterProps> = ({
+  tagCounts,
+  selectedTags,
+  matchMode,
+  onToggleTag,
+  onMatchModeChange,
+  onClear,
+  onManage
+}) => {
+  if (tagCounts.length === 0) return null;
+
+  const modeClasses = (mode: TagMatchMode) =>
+    `px-1.5 py-0.5 text-xs font-medium rounded ${
+      matchMode === mode
+        ? 'bg-primary-600 text-white'
+        : 'text-gray-500 hover:bg-gray-200 dark:text-gray-400 dark:hover:bg-gray-700'
+    }`;
+
+  return (
+    <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="text-xs font-semibold tracking-wide text-gray-500 uppercase dark:text-gray-400">Tags</span>
+        <div className="flex items-center gap-1">
+          {selectedTags.length > 1 && (
+            <>
+              <button onClick={() => onMatchModeChange('and')} className={modeClasses('and')} title="Notes with all selected tags">
+                AND
+              </button>
+              <button onClick={() => onMatchModeChange('or')} className={modeClasses('or')} title="Notes with any selected tag">
+                OR
+              </button>
+            </>
+          )}
+          {selectedTags.length > 0 && (
+            <button onClick={onClear} className="px-1 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200">
+              Clear
+            </button>
+          )}
+          <button onClick={onManage} className="px-1 text-xs text-primary-600 hover:text-primary-700 dark:text-primary-400">
+            Manage
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-1.5 max-h-24 overflow-y-auto">
+        {tagCounts.map(({ tag, count }) => {
+          const isSelected = selectedTags.includes(tag);
+          return (
+            <button
+              key={tag}
+              onClick={() => onToggleTag(tag)}
+              className={`px-2 py-0.5 text-xs font-medium rounded-full transition-colors ${
+                isSelected
+                  ? 'bg-primary-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+              }`}
+            >
+              #{tag} <span className={isSelected ? 'text-primary-100' : 'text-gray-400'}>{count}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TagFilter;
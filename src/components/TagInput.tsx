@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { normalizeTag } from '../utils/tags';
+
+interface TagInputProps {
+  tags: string[];
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+const TagInput: React.FC<TagInputProps> = ({ tags, suggestions, onChange }) => {
+  const [input, setInput] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+
+  const query = normalizeTag(input);
+  const matches = query
+    ? suggestions
+        .filter(tag => tag.startsWith(query) && !tags.includes(tag))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+    setInput('');
+    setHighlighted(0);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter(t => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted(prev => (prev + 1) % matches.length);
+    } else if (e.key === 'ArrowUp' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted(prev => (prev - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Enter' || e.key === ',' || (e.key === 'Tab' && input)) {
+      if (!input.trim()) return;
+      e.preventDefault();
+      addTag(matches[highlighted] ?? input);
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    } else if (e.key === 'Escape') {
+      setInput('');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {tags.map(tag => (
+          <span
+            key={tag}
+            className="flex items-center px-2 py-0.5 text-xs font-medium text-primary-700 bg-primary-100 rounded-full dark:bg-primary-900/50 dark:text-primary-300"
+          >
+            #{tag}
+            <button
+              onClick={() => removeTag(tag)}
+              className="ml-1 text-primary-500 hover:text-primary-800 dark:hover:text-primary-100"
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => input.trim() && addTag(input)}
+          placeholder={tags.length === 0 ? 'Add tags...' : ''}
+          aria-label="Add tag"
+          className="flex-1 min-w-[6rem] py-0.5 text-xs sm:text-sm bg-transparent focus:outline-none text-gray-700 dark:text-gray-300 placeholder-gray-400"
+        />
+      </div>
+      {matches.length > 0 && (
+        <ul className="absolute z-20 mt-1 w-48 py-1 bg-white border border-gray-200 rounded-lg shadow-lg dark:bg-gray-800 dark:border-gray-700">
+          {matches.map((tag, index) => (
+            <li key={tag}>
+              <button
+                // Keep focus in the input so onBlur doesn't add the partial text first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(tag);
+                }}
+                className={`w-full px-3 py-1 text-left text-sm ${
+                  index === highlighted
+                    ? 'bg-primary-100 text-primary-700 dark:bg-primary-900/50 dark:text-primary-300'
+                    : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+                }`}
+              >
+                #{tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
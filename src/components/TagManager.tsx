@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { normalizeTag } from '../utils/tags';
+
+interface TagManagerProps {
+  tagCounts: Array<{ tag: string; count: number }>;
+  onRename: (fromTag: string, toTag: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const TagManager: React.FC<TagManagerProps> = ({ tagCounts, onRename, onClose }) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [busyTag, setBusyTag] = useState<string | null>(null);
+  const existingTags = new Set(tagCounts.map(({ tag }) => tag));
+
+  const handleRename = async (tag: string) => {
+    const target = normalizeTag(drafts[tag] ?? tag);
+    if (!target || target === tag) return;
+
+    if (existingTags.has(target) &&
+        !window.confirm(`Merge #${tag} into #${target}? Every note tagged #${tag} will be tagged #${target} instead.`)) {
+      return;
+    }
+
+    setBusyTag(tag);
+    try {
+      await onRename(tag, target);
+      setDrafts(prev => {
+        const { [tag]: _, ...rest } = prev;
+        return rest;
+      });
+    } catch (error) {
+      console.error('Failed to rename tag:', error);
+      alert('Failed to rename tag. Please try again.');
+    } finally {
+      setBusyTag(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h3 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white">
+              Manage Tags
+            </h3>
+            <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Rename a tag across every note, or rename it to an existing tag to merge them.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            aria-label="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 sm:w-6 sm:h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Tag List */}
+        <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-2">
+          {tagCounts.map(({ tag, count }) => {
+            const draft = drafts[tag] ?? tag;
+            const target = normalizeTag(draft);
+            const isChanged = target !== '' && target !== tag;
+            const isMerge = isChanged && existingTags.has(target);
+
+            return (
+              <div key={tag} className="flex items-center gap-2">
+                <span className="text-gray-400">#</span>
+                <input
+                  type="text"
+                  value={draft}
+                  onChange={(e) => setDrafts(prev => ({ ...prev, [tag]: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && handleRename(tag)}
+                  aria-label={`Rename tag ${tag}`}
+                  className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <span className="w-16 text-xs text-right text-gray-500 dark:text-gray-400">
+                  {count} note{count !== 1 ? 's' : ''}
+                </span>
+                <button
+                  onClick={() => handleRename(tag)}
+                  disabled={!isChanged || busyTag !== null}
+                  className="w-20 px-3 py-1 text-xs font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  {busyTag === tag ? 'Saving...' : isMerge ? 'Merge' : 'Rename'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagManager;
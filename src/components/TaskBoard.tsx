@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Note } from '../types';
+import { collectOpenTasks, matchesDueFilter, DueFilter, TaskItem } from '../utils/tasks';
+
+interface TaskBoardProps {
+  notes: Note[];
+  onToggleTask: (noteId: string, line: number, checked: boolean) => Promise<void>;
+  onOpenNote: (note: Note) => void;
+  onBack?: () => void;
+}
+
+const DUE_FILTERS: Array<{ value: DueFilter; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'Next 7 days' },
+  { value: 'dated', label: 'Has due date' },
+  { value: 'undated', label: 'No due date' }
+];
+
+const TaskBoard: React.FC<TaskBoardProps> = ({ notes, onToggleTask, onOpenNote, onBack }) => {
+  const [dueFilter, setDueFilter] = useState<DueFilter>('all');
+  const [pendingTasks, setPendingTasks] = useState<Set<string>>(new Set());
+  const now = Date.now();
+
+  const groups = collectOpenTasks(notes)
+    .map(({ note, tasks }) => ({ note, tasks: tasks.filter(task => matchesDueFilter(task, dueFilter, now)) }))
+    .filter(({ tasks }) => tasks.length > 0)
+    .sort((a, b) => (b.note.updatedAt || b.note.createdAt) - (a.note.updatedAt || a.note.createdAt));
+  const taskCount = groups.reduce((sum, { tasks }) => sum + tasks.length, 0);
+
+  const handleToggle = async (note: Note, task: TaskItem) => {
+    const key = `${note.id}:${task.line}`;
+    setPendingTasks(prev => new Set(prev).add(key));
+    try {
+      await onToggleTask(note.id, task.line, true);
+    } catch (error) {
+      console.error('Failed to complete task:', error);
+      alert('Failed to update the task. Please try again.');
+    } finally {
+      setPendingTasks(prev => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+    }
+  };
+
+  const isOverdue = (task: TaskItem) => matchesDueFilter(task, 'overdue', now);
+
+  return (
+    <div className="flex flex-col h-full bg-white dark:bg-gray-800">
+      <div className="flex items-center justify-between p-3 sm:p-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center space-x-2">
+          {onBack && (
+            <button
+              onClick={onBack}
+              className="md:hidden p-2 text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+              aria-label="Back to notes"
+            >
+              ←
+            </button>
+          )}
+          <h2 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white">Tasks</h2>
+          <span className="text-sm text-gray-500 dark:text-gray-400">{taskCount} open</span>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5 px-3 sm:px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+        {DUE_FILTERS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setDueFilter(value)}
+            className={`px-2.5 py-1 text-xs font-medium rounded-full transition-colors ${
+              dueFilter === value
+                ? 'bg-primary-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 sm:p-4 space-y-4">
+        {groups.length === 0 ? (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+            {dueFilter === 'all' ? 'No open tasks. Add one to a note with "- [ ] ..."' : 'No open tasks match this filter.'}
+          </p>
+        ) : (
+          groups.map(({ note, tasks }) => (
+            <section key={note.id}>
+              <button
+                onClick={() => onOpenNote(note)}
+                className="mb-1 text-sm font-semibold text-gray-800 hover:text-primary-600 dark:text-gray-200 dark:hover:text-primary-400"
+              >
+                {note.title || 'Untitled Note'}
+              </button>
+              <ul className="space-y-1">
+                {tasks.map(task => {
+                  const isPending = pendingTasks.has(`${note.id}:${task.line}`);
+                  return (
+                    <li key={task.line} className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={isPending}
+                        disabled={isPending}
+                        onChange={() => handleToggle(note, task)}
+                        aria-label={`Complete "${task.text}"`}
+                        className="mt-0.5 cursor-pointer"
+                      />
+                      <span className={`flex-1 ${isPending ? 'line-through text-gray-400' : ''}`}>{task.text || '(empty task)'}</span>
+                      {task.due && (
+                        <span
+                          className={`px-1.5 py-0.5 text-xs rounded ${
+                            isOverdue(task)
+                              ? 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'
+                              : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+                          }`}
+                        >
+                          {task.due}
+                        </span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TaskBoard;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Note, Notebook } from '../types';
+import { TRASH_PURGE_DAYS } from '../config/trash';
+import { getDaysUntilPurge } from '../utils/trash';
+import { formatVersionDate } from '../utils/versionHistory';
+
+interface TrashViewProps {
+  notes: Note[];
+  notebooks: Notebook[];
+  onRestore: (note: Note) => void;
+  onDeleteForever: (noteId: string) => void;
+  onEmptyTrash: () => void;
+  onBack?: () => void;
+}
+
+const TrashView: React.FC<TrashViewProps> = ({ notes, notebooks, onRestore, onDeleteForever, onEmptyTrash, onBack }) => {
+  const sortedNotes = [...notes].sort((a, b) => (b.trashedAt || 0) - (a.trashedAt || 0));
+
+  const notebookName = (note: Note) => {
+    if (!note.notebookId) return 'All Notes';
+    return notebooks.find(nb => nb.id === note.notebookId)?.name ?? 'All Notes (notebook was deleted)';
+  };
+
+  const confirmEmptyTrash = () => {
+    if (window.confirm(`Delete ${notes.length} ${notes.length === 1 ? 'note' : 'notes'} and their history for good? This can't be undone.`)) {
+      onEmptyTrash();
+    }
+  };
+
+  const confirmDeleteForever = (note: Note) => {
+    if (window.confirm(`Delete "${note.title || 'Untitled Note'}" and its history for good? This can't be undone.`)) {
+      onDeleteForever(note.id);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white dark:bg-gray-800">
+      <div className="flex items-center justify-between p-3 sm:p-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center space-x-2">
+          {onBack && (
+            <button
+              onClick={onBack}
+              className="md:hidden p-2 text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+              aria-label="Back to notes"
+            >
+              ←
+            </button>
+          )}
+          <h2 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white">Trash</h2>
+          <span className="text-sm text-gray-500 dark:text-gray-400">{notes.length}</span>
+        </div>
+        <button
+          onClick={confirmEmptyTrash}
+          disabled={notes.length === 0}
+          className="px-3 py-1.5 text-xs sm:text-sm font-medium text-red-600 rounded-lg hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Empty trash
+        </button>
+      </div>
+
+      <p className="px-3 sm:px-4 py-2 text-xs text-gray-500 border-b border-gray-200 dark:text-gray-400 dark:border-gray-700">
+        Notes in the trash are deleted for good after {TRASH_PURGE_DAYS} days. Restoring a note puts it back in its notebook with its history.
+      </p>
+
+      <div className="flex-1 overflow-y-auto p-3 sm:p-4">
+        {sortedNotes.length === 0 ? (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400">The trash is empty.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {sortedNotes.map(note => {
+              const daysLeft = getDaysUntilPurge(note);
+              return (
+                <li key={note.id} className="flex items-center justify-between gap-3 py-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-gray-800 truncate dark:text-gray-100">
+                      {note.title || 'Untitled Note'}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      From {notebookName(note)} · trashed {formatVersionDate(note.trashedAt!).toLowerCase()} ·{' '}
+                      {daysLeft === 0 ? 'deleted soon' : `deleted in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <button
+                      onClick={() => onRestore(note)}
+                      className="px-3 py-1 text-xs font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => confirmDeleteForever(note)}
+                      className="px-3 py-1 text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                    >
+                      Delete forever
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashView;
@@ -0,0 +1,277 @@
+import React, { useMemo, useState } from 'react';
+import { Prism as SyntaxHighlighter, createElement, createElementProps } from 'react-syntax-highlighter';
+import { vscDarkPlus, vs } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { WordSegment } from '../utils/diff';
+import { buildLineDiff, toSideBySide, DiffLine, SideBySideRow } from '../utils/versionDiff';
+
+export type DiffViewMode = 'unified' | 'split';
+
+interface VersionDiffProps {
+  oldText: string;
+  newText: string;
+  mode: DiffViewMode;
+  isDarkMode?: boolean;
+  // Makes each hunk selectable, e.g. for a partial restore
+  selectedHunks?: Set<number>;
+  onToggleHunk?: (hunk: number) => void;
+  hunkLabel?: string;
+}
+
+// Unchanged lines shown around each change; longer unchanged runs are folded
+const CONTEXT_LINES = 3;
+
+const LINE_CLASSES: Record<DiffLine['type'], string> = {
+  equal: '',
+  delete: 'bg-red-50 dark:bg-red-900/20',
+  insert: 'bg-green-50 dark:bg-green-900/20'
+};
+
+const WORD_CLASSES: Record<DiffLine['type'], string> = {
+  equal: '',
+  delete: 'bg-red-200 dark:bg-red-800/60 rounded-sm',
+  insert: 'bg-green-200 dark:bg-green-800/60 rounded-sm'
+};
+
+const MARKERS: Record<DiffLine['type'], string> = { equal: ' ', delete: '−', insert: '+' };
+
+// A node of highlighted code, as the syntax highlighter's renderer receives and renders it
+type HighlightNode = createElementProps['node'];
+
+/**
+ * Wrap the changed character ranges of syntax-highlighted nodes in highlight marks
+ */
+const markChangedRanges = (nodes: HighlightNode[], segments: WordSegment[], className: string): HighlightNode[] => {
+  const ranges: [number, number][] = [];
+  let position = 0;
+  segments.forEach(segment => {
+    if (segment.changed) ranges.push([position, position + segment.text.length]);
+    position += segment.text.length;
+  });
+
+  let offset = 0;
+  const visit = (node: HighlightNode): HighlightNode[] => {
+    if (node.type !== 'text') {
+      return [{ ...node, children: (node.children || []).flatMap(visit) }];
+    }
+
+    const text = String(node.value ?? '');
+    const start = offset;
+    offset += text.length;
+
+    const parts: HighlightNode[] = [];
+    let cursor = 0;
+    ranges.forEach(([from, to]) => {
+      const partStart = Math.max(from - start, cursor);
+      const partEnd = Math.min(to - start, text.length);
+      if (partStart >= partEnd) return;
+      if (partStart > cursor) parts.push({ type: 'text', value: text.slice(cursor, partStart) });
+      parts.push({
+        type: 'element',
+        tagName: 'mark',
+        properties: { className: [className] },
+        children: [{ type: 'text', value: text.slice(partStart, partEnd) }]
+      });
+      cursor = partEnd;
+    });
+    if (cursor < text.length) parts.push({ type: 'text', value: text.slice(cursor) });
+    return parts;
+  };
+
+  return nodes.flatMap(visit);
+};
+
+const LineContent: React.FC<{ line: DiffLine; isDarkMode: boolean }> = ({ line, isDarkMode }) => {
+  const wordClass = `${WORD_CLASSES[line.type]} text-current`;
+
+  if (line.language) {
+    return (
+      <SyntaxHighlighter
+        language={line.language}
+        style={isDarkMode ? vscDarkPlus : vs}
+        PreTag="span"
+        CodeTag="span"
+        customStyle={{ margin: 0, padding: 0, background: 'transparent', border: 'none', fontSize: 'inherit' }}
+        codeTagProps={{ style: { background: 'transparent', fontSize: 'inherit' } }}
+        renderer={line.segments ? ({ rows, stylesheet, useInlineStyles }) => (
+          markChangedRanges(rows, line.segments!, wordClass).map((node, i) =>
+            createElement({ node, stylesheet, useInlineStyles, key: `diff-${i}` })
+          )
+        ) : undefined}
+      >
+        {line.text}
+      </SyntaxHighlighter>
+    );
+  }
+
+  if (!line.segments) {
+    return <>{line.text}</>;
+  }
+
+  return (
+    <>
+      {line.segments.map((segment, i) =>
+        segment.changed
+          ? <mark key={i} className={wordClass}>{segment.text}</mark>
+          : <React.Fragment key={i}>{segment.text}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+/**
+ * Indexes of the items to show: changes plus their context, with folded runs as [start, end) gaps
+ */
+const foldUnchanged = <T,>(
+  items: T[],
+  isUnchanged: (item: T) => boolean,
+  expanded: Set<number>
+): ({ index: number } | { foldStart: number; foldEnd: number })[] => {
+  const entries: ({ index: number } | { foldStart: number; foldEnd: number })[] = [];
+  let i = 0;
+
+  while (i < items.length) {
+    if (!isUnchanged(items[i])) {
+      entries.push({ index: i++ });
+      continue;
+    }
+
+    let end = i;
+    while (end < items.length && isUnchanged(items[end])) end++;
+
+    const keepBefore = i === 0 ? 0 : CONTEXT_LINES;
+    const keepAfter = end === items.length ? 0 : CONTEXT_LINES;
+    const foldStart = i + keepBefore;
+    const foldEnd = end - keepAfter;
+
+    if (foldEnd - foldStart > 1 && !expanded.has(foldStart)) {
+      for (let j = i; j < foldStart; j++) entries.push({ index: j });
+      entries.push({ foldStart, foldEnd });
+      for (let j = foldEnd; j < end; j++) entries.push({ index: j });
+    } else {
+      for (let j = i; j < end; j++) entries.push({ index: j });
+    }
+    i = end;
+  }
+
+  return entries;
+};
+
+const VersionDiff: React.FC<VersionDiffProps> = ({
+  oldText,
+  newText,
+  mode,
+  isDarkMode = false,
+  selectedHunks,
+  onToggleHunk,
+  hunkLabel = 'Select this change'
+}) => {
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const lines = useMemo(() => buildLineDiff(oldText, newText), [oldText, newText]);
+  const rows = useMemo(() => toSideBySide(lines), [lines]);
+
+  if (!lines.some(line => line.type !== 'equal')) {
+    return (
+      <p className="py-8 text-sm text-center text-gray-500 dark:text-gray-400">
+        The content is identical.
+      </p>
+    );
+  }
+
+  const expand = (foldStart: number) => setExpanded(prev => new Set(prev).add(foldStart));
+
+  const renderFold = (foldStart: number, foldEnd: number, colSpan: number) => (
+    <tr key={`fold-${foldStart}`}>
+      <td colSpan={colSpan} className="px-2 py-1 text-center bg-gray-50 dark:bg-gray-800/60">
+        <button
+          onClick={() => expand(foldStart)}
+          className="text-xs text-primary-600 hover:underline dark:text-primary-400"
+        >
+          ⋯ Show {foldEnd - foldStart} unchanged lines
+        </button>
+      </td>
+    </tr>
+  );
+
+  // A checkbox row above the first line of each hunk when hunks are selectable
+  const renderHunkToggle = (hunk: number | null, previousHunk: number | null | undefined, colSpan: number) => {
+    if (!onToggleHunk || hunk === null || hunk === previousHunk) return null;
+    return (
+      <tr key={`hunk-${hunk}`} className="border-t border-gray-200 dark:border-gray-700">
+        <td colSpan={colSpan} className="px-2 py-1 font-sans bg-gray-50 dark:bg-gray-800/60">
+          <label className="inline-flex items-center gap-2 text-xs text-gray-700 cursor-pointer dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={selectedHunks?.has(hunk) ?? false}
+              onChange={() => onToggleHunk(hunk)}
+              className="rounded text-primary-600 focus:ring-primary-500"
+            />
+            {hunkLabel}
+          </label>
+        </td>
+      </tr>
+    );
+  };
+
+  const numberCell = (lineNumber: number | null) => (
+    <td className="w-10 px-2 text-right text-gray-400 align-top select-none dark:text-gray-500">
+      {lineNumber ?? ''}
+    </td>
+  );
+
+  const contentCell = (line: DiffLine | null) => (
+    <td className={`px-2 align-top whitespace-pre-wrap break-words ${line ? LINE_CLASSES[line.type] : 'bg-gray-50 dark:bg-gray-800/60'}`}>
+      {line && (
+        <>
+          <span className="mr-2 text-gray-400 select-none dark:text-gray-500">{MARKERS[line.type]}</span>
+          <LineContent line={line} isDarkMode={isDarkMode} />
+        </>
+      )}
+    </td>
+  );
+
+  return (
+    <div className="overflow-x-auto border border-gray-200 rounded-lg dark:border-gray-700">
+      <table className="w-full font-mono text-xs text-gray-800 border-collapse sm:text-sm dark:text-gray-200">
+        <tbody>
+          {mode === 'unified'
+            ? foldUnchanged(lines, line => line.type === 'equal', expanded).map(entry => {
+                if ('foldStart' in entry) return renderFold(entry.foldStart, entry.foldEnd, 3);
+                const line = lines[entry.index];
+                return (
+                  <React.Fragment key={entry.index}>
+                    {renderHunkToggle(line.hunk, lines[entry.index - 1]?.hunk, 3)}
+                    <tr className={LINE_CLASSES[line.type]}>
+                      {numberCell(line.oldNumber)}
+                      {numberCell(line.newNumber)}
+                      {contentCell(line)}
+                    </tr>
+                  </React.Fragment>
+                );
+              })
+            : foldUnchanged(rows, (row: SideBySideRow) => row.left?.type === 'equal', expanded).map(entry => {
+                if ('foldStart' in entry) return renderFold(entry.foldStart, entry.foldEnd, 4);
+                const row = rows[entry.index];
+                const previous = rows[entry.index - 1];
+                return (
+                  <React.Fragment key={entry.index}>
+                    {renderHunkToggle(
+                      row.left?.hunk ?? row.right?.hunk ?? null,
+                      previous && (previous.left?.hunk ?? previous.right?.hunk ?? null),
+                      4
+                    )}
+                    <tr>
+                      {numberCell(row.left?.oldNumber ?? null)}
+                      {contentCell(row.left)}
+                      {numberCell(row.right?.newNumber ?? null)}
+                      {contentCell(row.right)}
+                    </tr>
+                  </React.Fragment>
+                );
+              })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default VersionDiff;
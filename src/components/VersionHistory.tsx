@@ -1,18 +1,107 @@
 import React, { useState } from 'react';
-import { Note, NoteVersion } from '../types';
-import { getVersionHistory, formatVersionDate, restoreVersion } from '../utils/versionHistory';
+import { Note, NoteVersion, RestoredHunk } from '../types';
+import {
+  formatVersionDate,
+  restoreVersion,
+  restoreHunks,
+  toRestoredHunks,
+  getChangeSummary,
+  getCheckpoints
+} from '../utils/versionHistory';
+import { shareCheckpoint, unshareCheckpoint, getShareableUrl } from '../utils/shareNote';
+import { getDiffHunks } from '../utils/versionDiff';
+import { useAuth } from '../hooks/useAuth';
+import { useNoteVersions } from '../hooks/useNoteVersions';
+import VersionDiff, { DiffViewMode } from './VersionDiff';
 
 interface VersionHistoryProps {
   note: Note;
-  onRestore: (note: Note) => void;
+  // Unsaved editor state, offered as a side of a comparison
+  draft?: Pick<Note, 'title' | 'content' | 'tags'>;
+  onRestore: (note: Note, restoredHunks: RestoredHunk[]) => void;
   onClose: () => void;
   isDarkMode?: boolean;
 }
 
-const VersionHistory: React.FC<VersionHistoryProps> = ({ note, onRestore, onClose, isDarkMode = false }) => {
+const DRAFT_ID = 'draft';
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ note, draft, onRestore, onClose, isDarkMode = false }) => {
   const [selectedVersion, setSelectedVersion] = useState<NoteVersion | null>(null);
   const [showConfirm, setShowConfirm] = useState(false);
-  const versions = getVersionHistory(note);
+  const [comparison, setComparison] = useState<{ fromId: string; toId: string } | null>(null);
+  const [viewMode, setViewMode] = useState<DiffViewMode>('unified');
+  const [partialRestore, setPartialRestore] = useState<{ version: NoteVersion; selected: Set<number> } | null>(null);
+  const { user } = useAuth();
+  const { versions, loading, updateVersion } = useNoteVersions(user?.uid || null, note.id);
+  const [sharingId, setSharingId] = useState<string | null>(null);
+  const checkpoints = getCheckpoints(versions);
+
+  const draftVersion: NoteVersion = {
+    id: DRAFT_ID,
+    noteId: note.id,
+    title: draft?.title ?? note.title,
+    content: draft?.content ?? note.content,
+    tags: draft?.tags ?? note.tags,
+    timestamp: Date.now()
+  };
+  const currentNote: Note = {
+    ...note,
+    title: draftVersion.title,
+    content: draftVersion.content,
+    tags: draftVersion.tags
+  };
+  const findVersion = (id: string) => id === DRAFT_ID ? draftVersion : versions.find(v => v.id === id);
+  const compareFrom = comparison && findVersion(comparison.fromId);
+  const compareTo = comparison && findVersion(comparison.toId);
+
+  const versionLabel = (version: NoteVersion) =>
+    version.id === DRAFT_ID
+      ? 'Current draft'
+      : `${formatVersionDate(version.timestamp)} · ${new Date(version.timestamp).toLocaleString()}`;
+
+  const startComparison = (fromId: string, toId: string = DRAFT_ID) => {
+    setPartialRestore(null);
+    setComparison({ fromId, toId });
+  };
+
+  const startPartialRestore = (version: NoteVersion) => {
+    setComparison(null);
+    setPartialRestore({ version, selected: new Set() });
+  };
+
+  const toggleHunk = (hunk: number) => {
+    setPartialRestore(prev => {
+      if (!prev) return prev;
+      const selected = new Set(prev.selected);
+      if (selected.has(hunk)) {
+        selected.delete(hunk);
+      } else {
+        selected.add(hunk);
+      }
+      return { ...prev, selected };
+    });
+  };
+
+  const confirmPartialRestore = () => {
+    if (!partialRestore || partialRestore.selected.size === 0) return;
+
+    const hunks = getDiffHunks(currentNote.content, partialRestore.version.content)
+      .filter(hunk => partialRestore.selected.has(hunk.index));
+    const restored = restoreHunks(currentNote, partialRestore.version, hunks);
+    onRestore(restored.note, restored.restoredHunks);
+    onClose();
+  };
+
+  // e.g. "2 changes from 3 days ago"
+  const describeRestoredHunks = (restoredHunks: RestoredHunk[]) => {
+    const byVersion = new Map<string, RestoredHunk[]>();
+    restoredHunks.forEach(hunk => {
+      byVersion.set(hunk.versionId, [...(byVersion.get(hunk.versionId) || []), hunk]);
+    });
+    return Array.from(byVersion.values())
+      .map(hunks => `${hunks.length} change${hunks.length !== 1 ? 's' : ''} from ${formatVersionDate(hunks[0].versionTimestamp)}`)
+      .join(', ');
+  };
 
   const handleRestore = (version: NoteVersion) => {
     setSelectedVersion(version);
@@ -22,8 +111,9 @@ const VersionHistory: React.FC<VersionHistoryProps> = ({ note, onRestore, onClos
   const confirmRestore = () => {
     if (selectedVersion) {
       try {
-        const restoredNote = restoreVersion(note, selectedVersion.id);
-        onRestore(restoredNote);
+        const restoredNote = restoreVersion(currentNote, selectedVersion);
+        const hunks = getDiffHunks(currentNote.content, selectedVersion.content);
+        onRestore(restoredNote, toRestoredHunks(selectedVersion, hunks));
         setShowConfirm(false);
         onClose();
       } catch (error) {
@@ -33,8 +123,37 @@ const VersionHistory: React.FC<VersionHistoryProps> = ({ note, onRestore, onClos
     }
   };
 
+  const handleShareCheckpoint = async (version: NoteVersion) => {
+    if (!user) return;
+    try {
+      setSharingId(version.id);
+      const shareId = await shareCheckpoint(user.uid, note, version);
+      await updateVersion({ ...version, shareId });
+    } catch (error) {
+      console.error('Failed to share checkpoint:', error);
+      alert('Failed to share checkpoint. Please try again.');
+    } finally {
+      setSharingId(null);
+    }
+  };
+
+  const handleUnshareCheckpoint = async (version: NoteVersion) => {
+    try {
+      setSharingId(version.id);
+      await unshareCheckpoint(version);
+      await updateVersion({ ...version, shareId: undefined });
+    } catch (error) {
+      console.error('Failed to unshare checkpoint:', error);
+      alert('Failed to stop sharing checkpoint. Please try again.');
+    } finally {
+      setSharingId(null);
+    }
+  };
+
   const getChangeIcon = (changeType?: string) => {
     switch (changeType) {
+      case 'checkpoint':
+        return '📌';
       case 'created':
         return '✨';
       case 'restored':
@@ -47,7 +166,7 @@ const VersionHistory: React.FC<VersionHistoryProps> = ({ note, onRestore, onClos
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4" onClick={onClose}>
       <div 
-        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col"
+        className={`bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full ${comparison || partialRestore ? 'max-w-5xl' : 'max-w-2xl'} max-h-[80vh] flex flex-col`}
         onClick={(e) => e.stopPropagation()}
       >
         {/* Header */}
@@ -57,29 +176,216 @@ const VersionHistory: React.FC<VersionHistoryProps> = ({ note, onRestore, onClos
               Version History
             </h3>
             <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 mt-1">
-              {versions.length} version{versions.length !== 1 ? 's' : ''} saved
+              {loading ? 'Loading…' : `${versions.length} version${versions.length !== 1 ? 's' : ''} saved`}
             </p>
           </div>
-          <button
-            onClick={onClose}
-            className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-            aria-label="Close"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 sm:w-6 sm:h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
+          <div className="flex items-center gap-2">
+            {versions.length > 0 && (
+              <button
+                onClick={() => {
+                  if (comparison || partialRestore) {
+                    setComparison(null);
+                    setPartialRestore(null);
+                  } else {
+                    startComparison((versions[1] || versions[0]).id);
+                  }
+                }}
+                className="px-3 py-1.5 text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                {comparison || partialRestore ? 'Back to list' : 'Compare'}
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              aria-label="Close"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 sm:w-6 sm:h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
         </div>
 
         {/* Version List */}
         <div className="flex-1 overflow-y-auto p-4 sm:p-6">
-          {versions.length === 0 ? (
+          {partialRestore ? (
+            <div className="space-y-3">
+              <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-300">
+                Tick the changes to bring back from the version of{' '}
+                <strong>{versionLabel(partialRestore.version)}</strong>. Red lines are in your note now;
+                green lines come from that version. Everything else stays as it is.
+              </p>
+              <VersionDiff
+                oldText={currentNote.content}
+                newText={partialRestore.version.content}
+                mode={viewMode}
+                isDarkMode={isDarkMode}
+                selectedHunks={partialRestore.selected}
+                onToggleHunk={toggleHunk}
+                hunkLabel="Restore this change"
+              />
+              <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+                <button
+                  onClick={() => setPartialRestore(null)}
+                  className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={confirmPartialRestore}
+                  disabled={partialRestore.selected.size === 0}
+                  className="flex-1 px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Restore {partialRestore.selected.size} selected change{partialRestore.selected.size !== 1 ? 's' : ''}
+                </button>
+              </div>
+            </div>
+          ) : comparison ? (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                {(['fromId', 'toId'] as const).map((side, i) => (
+                  <React.Fragment key={side}>
+                    {i === 1 && (
+                      <button
+                        onClick={() => setComparison({ fromId: comparison.toId, toId: comparison.fromId })}
+                        className="px-2 py-1 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                        title="Swap"
+                        aria-label="Swap compared versions"
+                      >
+                        ⇄
+                      </button>
+                    )}
+                    <select
+                      value={comparison[side]}
+                      onChange={(e) => setComparison({ ...comparison, [side]: e.target.value })}
+                      aria-label={side === 'fromId' ? 'Compare from' : 'Compare to'}
+                      className="flex-1 min-w-0 px-2 py-1.5 text-xs sm:text-sm border border-gray-300 rounded-lg dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    >
+                      <option value={DRAFT_ID}>{versionLabel(draftVersion)}</option>
+                      {versions.map(version => (
+                        <option key={version.id} value={version.id}>{versionLabel(version)}</option>
+                      ))}
+                    </select>
+                  </React.Fragment>
+                ))}
+                <div className="flex overflow-hidden text-xs border border-gray-300 rounded-lg sm:text-sm dark:border-gray-600">
+                  {(['unified', 'split'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setViewMode(mode)}
+                      className={`px-3 py-1.5 transition-colors ${
+                        viewMode === mode
+                          ? 'bg-primary-600 text-white'
+                          : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      {mode === 'unified' ? 'Unified' : 'Side by side'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {compareFrom && compareTo && (
+                <>
+                  <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">
+                    {getChangeSummary(compareFrom, compareTo)}
+                  </p>
+                  {compareFrom.title !== compareTo.title && (
+                    <p className="text-sm text-gray-700 dark:text-gray-300">
+                      Title: <del className="bg-red-100 dark:bg-red-900/40">{compareFrom.title || 'Untitled Note'}</del>
+                      {' → '}
+                      <ins className="no-underline bg-green-100 dark:bg-green-900/40">{compareTo.title || 'Untitled Note'}</ins>
+                    </p>
+                  )}
+                  <VersionDiff
+                    key={`${compareFrom.id}:${compareTo.id}:${viewMode}`}
+                    oldText={compareFrom.content}
+                    newText={compareTo.content}
+                    mode={viewMode}
+                    isDarkMode={isDarkMode}
+                  />
+                </>
+              )}
+            </div>
+          ) : loading && versions.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              <p>Loading version history…</p>
+            </div>
+          ) : versions.length === 0 ? (
             <div className="text-center py-8 text-gray-500 dark:text-gray-400">
               <p>No version history yet.</p>
               <p className="text-xs sm:text-sm mt-2">Versions are saved automatically when you edit the note.</p>
             </div>
           ) : (
             <div className="space-y-3">
+              {checkpoints.length > 0 && (
+                <div className="p-3 sm:p-4 mb-2 space-y-2 border rounded-lg border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-900/20">
+                  <h4 className="text-xs font-semibold tracking-wide uppercase text-amber-800 dark:text-amber-300">
+                    Checkpoints
+                  </h4>
+                  {checkpoints.map(checkpoint => (
+                    <div key={checkpoint.id} className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-semibold text-sm sm:text-base text-gray-900 dark:text-white truncate">
+                          📌 {checkpoint.label}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {formatVersionDate(checkpoint.timestamp)} · {checkpoint.title || 'Untitled Note'}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => startComparison(checkpoint.id)}
+                          className="px-2 py-1 text-xs font-medium text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-amber-100 dark:hover:bg-amber-900/40 rounded-lg transition-colors"
+                        >
+                          Compare
+                        </button>
+                        <button
+                          onClick={() => handleRestore(checkpoint)}
+                          className="px-2 py-1 text-xs font-medium text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300 hover:bg-amber-100 dark:hover:bg-amber-900/40 rounded-lg transition-colors"
+                        >
+                          Restore
+                        </button>
+                        {checkpoint.shareId ? (
+                          <button
+                            onClick={() => handleUnshareCheckpoint(checkpoint)}
+                            disabled={sharingId === checkpoint.id}
+                            className="px-2 py-1 text-xs font-medium text-red-600 hover:text-red-700 dark:text-red-400 hover:bg-amber-100 dark:hover:bg-amber-900/40 rounded-lg transition-colors disabled:opacity-50"
+                          >
+                            Stop sharing
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => handleShareCheckpoint(checkpoint)}
+                            disabled={sharingId === checkpoint.id}
+                            className="px-2 py-1 text-xs font-medium text-amber-700 hover:text-amber-800 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/40 rounded-lg transition-colors disabled:opacity-50"
+                          >
+                            {sharingId === checkpoint.id ? 'Sharing…' : 'Share snapshot'}
+                          </button>
+                        )}
+                      </div>
+                      {checkpoint.shareId && (
+                        <div className="flex items-center w-full gap-2">
+                          <input
+                            type="text"
+                            value={getShareableUrl(checkpoint.shareId)}
+                            readOnly
+                            title="Frozen share link"
+                            className="flex-1 min-w-0 px-2 py-1 text-xs bg-white border rounded-lg border-amber-200 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                          />
+                          <button
+                            onClick={() => navigator.clipboard.writeText(getShareableUrl(checkpoint.shareId!))}
+                            className="px-2 py-1 text-xs font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors"
+                          >
+                            Copy
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
               {versions.map((version, index) => {
                 const isCurrentVersion = index === 0;
                 const contentPreview = version.content.substring(0, 150);
@@ -90,7 +396,9 @@ const VersionHistory: React.FC<VersionHistoryProps> = ({ note, onRestore, onClos
                     className={`p-3 sm:p-4 rounded-lg border transition-all ${
                       isCurrentVersion
                         ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
-                        : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                        : version.label
+                          ? 'border-amber-300 dark:border-amber-700 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                          : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700/50'
                     }`}
                   >
                     <div className="flex items-start justify-between gap-2 mb-2">
@@ -100,6 +408,11 @@ const VersionHistory: React.FC<VersionHistoryProps> = ({ note, onRestore, onClos
                           <h4 className="font-semibold text-sm sm:text-base text-gray-900 dark:text-white truncate">
                             {version.title || 'Untitled Note'}
                           </h4>
+                          {version.label && (
+                            <span className="px-2 py-0.5 text-xs font-medium text-amber-800 bg-amber-100 rounded-full dark:bg-amber-900 dark:text-amber-300 truncate">
+                              {version.label}
+                            </span>
+                          )}
                           {isCurrentVersion && (
                             <span className="px-2 py-0.5 text-xs font-medium text-primary-700 bg-primary-100 rounded-full dark:bg-primary-900 dark:text-primary-300">
                               Current
@@ -111,16 +424,38 @@ const VersionHistory: React.FC<VersionHistoryProps> = ({ note, onRestore, onClos
                           {version.changeType && version.changeType !== 'edited' && (
                             <span className="ml-2 capitalize">• {version.changeType}</span>
                           )}
+                          {versions[index + 1] && (
+                            <span className="ml-2">• {getChangeSummary(versions[index + 1], version)}</span>
+                          )}
+                          {version.restoredHunks && (
+                            <span className="ml-2">• Restored {describeRestoredHunks(version.restoredHunks)}</span>
+                          )}
                         </p>
                       </div>
-                      {!isCurrentVersion && (
+                      <div className="flex items-center gap-1">
                         <button
-                          onClick={() => handleRestore(version)}
-                          className="px-3 py-1.5 text-xs sm:text-sm font-medium text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300 hover:bg-primary-100 dark:hover:bg-primary-900/50 rounded-lg transition-colors"
+                          onClick={() => startComparison(version.id)}
+                          className="px-3 py-1.5 text-xs sm:text-sm font-medium text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                          title="Compare with the current draft"
                         >
-                          Restore
+                          Compare
                         </button>
-                      )}
+                        <button
+                          onClick={() => startPartialRestore(version)}
+                          className="px-3 py-1.5 text-xs sm:text-sm font-medium text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                          title="Restore only some changes from this version"
+                        >
+                          Pick changes
+                        </button>
+                        {!isCurrentVersion && (
+                          <button
+                            onClick={() => handleRestore(version)}
+                            className="px-3 py-1.5 text-xs sm:text-sm font-medium text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300 hover:bg-primary-100 dark:hover:bg-primary-900/50 rounded-lg transition-colors"
+                          >
+                            Restore
+                          </button>
+                        )}
+                      </div>
                     </div>
                     <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-300 line-clamp-2">
                       {contentPreview || 'No content'}
@@ -136,7 +471,7 @@ const VersionHistory: React.FC<VersionHistoryProps> = ({ note, onRestore, onClos
         {/* Footer */}
         <div className="p-4 sm:p-6 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
           <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
-            💡 Tip: Up to 10 recent versions are kept automatically
+            💡 Tip: Every version from the last day is kept, older ones thin out to hourly, daily, weekly and monthly snapshots. Checkpoints are always kept
           </p>
         </div>
       </div>
@@ -8,3 +8,4 @@ export { SunIcon } from './SunIcon';
 export { TrashIcon } from './TrashIcon';
 export { EyeIcon } from './EyeIcon';
 export { EyeOffIcon } from './EyeOffIcon';
+export { BookmarkIcon } from './BookmarkIcon';
@@ -0,0 +1,9 @@
+/**
+ * Safety copies of the offline database, taken before each schema upgrade
+ */
+export const DB_BACKUPS = {
+  // Database the copies are kept in, apart from the one being upgraded
+  dbName: 'SmartNoteDB-backups',
+  // Only the most recent copies are kept
+  keep: 3
+};
@@ -0,0 +1,7 @@
+/**
+ * Notes are fetched from the cloud by `updatedAt`, starting this long before the newest change
+ * already seen, so a note saved by a device whose clock runs a little behind isn't missed.
+ */
+export const DELTA_SYNC = {
+  cursorOverlap: 10 * 60000
+};
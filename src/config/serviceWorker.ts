@@ -0,0 +1,12 @@
+/**
+ * Offline support from the service worker (src/serviceWorker.ts), built to /sw.js in production
+ */
+export const SERVICE_WORKER = {
+  url: '/sw.js',
+  // Caches of the app shell are named with this and the build's cache version; older ones are deleted
+  cachePrefix: 'smart-note-shell-',
+  // Loaded from CDNs by index.html, cached as they're fetched since they're not part of the build
+  cdnAssets: ['https://cdn.tailwindcss.com?plugins=typography'],
+  // Background Sync tag that sends the sync queue once the connection returns
+  syncTag: 'flush-sync-queue'
+};
@@ -0,0 +1,26 @@
+import { NoteStores, RemoteStore } from '../types';
+import { indexedDBNoteStore } from '../utils/indexedDB';
+import { firebaseRemoteStore } from '../utils/firebaseSync';
+import { serverRemoteStore } from '../utils/serverSync';
+import { localStorageDeviceStore } from '../utils/device';
+
+// Which backend notes sync through: 'firebase' (default), or 'server' for the self-hosted sync server
+const SYNC_PROVIDER = import.meta.env.VITE_SYNC_PROVIDER || 'firebase';
+
+const remoteStores: Record<string, RemoteStore> = {
+  firebase: firebaseRemoteStore,
+  server: serverRemoteStore
+};
+
+if (!remoteStores[SYNC_PROVIDER]) {
+  throw new Error(`Unknown sync provider "${SYNC_PROVIDER}"; use "firebase" or "server"`);
+}
+
+/**
+ * Where notes are kept on this device, which backend they sync through, and where the device's ID is kept
+ */
+export const noteStores: NoteStores = {
+  local: indexedDBNoteStore,
+  remote: remoteStores[SYNC_PROVIDER],
+  device: localStorageDeviceStore
+};
@@ -0,0 +1,17 @@
+/**
+ * Retry policy for the offline sync queue.
+ * A failed item waits baseDelay * 2^(attempts - 1), capped at maxDelay, before the next try.
+ * After maxAttempts failures it moves to the dead-letter list for the user to retry or discard.
+ */
+export const SYNC_RETRY = {
+  baseDelay: 5000,
+  maxDelay: 30 * 60000,
+  maxAttempts: 8
+};
+
+/**
+ * Delay before the next attempt of an item that has failed `attempts` times
+ */
+export const getRetryDelay = (attempts: number): number => {
+  return Math.min(SYNC_RETRY.baseDelay * 2 ** Math.max(attempts - 1, 0), SYNC_RETRY.maxDelay);
+};
@@ -0,0 +1,10 @@
+/**
+ * Address of the self-hosted sync server (see /server), used when VITE_SYNC_PROVIDER is 'server'
+ */
+export const SYNC_SERVER_URL = (import.meta.env.VITE_SYNC_SERVER_URL || 'http://localhost:8787').replace(/\/$/, '');
+
+// Reconnect delays for the server's live updates
+export const SYNC_SERVER_RECONNECT = {
+  baseDelay: 1000,
+  maxDelay: 30000
+};
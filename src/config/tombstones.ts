@@ -0,0 +1,9 @@
+const DAY = 24 * 3600000;
+
+/**
+ * Tombstones are removed once every known device has seen them.
+ * A device that hasn't synced for `deviceExpiry` is no longer waited for.
+ */
+export const TOMBSTONE_GC = {
+  deviceExpiry: 90 * DAY
+};
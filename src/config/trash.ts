@@ -0,0 +1,9 @@
+/**
+ * Notes in the trash are deleted for good this many days after being trashed
+ */
+export const TRASH_PURGE_DAYS = 30;
+
+/**
+ * How often an open app checks the trash for notes due to be purged
+ */
+export const TRASH_PURGE_CHECK_INTERVAL = 3600000;
@@ -0,0 +1,20 @@
+const HOUR = 3600000;
+const DAY = 24 * HOUR;
+
+export interface RetentionRule {
+  // Applies to versions at least this old (ms)
+  olderThan: number;
+  // Keep only the newest version in each window of this size (ms)
+  keepOnePer: number;
+}
+
+/**
+ * Version history retention, from youngest to oldest.
+ * Versions younger than the first rule are all kept.
+ */
+export const VERSION_RETENTION: RetentionRule[] = [
+  { olderThan: DAY, keepOnePer: HOUR },
+  { olderThan: 7 * DAY, keepOnePer: DAY },
+  { olderThan: 90 * DAY, keepOnePer: 7 * DAY },
+  { olderThan: 365 * DAY, keepOnePer: 30 * DAY }
+];
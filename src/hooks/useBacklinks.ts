@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react';
+import { Note } from '../types';
+import { getBacklinkIdsFromIndexedDB } from '../utils/indexedDB';
+
+/**
+ * Notes that link to the given note by its title, from the IndexedDB link index
+ */
+export const useBacklinks = (userId: string | null, note: Note | null, notes: Note[]): Note[] => {
+  const [backlinks, setBacklinks] = useState<Note[]>([]);
+  const noteId = note?.id;
+  const title = note?.title || '';
+
+  useEffect(() => {
+    if (!userId || !noteId || !title.trim()) {
+      setBacklinks([]);
+      return;
+    }
+
+    let cancelled = false;
+    getBacklinkIdsFromIndexedDB(userId, title)
+      .then(sourceIds => {
+        if (cancelled) return;
+        const sources = new Set(sourceIds.filter(id => id !== noteId));
+        setBacklinks(notes.filter(n => sources.has(n.id)));
+      })
+      .catch(err => console.error('Error loading backlinks:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, noteId, title, notes]);
+
+  return backlinks;
+};
@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DatabaseStatus } from '../types';
+import { getDatabaseStatus, subscribeToDatabaseStatus, prepareDatabase } from '../utils/indexedDB';
+
+interface UseDatabaseStatusReturn {
+  status: DatabaseStatus;
+  retry: (options?: { skipBackup?: boolean }) => void;
+}
+
+/**
+ * Bring the offline database up to date as soon as the app starts, and follow how that goes
+ */
+export const useDatabaseStatus = (): UseDatabaseStatusReturn => {
+  const [status, setStatus] = useState<DatabaseStatus>(getDatabaseStatus);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToDatabaseStatus(setStatus);
+    setStatus(getDatabaseStatus());
+    // Failures are reported through the status
+    prepareDatabase().catch(() => {});
+    return unsubscribe;
+  }, []);
+
+  const retry = useCallback((options: { skipBackup?: boolean } = {}) => {
+    prepareDatabase(options).catch(() => {});
+  }, []);
+
+  return { status, retry };
+};
@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react';
+import { Note, Notebook } from '../types';
+import { searchNotesInIndexedDB } from '../utils/indexedDB';
+import { tokenizeQuery, buildSnippet, findMatchRanges, SearchSnippet } from '../utils/searchIndex';
+import { parseSearchQuery, collectTextTerms, evaluateQuery, QueryError, QueryNode } from '../utils/searchQuery';
+
+export interface SearchMatch {
+  noteId: string;
+  score: number;
+  titleRanges: Array<[number, number]>;
+  snippet: SearchSnippet;
+}
+
+const SEARCH_DEBOUNCE_MS = 150;
+
+/**
+ * Notes matching a parsed query, scored by the BM25 score of their positive free-text words.
+ * Each word is looked up separately so OR and negation can combine them freely.
+ */
+export const runSearchQuery = async (
+  userId: string,
+  ast: QueryNode,
+  notes: Note[],
+  notebooks: Notebook[]
+): Promise<Array<{ note: Note; score: number }>> => {
+  const textMatches = new Map<string, Set<string>>();
+  const wordScores = new Map<string, Map<string, number>>();
+  for (const word of collectTextTerms(ast)) {
+    const ranked = await searchNotesInIndexedDB(userId, word);
+    textMatches.set(word, new Set(ranked.map(({ noteId }) => noteId)));
+    wordScores.set(word, new Map(ranked.map(({ noteId, score }) => [noteId, score])));
+  }
+
+  const context = { notebooks, textMatches, now: Date.now() };
+  const positiveWords = collectTextTerms(ast, true);
+
+  return notes
+    .filter(note => evaluateQuery(ast, note, context))
+    .map(note => ({
+      note,
+      score: positiveWords.reduce((sum, word) => sum + (wordScores.get(word)?.get(note.id) || 0), 0)
+    }));
+};
+
+/**
+ * Structured search: free text goes through the IndexedDB index, operators are checked per note.
+ * `matches` is null while there is no query, so callers can show the unfiltered list.
+ */
+export const useNoteSearch = (userId: string | null, query: string, notes: Note[], notebooks: Notebook[]) => {
+  const [matches, setMatches] = useState<SearchMatch[] | null>(null);
+  const [error, setError] = useState<QueryError | null>(null);
+
+  useEffect(() => {
+    const parsed = parseSearchQuery(query);
+    setError(parsed.error);
+    if (parsed.error) return;
+
+    if (!userId || !parsed.ast) {
+      setMatches(null);
+      return;
+    }
+
+    const { ast } = parsed;
+    let cancelled = false;
+    const handler = setTimeout(async () => {
+      try {
+        const results = await runSearchQuery(userId, ast, notes, notebooks);
+        if (cancelled) return;
+
+        const queryTerms = tokenizeQuery(collectTextTerms(ast, true).join(' '));
+        setMatches(
+          results
+            .map(({ note, score }) => ({
+              noteId: note.id,
+              score,
+              titleRanges: findMatchRanges(note.title, queryTerms),
+              snippet: buildSnippet(note.content, queryTerms)
+            }))
+            .sort((a, b) => b.score - a.score)
+        );
+      } catch (err) {
+        console.error('Error searching notes:', err);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(handler);
+    };
+  }, [userId, query, notes, notebooks]);
+
+  return { matches, error };
+};
@@ -0,0 +1,166 @@
+import { useState, useEffect } from 'react';
+import { Note, NoteVersion, VersionChangeType, RestoredHunk, NoteStores } from '../types';
+import { noteStores } from '../config/storage';
+import { createVersion, hasChangedSince, pruneVersions, getVersionHistory } from '../utils/versionHistory';
+import { useNetworkStatus } from './useNetworkStatus';
+
+/**
+ * Apply the retention policy to a note's history, locally and in the cloud.
+ * Returns the versions that remain.
+ */
+const applyRetention = async (
+  { local, remote }: NoteStores,
+  userId: string,
+  noteId: string,
+  versions: NoteVersion[],
+  isOnline: boolean
+): Promise<NoteVersion[]> => {
+  const toRemove = pruneVersions(versions);
+  if (toRemove.length === 0) return versions;
+
+  await local.deleteVersions(toRemove);
+
+  const queueRemovals = () =>
+    Promise.all(toRemove.map(versionId => local.addVersionToSyncQueue('delete', noteId, versionId)));
+
+  if (isOnline) {
+    try {
+      await remote.deleteVersions(userId, noteId, toRemove);
+    } catch (err) {
+      console.error('Error pruning versions in the cloud:', err);
+      await queueRemovals();
+    }
+  } else {
+    await queueRemovals();
+  }
+
+  const removed = new Set(toRemove);
+  return versions.filter(version => !removed.has(version.id));
+};
+
+/**
+ * Save a version locally, then to the cloud or the sync queue
+ */
+const storeVersion = async (
+  { local, remote }: NoteStores,
+  userId: string,
+  version: NoteVersion,
+  isOnline: boolean
+): Promise<void> => {
+  await local.saveVersions([version], userId);
+
+  if (isOnline) {
+    try {
+      await remote.saveVersion(userId, version);
+    } catch (err) {
+      console.error('Error saving version to the cloud:', err);
+      await local.addVersionToSyncQueue('create', version.noteId, version.id, version);
+    }
+  } else {
+    await local.addVersionToSyncQueue('create', version.noteId, version.id, version);
+  }
+};
+
+/**
+ * Snapshot a note into its version history if it changed since the latest version.
+ * History is stored apart from the note, so saving a note never resends it.
+ */
+export const recordVersion = async (
+  stores: NoteStores,
+  userId: string,
+  note: Note,
+  changeType: VersionChangeType,
+  isOnline: boolean,
+  restoredHunks?: RestoredHunk[]
+): Promise<void> => {
+  const versions = await stores.local.getVersions(note.id);
+  if (!hasChangedSince(getVersionHistory(versions)[0], note)) return;
+
+  const version = createVersion(note, stores.device.getDeviceId(), changeType, restoredHunks);
+  await storeVersion(stores, userId, version, isOnline);
+  await applyRetention(stores, userId, note.id, [...versions, version], isOnline);
+};
+
+/**
+ * Snapshot a note as a named checkpoint, even if it matches the latest version
+ */
+export const recordCheckpoint = async (
+  stores: NoteStores,
+  userId: string,
+  note: Note,
+  label: string,
+  isOnline: boolean
+): Promise<NoteVersion> => {
+  const version = createVersion(note, stores.device.getDeviceId(), 'checkpoint', undefined, label.trim());
+  await storeVersion(stores, userId, version, isOnline);
+  return version;
+};
+
+interface UseNoteVersionsReturn {
+  versions: NoteVersion[];
+  loading: boolean;
+  updateVersion: (version: NoteVersion) => Promise<void>;
+}
+
+/**
+ * A note's version history (newest first), loaded only when asked for:
+ * local versions first, then merged with the cloud copy when online.
+ */
+export const useNoteVersions = (userId: string | null, noteId: string): UseNoteVersionsReturn => {
+  const [versions, setVersions] = useState<NoteVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const isOnline = useNetworkStatus();
+
+  useEffect(() => {
+    if (!userId) {
+      setVersions([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadVersions = async () => {
+      try {
+        setLoading(true);
+        const localVersions = await noteStores.local.getVersions(noteId);
+        if (cancelled) return;
+        setVersions(getVersionHistory(localVersions));
+
+        if (!isOnline) return;
+
+        // Versions made on other devices only exist in the cloud until first viewed here
+        const localIds = new Set(localVersions.map(version => version.id));
+        const missing = (await noteStores.remote.loadVersions(userId, noteId))
+          .filter(version => !localIds.has(version.id));
+        if (missing.length > 0) {
+          await noteStores.local.saveVersions(missing, userId);
+        }
+
+        const merged = await applyRetention(noteStores, userId, noteId, [...localVersions, ...missing], isOnline);
+        if (!cancelled) {
+          setVersions(getVersionHistory(merged));
+        }
+      } catch (err) {
+        console.error('Error loading version history:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadVersions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, noteId, isOnline]);
+
+  // Save changed version metadata, such as a checkpoint's share link
+  const updateVersion = async (version: NoteVersion): Promise<void> => {
+    if (!userId) return;
+    await storeVersion(noteStores, userId, version, isOnline);
+    setVersions(prev => prev.map(v => v.id === version.id ? version : v));
+  };
+
+  return { versions, loading, updateVersion };
+};
@@ -0,0 +1,103 @@
+import { Notebook } from '../types';
+import { noteStores } from '../config/storage';
+import {
+  saveNotebookToIndexedDB,
+  getNotebooksFromIndexedDB,
+  deleteNotebookFromIndexedDB,
+  addNotebookToSyncQueue
+} from '../utils/indexedDB';
+import { useSyncedRecords, SyncedRecordSource } from './useSyncedRecords';
+import { generateNotebookId, canMoveNotebook } from '../utils/notebooks';
+
+const { remote } = noteStores;
+
+const notebookSource: SyncedRecordSource<Notebook> = {
+  name: 'notebook',
+  getLocal: getNotebooksFromIndexedDB,
+  saveLocal: saveNotebookToIndexedDB,
+  deleteLocal: deleteNotebookFromIndexedDB,
+  loadRemote: userId => remote.loadNotebooks(userId),
+  saveRemote: (userId, notebook) => remote.saveNotebook(userId, notebook),
+  subscribeToRemote: (userId, callback) => remote.subscribeToNotebooks(userId, callback),
+  addToSyncQueue: addNotebookToSyncQueue,
+  getQueuedRecordId: item => (item.entity === 'notebook' ? item.notebookId : null)
+};
+
+interface UseNotebooksReturn {
+  notebooks: Notebook[];
+  createNotebook: (name: string, parentId?: string | null) => Promise<Notebook>;
+  renameNotebook: (notebookId: string, name: string) => Promise<void>;
+  moveNotebook: (notebookId: string, parentId: string | null) => Promise<void>;
+  deleteNotebook: (notebookId: string) => Promise<void>;
+}
+
+export const useNotebooks = (userId: string | null): UseNotebooksReturn => {
+  const {
+    records: notebooks,
+    setRecords: setNotebooks,
+    persistRecord: persistNotebook,
+    deleteRecord
+  } = useSyncedRecords(userId, notebookSource);
+
+  const createNotebook = async (name: string, parentId: string | null = null): Promise<Notebook> => {
+    const now = Date.now();
+    const notebook: Notebook = {
+      id: generateNotebookId(),
+      name: name.trim() || 'Untitled Notebook',
+      parentId,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    setNotebooks(prev => [...prev, notebook]);
+    await persistNotebook(notebook, 'create');
+    return notebook;
+  };
+
+  const updateNotebook = async (notebookId: string, changes: Partial<Notebook>): Promise<void> => {
+    const notebook = notebooks.find(nb => nb.id === notebookId);
+    if (!notebook) return;
+
+    const updatedNotebook = { ...notebook, ...changes, updatedAt: Date.now() };
+    setNotebooks(prev => prev.map(nb => (nb.id === notebookId ? updatedNotebook : nb)));
+    await persistNotebook(updatedNotebook, 'update');
+  };
+
+  const renameNotebook = async (notebookId: string, name: string): Promise<void> => {
+    if (!name.trim()) return;
+    await updateNotebook(notebookId, { name: name.trim() });
+  };
+
+  const moveNotebook = async (notebookId: string, parentId: string | null): Promise<void> => {
+    if (!canMoveNotebook(notebooks, notebookId, parentId)) {
+      throw new Error('A notebook cannot be moved into itself or one of its sub-notebooks');
+    }
+    await updateNotebook(notebookId, { parentId });
+  };
+
+  /**
+   * Delete a notebook; its sub-notebooks move up to its parent.
+   * Re-homing the notebook's notes is left to the caller, which owns the notes.
+   */
+  const deleteNotebook = async (notebookId: string): Promise<void> => {
+    if (!userId) return;
+
+    const notebook = notebooks.find(nb => nb.id === notebookId);
+    if (!notebook) return;
+
+    const children = notebooks.filter(nb => nb.parentId === notebookId);
+    for (const child of children) {
+      await updateNotebook(child.id, { parentId: notebook.parentId });
+    }
+
+    await deleteRecord(notebook);
+  };
+
+  return {
+    notebooks,
+    createNotebook,
+    renameNotebook,
+    moveNotebook,
+    deleteNotebook
+  };
+};
@@ -1,127 +1,182 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Note } from '../types';
-import { 
-  saveNoteToFirebase, 
-  loadNotesFromFirebase, 
-  deleteNoteFromFirebase,
-  subscribeToNotes
-} from '../utils/firebaseSync';
-import {
-  saveNoteToIndexedDB,
-  getNotesFromIndexedDB,
-  deleteNoteFromIndexedDB,
-  addToSyncQueue,
-  getSyncQueue,
-  clearSyncQueue
-} from '../utils/indexedDB';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Note, NoteChange, NoteStores, VersionChangeType, RestoredHunk, SyncError } from '../types';
+import { noteStores } from '../config/storage';
 import { useNetworkStatus } from './useNetworkStatus';
-import { addVersion } from '../utils/versionHistory';
-
-/**
- * Merge local and Firebase notes, keeping the most recent version of each
- */
-const mergeNotes = (localNotes: Note[], firebaseNotes: Note[]): Note[] => {
-  const mergedMap = new Map<string, Note>();
-  
-  console.log(`Merging notes - Local: ${localNotes.length}, Firebase: ${firebaseNotes.length}`);
-  
-  // Add all Firebase notes first
-  firebaseNotes.forEach(note => {
-    mergedMap.set(note.id, note);
-  });
-  
-  // Override with local notes if they're newer
-  localNotes.forEach(localNote => {
-    const firebaseNote = mergedMap.get(localNote.id);
-    
-    if (!firebaseNote) {
-      // Local-only note (created offline)
-      console.log(`Keeping local-only note: ${localNote.id}`);
-      mergedMap.set(localNote.id, localNote);
-    } else {
-      // Compare timestamps - keep the newer version
-      const localTimestamp = localNote.updatedAt || localNote.createdAt;
-      const firebaseTimestamp = firebaseNote.updatedAt || firebaseNote.createdAt;
-      
-      if (localTimestamp > firebaseTimestamp) {
-        // Local version is newer
-        console.log(`Local note ${localNote.id} is newer (${localTimestamp} > ${firebaseTimestamp})`);
-        mergedMap.set(localNote.id, localNote);
-      } else {
-        console.log(`Firebase note ${firebaseNote.id} is newer or same (${firebaseTimestamp} >= ${localTimestamp})`);
-      }
-      // Otherwise keep Firebase version (already in map)
-    }
-  });
-  
-  return Array.from(mergedMap.values()).sort((a, b) => b.createdAt - a.createdAt);
-};
+import { useSyncLeader } from './useSyncLeader';
+import { useTabPresence } from './useTabPresence';
+import { recordVersion, recordCheckpoint } from './useNoteVersions';
+import { mergeNoteRevisions, markSynced } from '../utils/threeWayMerge';
+import { describeSyncItem, getSyncItemNoteId } from '../utils/syncStatus';
+import { broadcastToTabs, subscribeToTabs } from '../utils/tabSync';
+import { createTombstone, applyTombstones } from '../utils/tombstones';
+import { createId, isId } from '../utils/ids';
+import { getExpiredTrash } from '../utils/trash';
+import { TRASH_PURGE_CHECK_INTERVAL } from '../config/trash';
+import { getDeltaStart, advanceSyncCursor } from '../utils/syncCursor';
+import { recordSynced, flushSyncQueue } from '../utils/syncQueue';
+import { uploadMergedNotes, pullNoteChanges } from '../utils/noteSync';
+
+// How many sync errors the status panel keeps
+const MAX_SYNC_ERRORS = 20;
+
+const lastSyncedKey = (userId: string) => `lastSyncedAt_${userId}`;
 
 interface UseNotesReturn {
   notes: Note[];
+  trashedNotes: Note[];
   loading: boolean;
   error: string | null;
   isOnline: boolean;
   isSyncing: boolean;
-  createNote: () => Note;
-  updateNote: (note: Note) => Promise<void>;
+  isSyncLeader: boolean;
+  editedInOtherTabs: Set<string>;
+  // Notes another tab changed that aren't being edited here
+  otherTabChange: { noteIds: string[]; at: number } | null;
+  inFlightNoteIds: Set<string>;
+  lastSyncedAt: number | null;
+  syncErrors: SyncError[];
+  createNote: (notebookId?: string | null) => Note;
+  updateNote: (note: Note, changeType?: VersionChangeType, restoredHunks?: RestoredHunk[]) => Promise<void>;
+  resolveConflict: (noteId: string, title: string, content: string) => Promise<Note | null>;
+  createCheckpoint: (note: Note, label: string) => Promise<void>;
+  trashNote: (noteId: string) => Promise<void>;
+  restoreNote: (noteId: string, notebookId: string | null) => Promise<void>;
+  // Deletes for good, leaving a tombstone
   deleteNote: (noteId: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
   refreshNotes: () => Promise<void>;
-  syncNotes: () => Promise<void>;
+  syncNotes: (ignoreBackoff?: boolean) => Promise<void>;
   setEditingNote: (noteId: string | null) => void;
 }
 
-export const useNotes = (userId: string | null): UseNotesReturn => {
+/**
+ * A user's notes, kept in the local store and synced through the remote one.
+ * `stores` defaults to the configured backends; pass others to run sync against them.
+ */
+export const useNotes = (userId: string | null, stores: NoteStores = noteStores): UseNotesReturn => {
+  const { local, remote, device } = stores;
   const [notes, setNotes] = useState<Note[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
   const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [nextRetryAt, setNextRetryAt] = useState<number | null>(null);
+  const [inFlightNoteIds, setInFlightNoteIds] = useState<Set<string>>(new Set());
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [syncErrors, setSyncErrors] = useState<SyncError[]>([]);
+  const syncingRef = useRef(false);
+  // Cloud changes to the note being edited, merged once editing stops
+  const deferredChangesRef = useRef<Map<string, Note>>(new Map());
+  // Read by the sync effect, so starting and stopping an edit doesn't restart it
+  const editingNoteIdRef = useRef<string | null>(null);
+  // Read by deleteNote and the trash purge, so neither changes with every edit
+  const notesRef = useRef<Note[]>([]);
+  const [otherTabChange, setOtherTabChange] = useState<{ noteIds: string[]; at: number } | null>(null);
   const isOnline = useNetworkStatus();
+  const isSyncLeader = useSyncLeader();
+  const editedInOtherTabs = useTabPresence(editingNoteId);
+  // Only the leader tab talks to Firebase; the others queue their changes for it
+  const canSync = isOnline && isSyncLeader;
+
+  useEffect(() => {
+    const stored = userId ? device.getItem(lastSyncedKey(userId)) : null;
+    setLastSyncedAt(stored ? Number(stored) : null);
+    setSyncErrors([]);
+  }, [userId, device]);
+
+  const recordSyncSuccess = useCallback(() => {
+    if (!userId) return;
+    const now = Date.now();
+    device.setItem(lastSyncedKey(userId), String(now));
+    setLastSyncedAt(now);
+  }, [userId, device]);
+
+  const recordSyncError = useCallback((description: string, err: any, noteId?: string) => {
+    const syncError: SyncError = {
+      id: `${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+      description,
+      message: err?.message || String(err),
+      timestamp: Date.now(),
+      noteId
+    };
+    setSyncErrors(prev => [syncError, ...prev].slice(0, MAX_SYNC_ERRORS));
+  }, []);
+
+  // Mark a note as uploading while a cloud write runs
+  const trackInFlight = useCallback(async <T,>(noteId: string | null, write: () => Promise<T>): Promise<T> => {
+    if (!noteId) return write();
+
+    setInFlightNoteIds(prev => new Set(prev).add(noteId));
+    try {
+      return await write();
+    } finally {
+      setInFlightNoteIds(prev => {
+        const next = new Set(prev);
+        next.delete(noteId);
+        return next;
+      });
+    }
+  }, []);
 
   // Sync pending operations to Firebase
-  const syncNotes = useCallback(async () => {
-    if (!userId || !isOnline) return;
+  const syncNotes = useCallback(async (ignoreBackoff = false) => {
+    if (!userId || !canSync || syncingRef.current) return;
 
     try {
+      syncingRef.current = true;
       setIsSyncing(true);
-      const syncQueue = await getSyncQueue();
+      const syncQueue = await local.getSyncQueue();
 
       if (syncQueue.length === 0) {
-        setIsSyncing(false);
+        recordSyncSuccess();
         return;
       }
 
-      console.log(`Syncing ${syncQueue.length} operations to Firebase...`);
+      const { failures, remaining } = await flushSyncQueue(stores, userId, {
+        ignoreBackoff,
+        runSend: (item, send) => trackInFlight(getSyncItemNoteId(item), send),
+        onFailure: (item, err) => recordSyncError(describeSyncItem(item), err, getSyncItemNoteId(item) || undefined)
+      });
 
-      // Process each sync operation
-      for (const item of syncQueue) {
-        try {
-          switch (item.operation) {
-            case 'create':
-            case 'update':
-              if (item.note) {
-                await saveNoteToFirebase(userId, item.note);
-              }
-              break;
-            case 'delete':
-              await deleteNoteFromFirebase(userId, item.noteId);
-              break;
-          }
-        } catch (err) {
-          console.error(`Failed to sync ${item.operation} for note ${item.noteId}:`, err);
-        }
+      // Come back for whatever is still waiting on its backoff
+      setNextRetryAt(remaining.length > 0
+        ? Math.min(...remaining.map(item => item.nextRetry || Date.now()))
+        : null);
+      if (failures === 0 && remaining.length === 0) {
+        recordSyncSuccess();
       }
-
-      // Clear sync queue after successful sync
-      await clearSyncQueue();
-      console.log('Sync completed successfully');
+      console.log('Sync pass completed');
     } catch (err: any) {
       console.error('Error syncing notes:', err);
     } finally {
+      syncingRef.current = false;
       setIsSyncing(false);
     }
-  }, [userId, isOnline]);
+  }, [userId, stores, canSync, trackInFlight, recordSyncSuccess, recordSyncError]);
+
+  // Merge what changed in Firebase, with changes held back earlier while their note was being edited
+  const pullChanges = useCallback(async () => {
+    if (!userId) return;
+
+    const deferred = Array.from(deferredChangesRef.current.values()).filter(note => note.id !== editingNoteIdRef.current);
+    const { notes: mergedNotes, pulled, changedIds } = await pullNoteChanges(stores, userId, deferred);
+    pulled.forEach(note => deferredChangesRef.current.delete(note.id));
+
+    setNotes(mergedNotes);
+    broadcastToTabs({ type: 'notes-changed', noteIds: changedIds });
+  }, [userId, stores]);
+
+  // Retry failed operations once their backoff has passed
+  useEffect(() => {
+    if (nextRetryAt === null || !canSync) return;
+
+    const timer = setTimeout(() => {
+      setNextRetryAt(null);
+      syncNotes();
+    }, Math.max(nextRetryAt - Date.now(), 0));
+
+    return () => clearTimeout(timer);
+  }, [nextRetryAt, canSync, syncNotes]);
 
   // Load notes from IndexedDB first, then sync with Firebase
   useEffect(() => {
@@ -135,7 +190,7 @@ export const useNotes = (userId: string | null): UseNotesReturn => {
     const loadNotesFromLocal = async () => {
       try {
         setLoading(true);
-        const localNotes = await getNotesFromIndexedDB(userId);
+        const localNotes = await local.getNotes(userId);
         setNotes(localNotes);
         setError(null);
       } catch (err: any) {
@@ -148,8 +203,8 @@ export const useNotes = (userId: string | null): UseNotesReturn => {
 
     loadNotesFromLocal();
 
-    // If online, sync with Firebase
-    if (isOnline) {
+    // If this tab syncs and is online, sync with Firebase
+    if (canSync) {
       const syncWithFirebase = async () => {
         try {
           // First, sync any pending changes to Firebase
@@ -158,141 +213,262 @@ export const useNotes = (userId: string | null): UseNotesReturn => {
           // Wait a moment for Firebase to persist the changes
           await new Promise(resolve => setTimeout(resolve, 500));
 
-          // Then load latest from Firebase
-          const firebaseNotes = await loadNotesFromFirebase(userId);
-          const localNotes = await getNotesFromIndexedDB(userId);
-          
-          // Merge local and Firebase notes, keeping the most recent version
-          const mergedNotes = mergeNotes(localNotes, firebaseNotes);
-          
-          // Update both IndexedDB and Firebase with merged notes
-          for (const note of mergedNotes) {
-            await saveNoteToIndexedDB(note, userId);
-            
-            // If a local note is newer than Firebase, update Firebase
-            const firebaseNote = firebaseNotes.find(n => n.id === note.id);
-            const localNote = localNotes.find(n => n.id === note.id);
-            
-            if (localNote && (!firebaseNote || 
-                (localNote.updatedAt || localNote.createdAt) > 
-                (firebaseNote.updatedAt || firebaseNote.createdAt))) {
-              await saveNoteToFirebase(userId, note);
-            }
-          }
-          
-          setNotes(mergedNotes);
+          // Then merge what changed in Firebase
+          await pullChanges();
+          recordSyncSuccess();
         } catch (err: any) {
           console.error('Error syncing with Firebase:', err);
+          recordSyncError('Load notes from the cloud', err);
           // Don't show error to user, local notes still work
         }
       };
 
-      syncWithFirebase();
-
-      // Subscribe to real-time updates when online
-      const unsubscribe = subscribeToNotes(userId, async (updatedNotes) => {
-        // Get current local notes (IndexedDB is source of truth)
-        const localNotes = await getNotesFromIndexedDB(userId);
-        const localNoteIds = new Set(localNotes.map(n => n.id));
-        
-        // Filter out notes that have been deleted locally
-        const validFirebaseNotes = updatedNotes.filter(firebaseNote => 
-          localNoteIds.has(firebaseNote.id)
+      // Merge one note added, changed or removed in Firebase
+      const applyNoteChange = async (change: NoteChange) => {
+        // Old-style IDs are moved by the next full sync; their removal is that move
+        if (!isId(change.type === 'removed' ? change.noteId : change.note.id)) return;
+
+        if (change.type === 'removed') {
+          // A copy with local changes still queued stays, as with tombstones
+          const syncQueue = await local.getSyncQueue();
+          if (syncQueue.some(item => getSyncItemNoteId(item) === change.noteId)) return;
+
+          await local.deleteNote(change.noteId);
+          setNotes(prevNotes => prevNotes.filter(note => note.id !== change.noteId));
+          broadcastToTabs({ type: 'notes-changed', noteIds: [change.noteId] });
+          return;
+        }
+
+        const firebaseNote = change.note;
+
+        // Leave out notes deleted here whose deletion hasn't reached the cloud yet
+        const tombstone = await local.getTombstone(firebaseNote.id);
+        if (tombstone && applyTombstones([firebaseNote], [tombstone]).kept.length === 0) return;
+
+        // If user is editing this note, keep local version and merge the change afterwards
+        if (firebaseNote.id === editingNoteIdRef.current) {
+          deferredChangesRef.current.set(firebaseNote.id, firebaseNote);
+          advanceSyncCursor(device, userId, [firebaseNote]);
+          return;
+        }
+
+        // Get the current local copy (IndexedDB is source of truth)
+        const localNote = await local.getNote(firebaseNote.id);
+        const { outcome, note } = localNote
+          ? mergeNoteRevisions(localNote, firebaseNote)
+          : { outcome: 'remote', note: markSynced(firebaseNote) };
+
+        await local.saveNote(note, userId);
+        advanceSyncCursor(device, userId, [firebaseNote]);
+        deferredChangesRef.current.delete(note.id);
+        setNotes(prevNotes =>
+          [...prevNotes.filter(prev => prev.id !== note.id), note].sort((a, b) => b.createdAt - a.createdAt)
         );
-        
-        // Merge Firebase updates with local notes
-        const mergedNotes = localNotes.map(localNote => {
-          const firebaseNote = validFirebaseNotes.find(fn => fn.id === localNote.id);
-          
-          // If user is editing this note, keep local version
-          if (editingNoteId === localNote.id) {
-            return localNote;
-          }
-          
-          // If Firebase has a newer version, use it
-          if (firebaseNote) {
-            const localTimestamp = localNote.updatedAt || localNote.createdAt;
-            const firebaseTimestamp = firebaseNote.updatedAt || firebaseNote.createdAt;
-            
-            if (firebaseTimestamp >= localTimestamp) {
-              return firebaseNote;
-            }
-          }
-          
-          return localNote;
+
+        if (outcome !== 'unchanged' && outcome !== 'local') {
+          broadcastToTabs({ type: 'notes-changed', noteIds: [note.id] });
+        }
+        if (outcome === 'merged') {
+          await uploadMergedNotes(stores, userId, [note]);
+        }
+      };
+
+      // Subscribe to real-time changes once caught up, one note at a time and in order
+      let cancelled = false;
+      let unsubscribe = () => {};
+      let applying = Promise.resolve();
+      syncWithFirebase().then(() => {
+        if (cancelled) return;
+        unsubscribe = remote.subscribeToNoteChanges(userId, getDeltaStart(device, userId), change => {
+          applying = applying
+            .then(() => applyNoteChange(change))
+            .catch(err => console.error('Error applying note change from the cloud:', err));
         });
-        
-        setNotes(mergedNotes);
-        
-        // Update IndexedDB with Firebase changes
-        for (const note of mergedNotes) {
-          if (note.id !== editingNoteId) {
-            await saveNoteToIndexedDB(note, userId);
+      });
+
+      // Apply deletions made on other devices
+      const unsubscribeTombstones = remote.subscribeToTombstones(userId, async (remoteTombstones) => {
+        try {
+          const deviceId = device.getDeviceId();
+          const localNotes = await local.getNotes(userId);
+          const { deleted, revived } = applyTombstones(localNotes, remoteTombstones);
+          const revivedIds = revived.map(t => t.noteId);
+
+          await local.deleteNotes(deleted.map(note => note.id));
+
+          const unseenIds = remoteTombstones
+            .filter(t => t.seenBy?.[deviceId] === undefined && !revivedIds.includes(t.noteId))
+            .map(t => t.noteId);
+          await remote.markTombstonesSeen(userId, unseenIds, deviceId);
+          await local.saveTombstones(
+            remoteTombstones.filter(t => !revivedIds.includes(t.noteId)),
+            userId
+          );
+          // Notes edited here after being deleted elsewhere stay
+          await remote.deleteTombstones(userId, revivedIds);
+
+          if (deleted.length > 0) {
+            const deletedIds = new Set(deleted.map(note => note.id));
+            setNotes(prevNotes => prevNotes.filter(note => !deletedIds.has(note.id)));
+            broadcastToTabs({ type: 'notes-changed', noteIds: Array.from(deletedIds) });
           }
+        } catch (err) {
+          console.error('Error applying deletions from other devices:', err);
         }
       });
 
-      return () => unsubscribe();
+      return () => {
+        cancelled = true;
+        unsubscribe();
+        unsubscribeTombstones();
+      };
     }
-  }, [userId, isOnline, syncNotes, editingNoteId]);
+  }, [userId, stores, canSync, syncNotes, pullChanges, recordSyncSuccess, recordSyncError]);
 
-  // Auto-sync when coming back online
+  // Once a note isn't being edited, merge the cloud changes held back while it was
   useEffect(() => {
-    if (isOnline && userId) {
+    editingNoteIdRef.current = editingNoteId;
+    if (!canSync) return;
+
+    const pending = Array.from(deferredChangesRef.current.keys()).some(id => id !== editingNoteId);
+    if (pending) {
+      pullChanges().catch(err => console.error('Error merging changes held back during editing:', err));
+    }
+  }, [editingNoteId, canSync, pullChanges]);
+
+  // Auto-sync when coming back online, or on taking over syncing from a closed tab
+  useEffect(() => {
+    if (canSync && userId) {
       console.log('Back online - syncing...');
       syncNotes();
     }
-  }, [isOnline, userId, syncNotes]);
+  }, [canSync, userId, syncNotes]);
+
+  // Follow other tabs: reload notes they saved, and sync changes they queued
+  useEffect(() => {
+    if (!userId) return;
 
-  const createNote = (): Note => {
+    return subscribeToTabs(async message => {
+      if (message.type === 'sync-queue-changed') {
+        syncNotes();
+        return;
+      }
+      if (message.type !== 'notes-changed') return;
+
+      try {
+        const localNotes = await local.getNotes(userId);
+        // Keep this tab's copy of a note it is editing
+        setNotes(prevNotes => localNotes.map(note =>
+          note.id === editingNoteId ? prevNotes.find(prev => prev.id === note.id) ?? note : note
+        ));
+        setOtherTabChange({ noteIds: message.noteIds.filter(id => id !== editingNoteId), at: Date.now() });
+      } catch (err) {
+        console.error('Error loading notes changed in another tab:', err);
+      }
+    });
+  }, [userId, syncNotes, editingNoteId]);
+
+  // Pick up the last sync time recorded by the leader tab
+  useEffect(() => {
+    if (!userId) return;
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === lastSyncedKey(userId) && e.newValue) {
+        setLastSyncedAt(Number(e.newValue));
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [userId]);
+
+  const createNote = (notebookId: string | null = null): Note => {
     const newNote: Note = {
-      id: Date.now().toString(),
+      id: createId(),
       title: 'Untitled Note',
       content: '',
       createdAt: Date.now(),
       updatedAt: Date.now(),
+      notebookId,
+      deviceId: device.getDeviceId()
     };
     
-    // Add initial version
-    const noteWithVersion = addVersion(newNote, 'created');
-    
     // Optimistically update UI
-    setNotes(prevNotes => [noteWithVersion, ...prevNotes]);
+    setNotes(prevNotes => [newNote, ...prevNotes]);
     
     // Save to IndexedDB immediately (works offline)
     if (userId) {
-      saveNoteToIndexedDB(noteWithVersion, userId).catch(err => {
-        console.error('Error saving to IndexedDB:', err);
-        setError('Failed to save note locally');
+      local.saveNote(newNote, userId)
+        .then(() => broadcastToTabs({ type: 'notes-changed', noteIds: [newNote.id] }))
+        .catch(err => {
+          console.error('Error saving to IndexedDB:', err);
+          setError('Failed to save note locally');
+        });
+
+      // Add initial version
+      recordVersion(stores, userId, newNote, 'created', canSync).catch(err => {
+        console.error('Error recording version:', err);
       });
 
       // If online, save to Firebase
-      if (isOnline) {
-        saveNoteToFirebase(userId, noteWithVersion).catch(err => {
-          console.error('Error saving to Firebase:', err);
-          // Add to sync queue for later
-          addToSyncQueue('create', noteWithVersion.id, noteWithVersion);
-        });
+      if (canSync) {
+        trackInFlight(newNote.id, () => remote.saveNote(userId, newNote))
+          .then(() => recordSynced(stores, userId, newNote))
+          .then(recordSyncSuccess)
+          .catch(err => {
+            console.error('Error saving to Firebase:', err);
+            recordSyncError(`Create note "${newNote.title}"`, err, newNote.id);
+            // Add to sync queue for later
+            local.addToSyncQueue('create', newNote.id, newNote);
+          });
       } else {
         // Add to sync queue for when we're back online
-        addToSyncQueue('create', noteWithVersion.id, noteWithVersion);
+        local.addToSyncQueue('create', newNote.id, newNote);
       }
     }
     
-    return noteWithVersion;
+    return newNote;
+  };
+
+  // Save a prepared note locally, then to Firebase or the sync queue
+  const persistNote = async (noteToSave: Note): Promise<void> => {
+    if (!userId) return;
+
+    // Save to IndexedDB immediately (works offline)
+    await local.saveNote(noteToSave, userId);
+    broadcastToTabs({ type: 'notes-changed', noteIds: [noteToSave.id] });
+
+    // Unresolved conflicts stay local so the other device's edits aren't overwritten
+    if (noteToSave.conflict) return;
+
+    // If online, save to Firebase
+    if (canSync) {
+      try {
+        await trackInFlight(noteToSave.id, () => remote.saveNote(userId, noteToSave));
+        await recordSynced(stores, userId, noteToSave);
+        recordSyncSuccess();
+      } catch (err) {
+        console.error('Error saving to Firebase:', err);
+        recordSyncError(`Update note "${noteToSave.title}"`, err, noteToSave.id);
+        // Add to sync queue for later
+        await local.addToSyncQueue('update', noteToSave.id, noteToSave);
+      }
+    } else {
+      // Add to sync queue for when we're back online
+      await local.addToSyncQueue('update', noteToSave.id, noteToSave);
+    }
   };
 
-  const updateNote = async (updatedNote: Note): Promise<void> => {
+  const updateNote = async (
+    updatedNote: Note,
+    changeType: VersionChangeType = 'edited',
+    restoredHunks?: RestoredHunk[]
+  ): Promise<void> => {
     if (!userId) return;
 
     // Mark note as being edited to prevent Firebase overwrites
     setEditingNoteId(updatedNote.id);
 
-    // Add version snapshot before saving
-    const noteWithVersion = addVersion(
-      { ...updatedNote, updatedAt: Date.now() },
-      'edited'
-    );
+    const noteWithVersion = { ...updatedNote, updatedAt: Date.now(), deviceId: device.getDeviceId() };
 
     // Optimistically update UI
     setNotes(prevNotes => 
@@ -300,22 +476,16 @@ export const useNotes = (userId: string | null): UseNotesReturn => {
     );
 
     try {
-      // Save to IndexedDB immediately (works offline)
-      await saveNoteToIndexedDB(noteWithVersion, userId);
+      // Sync metadata in IndexedDB is fresher than the editor's copy
+      const storedNote = await local.getNote(noteWithVersion.id);
+      await persistNote({
+        ...noteWithVersion,
+        syncBase: storedNote?.syncBase ?? noteWithVersion.syncBase,
+        conflict: storedNote?.conflict
+      });
 
-      // If online, save to Firebase
-      if (isOnline) {
-        try {
-          await saveNoteToFirebase(userId, noteWithVersion);
-        } catch (err) {
-          console.error('Error saving to Firebase:', err);
-          // Add to sync queue for later
-          await addToSyncQueue('update', noteWithVersion.id, noteWithVersion);
-        }
-      } else {
-        // Add to sync queue for when we're back online
-        await addToSyncQueue('update', noteWithVersion.id, noteWithVersion);
-      }
+      // Snapshot into history, stored apart from the note
+      await recordVersion(stores, userId, noteWithVersion, changeType, canSync, restoredHunks);
       
       setError(null);
     } catch (err: any) {
@@ -331,32 +501,83 @@ export const useNotes = (userId: string | null): UseNotesReturn => {
     }
   };
 
-  const deleteNote = async (noteId: string): Promise<void> => {
+  const resolveConflict = async (noteId: string, title: string, content: string): Promise<Note | null> => {
+    if (!userId) return null;
+
+    const storedNote = await local.getNote(noteId);
+    if (!storedNote?.conflict) return null;
+
+    // The resolution already contains the cloud copy, so that becomes the new base
+    const resolvedNote: Note = {
+      ...storedNote,
+      title,
+      content,
+      updatedAt: Date.now(),
+      syncBase: storedNote.conflict.remote,
+      conflict: undefined
+    };
+
+    setNotes(prevNotes =>
+      prevNotes.map(note => note.id === noteId ? resolvedNote : note)
+    );
+
+    try {
+      await persistNote(resolvedNote);
+      await recordVersion(stores, userId, resolvedNote, 'edited', canSync);
+      setError(null);
+    } catch (err: any) {
+      console.error('Error resolving conflict:', err);
+      setError(err.message);
+      await refreshNotes();
+    }
+
+    return resolvedNote;
+  };
+
+  const createCheckpoint = async (note: Note, label: string): Promise<void> => {
+    if (!userId) return;
+
+    try {
+      await recordCheckpoint(stores, userId, note, label, canSync);
+      setError(null);
+    } catch (err: any) {
+      console.error('Error creating checkpoint:', err);
+      setError('Failed to create checkpoint');
+    }
+  };
+
+  const deleteNote = useCallback(async (noteId: string): Promise<void> => {
     if (!userId) return;
 
     // Store deleted note for rollback
-    const deletedNote = notes.find(n => n.id === noteId);
+    const deletedNote = notesRef.current.find(n => n.id === noteId);
     
     // Optimistically update UI
     setNotes(prevNotes => prevNotes.filter(note => note.id !== noteId));
 
     try {
-      // Delete from IndexedDB immediately (works offline)
-      await deleteNoteFromIndexedDB(noteId);
+      // Delete from IndexedDB immediately (works offline), tombstone first so
+      // a cloud update arriving in between can't bring the note back
+      const tombstone = createTombstone(noteId, device.getDeviceId());
+      await local.saveTombstones([tombstone], userId);
+      await local.deleteNote(noteId);
+      broadcastToTabs({ type: 'notes-changed', noteIds: [noteId] });
 
       // If online, delete from Firebase immediately and wait for completion
-      if (isOnline) {
+      if (canSync) {
         try {
-          await deleteNoteFromFirebase(userId, noteId);
+          await remote.deleteNote(userId, tombstone);
           console.log(`Note ${noteId} deleted from Firebase`);
+          recordSyncSuccess();
         } catch (err) {
           console.error('Error deleting from Firebase:', err);
+          recordSyncError(`Delete note "${deletedNote?.title || noteId}"`, err);
           // Add to sync queue for later
-          await addToSyncQueue('delete', noteId);
+          await local.addToSyncQueue('delete', noteId);
         }
       } else {
         // Add to sync queue for when we're back online
-        await addToSyncQueue('delete', noteId);
+        await local.addToSyncQueue('delete', noteId);
       }
       
       setError(null);
@@ -368,45 +589,75 @@ export const useNotes = (userId: string | null): UseNotesReturn => {
         setNotes(prevNotes => [...prevNotes, deletedNote]);
       }
     }
+  }, [userId, stores, canSync, recordSyncSuccess, recordSyncError]);
+
+  // Move a note into or out of the trash; its content and history stay as they are
+  const setNoteTrashed = async (noteId: string, changes: Partial<Note>): Promise<void> => {
+    if (!userId) return;
+
+    try {
+      const storedNote = await local.getNote(noteId);
+      if (!storedNote) return;
+
+      const updatedNote: Note = { ...storedNote, ...changes, updatedAt: Date.now(), deviceId: device.getDeviceId() };
+      setNotes(prevNotes => prevNotes.map(note => note.id === noteId ? updatedNote : note));
+      await persistNote(updatedNote);
+      setError(null);
+    } catch (err: any) {
+      console.error('Error updating trash:', err);
+      setError(err.message);
+      await refreshNotes();
+    }
   };
 
+  const trashNote = (noteId: string): Promise<void> => {
+    return setNoteTrashed(noteId, { trashedAt: Date.now() });
+  };
+
+  const restoreNote = (noteId: string, notebookId: string | null): Promise<void> => {
+    return setNoteTrashed(noteId, { trashedAt: undefined, notebookId });
+  };
+
+  const emptyTrash = async (): Promise<void> => {
+    for (const note of notes.filter(n => n.trashedAt)) {
+      await deleteNote(note.id);
+    }
+  };
+
+  useEffect(() => {
+    notesRef.current = notes;
+  }, [notes]);
+
+  // Purge notes that have been in the trash too long, once notes have loaded and then periodically,
+  // so a tab left open for days still purges them
+  useEffect(() => {
+    if (!userId || loading || !isSyncLeader) return;
+
+    const purgeExpiredTrash = () => {
+      getExpiredTrash(notesRef.current).forEach(note => {
+        deleteNote(note.id).catch(err => console.error('Error purging trashed note:', err));
+      });
+    };
+
+    purgeExpiredTrash();
+    const interval = setInterval(purgeExpiredTrash, TRASH_PURGE_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [userId, loading, isSyncLeader, deleteNote]);
+
+  const liveNotes = useMemo(() => notes.filter(note => !note.trashedAt), [notes]);
+  const trashedNotes = useMemo(() => notes.filter(note => note.trashedAt), [notes]);
+
   const refreshNotes = async (): Promise<void> => {
     if (!userId) return;
 
     try {
       // Load from IndexedDB first (source of truth)
-      const localNotes = await getNotesFromIndexedDB(userId);
+      const localNotes = await local.getNotes(userId);
       setNotes(localNotes);
 
-      // If online, merge with Firebase but respect local deletions
-      if (isOnline) {
-        const firebaseNotes = await loadNotesFromFirebase(userId);
-        const localNoteIds = new Set(localNotes.map(n => n.id));
-        
-        // Filter out notes that have been deleted locally
-        const validFirebaseNotes = firebaseNotes.filter(fn => localNoteIds.has(fn.id));
-        
-        // Merge, preferring Firebase if it has newer versions
-        const mergedNotes = localNotes.map(localNote => {
-          const firebaseNote = validFirebaseNotes.find(fn => fn.id === localNote.id);
-          
-          if (firebaseNote) {
-            const localTimestamp = localNote.updatedAt || localNote.createdAt;
-            const firebaseTimestamp = firebaseNote.updatedAt || firebaseNote.createdAt;
-            
-            // Use Firebase version if it's newer or equal
-            return firebaseTimestamp >= localTimestamp ? firebaseNote : localNote;
-          }
-          
-          return localNote;
-        });
-        
-        setNotes(mergedNotes);
-        
-        // Update IndexedDB with merged results
-        for (const note of mergedNotes) {
-          await saveNoteToIndexedDB(note, userId);
-        }
+      // If online, merge what changed in Firebase, leaving out deleted notes
+      if (canSync) {
+        await pullChanges();
       }
       
       setError(null);
@@ -417,14 +668,26 @@ export const useNotes = (userId: string | null): UseNotesReturn => {
   };
 
   return {
-    notes,
+    notes: liveNotes,
+    trashedNotes,
     loading,
     error,
     isOnline,
     isSyncing,
+    isSyncLeader,
+    editedInOtherTabs,
+    otherTabChange,
+    inFlightNoteIds,
+    lastSyncedAt,
+    syncErrors,
     createNote,
     updateNote,
+    resolveConflict,
+    createCheckpoint,
+    trashNote,
+    restoreNote,
     deleteNote,
+    emptyTrash,
     refreshNotes,
     syncNotes,
     setEditingNote: setEditingNoteId
@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react';
+import { Note, Notebook, SavedSearch } from '../types';
+import { noteStores } from '../config/storage';
+import {
+  saveSavedSearchToIndexedDB,
+  getSavedSearchesFromIndexedDB,
+  deleteSavedSearchFromIndexedDB,
+  addSavedSearchToSyncQueue
+} from '../utils/indexedDB';
+import { useSyncedRecords, SyncedRecordSource } from './useSyncedRecords';
+import { runSearchQuery } from './useNoteSearch';
+import { generateSavedSearchId, sortSavedSearches, reorderSavedSearches } from '../utils/savedSearches';
+import { parseSearchQuery } from '../utils/searchQuery';
+
+const COUNT_DEBOUNCE_MS = 300;
+
+const { remote } = noteStores;
+
+const savedSearchSource: SyncedRecordSource<SavedSearch> = {
+  name: 'saved search',
+  getLocal: getSavedSearchesFromIndexedDB,
+  saveLocal: saveSavedSearchToIndexedDB,
+  deleteLocal: deleteSavedSearchFromIndexedDB,
+  loadRemote: userId => remote.loadSavedSearches(userId),
+  saveRemote: (userId, savedSearch) => remote.saveSavedSearch(userId, savedSearch),
+  subscribeToRemote: (userId, callback) => remote.subscribeToSavedSearches(userId, callback),
+  addToSyncQueue: addSavedSearchToSyncQueue,
+  getQueuedRecordId: item => (item.entity === 'savedSearch' ? item.savedSearchId : null),
+  sort: sortSavedSearches
+};
+
+interface UseSavedSearchesReturn {
+  savedSearches: SavedSearch[];
+  createSavedSearch: (name: string, query: string) => Promise<SavedSearch>;
+  updateSavedSearch: (savedSearchId: string, changes: Pick<SavedSearch, 'name' | 'query'>) => Promise<void>;
+  moveSavedSearch: (savedSearchId: string, targetIndex: number) => Promise<void>;
+  deleteSavedSearch: (savedSearchId: string) => Promise<void>;
+}
+
+export const useSavedSearches = (userId: string | null): UseSavedSearchesReturn => {
+  const {
+    records: savedSearches,
+    setRecords: setSavedSearches,
+    persistRecord: persistSavedSearch,
+    deleteRecord
+  } = useSyncedRecords(userId, savedSearchSource);
+
+  const createSavedSearch = async (name: string, query: string): Promise<SavedSearch> => {
+    const now = Date.now();
+    const savedSearch: SavedSearch = {
+      id: generateSavedSearchId(),
+      name: name.trim() || query.trim(),
+      query: query.trim(),
+      position: savedSearches.length > 0 ? Math.max(...savedSearches.map(ss => ss.position)) + 1 : 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    setSavedSearches(prev => [...prev, savedSearch]);
+    await persistSavedSearch(savedSearch, 'create');
+    return savedSearch;
+  };
+
+  const updateSavedSearch = async (
+    savedSearchId: string,
+    changes: Pick<SavedSearch, 'name' | 'query'>
+  ): Promise<void> => {
+    const savedSearch = savedSearches.find(ss => ss.id === savedSearchId);
+    if (!savedSearch || !changes.query.trim()) return;
+
+    const updatedSavedSearch = {
+      ...savedSearch,
+      name: changes.name.trim() || changes.query.trim(),
+      query: changes.query.trim(),
+      updatedAt: Date.now()
+    };
+    setSavedSearches(prev => prev.map(ss => (ss.id === savedSearchId ? updatedSavedSearch : ss)));
+    await persistSavedSearch(updatedSavedSearch, 'update');
+  };
+
+  const moveSavedSearch = async (savedSearchId: string, targetIndex: number): Promise<void> => {
+    const changed = reorderSavedSearches(savedSearches, savedSearchId, targetIndex);
+    if (changed.length === 0) return;
+
+    const changedById = new Map(changed.map(ss => [ss.id, ss]));
+    setSavedSearches(prev => sortSavedSearches(prev.map(ss => changedById.get(ss.id) || ss)));
+    for (const savedSearch of changed) {
+      await persistSavedSearch(savedSearch, 'update');
+    }
+  };
+
+  const deleteSavedSearch = async (savedSearchId: string): Promise<void> => {
+    const savedSearch = savedSearches.find(ss => ss.id === savedSearchId);
+    if (!savedSearch) return;
+
+    await deleteRecord(savedSearch);
+  };
+
+  return {
+    savedSearches,
+    createSavedSearch,
+    updateSavedSearch,
+    moveSavedSearch,
+    deleteSavedSearch
+  };
+};
+
+/**
+ * Live match counts for saved searches, recomputed as notes change.
+ * Searches whose query no longer parses count as null.
+ */
+export const useSavedSearchCounts = (
+  userId: string | null,
+  savedSearches: SavedSearch[],
+  notes: Note[],
+  notebooks: Notebook[]
+): Record<string, number | null> => {
+  const [counts, setCounts] = useState<Record<string, number | null>>({});
+
+  useEffect(() => {
+    if (!userId || savedSearches.length === 0) {
+      setCounts({});
+      return;
+    }
+
+    let cancelled = false;
+    const handler = setTimeout(async () => {
+      const nextCounts: Record<string, number | null> = {};
+      for (const savedSearch of savedSearches) {
+        const parsed = parseSearchQuery(savedSearch.query);
+        if (parsed.error || !parsed.ast) {
+          nextCounts[savedSearch.id] = parsed.error ? null : notes.length;
+          continue;
+        }
+        try {
+          nextCounts[savedSearch.id] = (await runSearchQuery(userId, parsed.ast, notes, notebooks)).length;
+        } catch (err) {
+          console.error(`Error counting saved search ${savedSearch.id}:`, err);
+          nextCounts[savedSearch.id] = null;
+        }
+      }
+      if (!cancelled) {
+        setCounts(nextCounts);
+      }
+    }, COUNT_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(handler);
+    };
+  }, [userId, savedSearches, notes, notebooks]);
+
+  return counts;
+};
@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+import { requestSyncLeadership } from '../utils/tabSync';
+
+/**
+ * Whether this tab is the one that syncs with the cloud. Other tabs work against
+ * IndexedDB and leave the sync queue to the leader; one of them takes over when it closes.
+ */
+export const useSyncLeader = (): boolean => {
+  const [isLeader, setIsLeader] = useState(false);
+
+  useEffect(() => {
+    const release = requestSyncLeadership(() => setIsLeader(true));
+    return () => {
+      release();
+      setIsLeader(false);
+    };
+  }, []);
+
+  return isLeader;
+};
@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { NoteSyncState } from '../types';
+import {
+  getSyncQueue,
+  getDeadLetters,
+  retryDeadLetter,
+  discardDeadLetter,
+  subscribeToSyncQueue,
+  SyncQueueItem,
+  DeadLetterItem
+} from '../utils/indexedDB';
+import { getNoteSyncStates } from '../utils/syncStatus';
+
+interface UseSyncStatusReturn {
+  pending: SyncQueueItem[];
+  deadLetters: DeadLetterItem[];
+  noteSyncStates: Map<string, NoteSyncState>;
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * The sync queue and the operations that ran out of retries, kept current as the queue changes,
+ * plus the resulting sync state of each note.
+ * `onRequeue` runs after an item goes back into the queue, e.g. to sync right away.
+ */
+export const useSyncStatus = (inFlightNoteIds: Set<string>, onRequeue?: () => void): UseSyncStatusReturn => {
+  const [pending, setPending] = useState<SyncQueueItem[]>([]);
+  const [deadLetters, setDeadLetters] = useState<DeadLetterItem[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [queue, failed] = await Promise.all([getSyncQueue(), getDeadLetters()]);
+      setPending(queue.sort((a, b) => a.timestamp - b.timestamp));
+      setDeadLetters(failed.sort((a, b) => b.failedAt - a.failedAt));
+    } catch (err) {
+      console.error('Error loading sync status:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToSyncQueue(refresh);
+  }, [refresh]);
+
+  const noteSyncStates = useMemo(
+    () => getNoteSyncStates(pending, deadLetters, inFlightNoteIds),
+    [pending, deadLetters, inFlightNoteIds]
+  );
+
+  const retry = async (id: string): Promise<void> => {
+    await retryDeadLetter(id);
+    onRequeue?.();
+  };
+
+  const discard = async (id: string): Promise<void> => {
+    await discardDeadLetter(id);
+  };
+
+  return { pending, deadLetters, noteSyncStates, retry, discard, refresh };
+};
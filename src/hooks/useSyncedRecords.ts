@@ -0,0 +1,206 @@
+import { useState, useEffect, Dispatch, SetStateAction } from 'react';
+import { SyncOperation, SyncQueueItem, getSyncQueue } from '../utils/indexedDB';
+import { useNetworkStatus } from './useNetworkStatus';
+
+/**
+ * A record kept whole in IndexedDB and in the cloud, newest copy winning. Deleting one
+ * sets deletedAt, and the deleted copy syncs like any other change.
+ */
+export interface SyncedRecord {
+  id: string;
+  updatedAt: number;
+  deletedAt?: number;
+}
+
+/**
+ * Where a kind of synced record is stored locally, in the cloud and in the sync queue
+ */
+export interface SyncedRecordSource<T extends SyncedRecord> {
+  // What the records are called in log messages, e.g. 'notebook'
+  name: string;
+  getLocal: (userId: string) => Promise<T[]>;
+  saveLocal: (record: T, userId: string) => Promise<void>;
+  deleteLocal: (recordId: string) => Promise<void>;
+  loadRemote: (userId: string) => Promise<T[]>;
+  saveRemote: (userId: string, record: T) => Promise<void>;
+  subscribeToRemote: (userId: string, callback: (records: T[]) => void) => () => void;
+  addToSyncQueue: (operation: SyncOperation, recordId: string, record?: T) => Promise<void>;
+  // The ID of the record a queued operation is for, or null if it's for something else
+  getQueuedRecordId: (item: SyncQueueItem) => string | null;
+  // Display order; defaults to the order they were loaded in
+  sort?: (records: T[]) => T[];
+}
+
+/**
+ * Records created on this device whose create hasn't reached the cloud yet
+ */
+const getQueuedCreates = async <T extends SyncedRecord>(source: SyncedRecordSource<T>): Promise<Set<string>> => {
+  const queued = new Set<string>();
+  (await getSyncQueue()).forEach(item => {
+    const recordId = source.getQueuedRecordId(item);
+    if (recordId && item.operation === 'create') {
+      queued.add(recordId);
+    }
+  });
+  return queued;
+};
+
+/**
+ * Merge local and cloud records, keeping the most recently updated copy of each. A local record
+ * the cloud doesn't have was deleted there, unless its create is still queued, so it's dropped.
+ */
+const mergeSyncedRecords = <T extends SyncedRecord>(
+  localRecords: T[],
+  remoteRecords: T[],
+  queuedCreates: Set<string>
+): { records: T[]; dropped: string[] } => {
+  const mergedMap = new Map<string, T>(remoteRecords.map(record => [record.id, record]));
+  const dropped: string[] = [];
+
+  localRecords.forEach(localRecord => {
+    const remoteRecord = mergedMap.get(localRecord.id);
+    if (!remoteRecord) {
+      if (queuedCreates.has(localRecord.id)) {
+        mergedMap.set(localRecord.id, localRecord);
+      } else {
+        dropped.push(localRecord.id);
+      }
+    } else if (localRecord.updatedAt > remoteRecord.updatedAt) {
+      mergedMap.set(localRecord.id, localRecord);
+    }
+  });
+
+  return { records: Array.from(mergedMap.values()), dropped };
+};
+
+interface UseSyncedRecordsReturn<T extends SyncedRecord> {
+  // Records that aren't deleted
+  records: T[];
+  setRecords: Dispatch<SetStateAction<T[]>>;
+  // Save a record locally, then to the cloud or the sync queue
+  persistRecord: (record: T, operation: 'create' | 'update') => Promise<void>;
+  deleteRecord: (record: T) => Promise<void>;
+}
+
+/**
+ * Load a user's records from IndexedDB, then keep them in sync with the cloud while online.
+ * The source should be a module-level constant, so it doesn't restart the sync on every render.
+ */
+export const useSyncedRecords = <T extends SyncedRecord>(
+  userId: string | null,
+  source: SyncedRecordSource<T>
+): UseSyncedRecordsReturn<T> => {
+  const [records, setRecords] = useState<T[]>([]);
+  const isOnline = useNetworkStatus();
+
+  useEffect(() => {
+    if (!userId) {
+      setRecords([]);
+      return;
+    }
+
+    const showRecords = (allRecords: T[]) => {
+      const live = allRecords.filter(record => !record.deletedAt);
+      setRecords(source.sort ? source.sort(live) : live);
+    };
+
+    source.getLocal(userId)
+      .then(showRecords)
+      .catch(err => console.error(`Error loading ${source.name}s from IndexedDB:`, err));
+
+    if (!isOnline) return;
+
+    // Store the merge locally; returns the records, and the ones that are newer here than in the cloud
+    const applyRemoteRecords = async (remoteRecords: T[]): Promise<{ records: T[]; toUpload: T[] }> => {
+      const { records: mergedRecords, dropped } = mergeSyncedRecords(
+        await source.getLocal(userId),
+        remoteRecords,
+        await getQueuedCreates(source)
+      );
+
+      for (const recordId of dropped) {
+        await source.deleteLocal(recordId);
+      }
+      for (const record of mergedRecords) {
+        await source.saveLocal(record, userId);
+      }
+
+      const remoteById = new Map(remoteRecords.map(record => [record.id, record]));
+      const toUpload = mergedRecords.filter(record => {
+        const remoteRecord = remoteById.get(record.id);
+        return !remoteRecord || record.updatedAt > remoteRecord.updatedAt;
+      });
+      return { records: mergedRecords, toUpload };
+    };
+
+    const syncWithRemote = async () => {
+      try {
+        const { records: mergedRecords, toUpload } = await applyRemoteRecords(await source.loadRemote(userId));
+
+        // Upload records that are newer locally or were created offline
+        for (const record of toUpload) {
+          await source.saveRemote(userId, record);
+        }
+
+        showRecords(mergedRecords);
+      } catch (err) {
+        console.error(`Error syncing ${source.name}s with the cloud:`, err);
+      }
+    };
+
+    syncWithRemote();
+
+    const unsubscribe = source.subscribeToRemote(userId, async (remoteRecords) => {
+      try {
+        showRecords((await applyRemoteRecords(remoteRecords)).records);
+      } catch (err) {
+        console.error(`Error applying ${source.name} changes from the cloud:`, err);
+      }
+    });
+
+    return () => unsubscribe();
+  }, [userId, isOnline, source]);
+
+  const persistRecord = async (record: T, operation: 'create' | 'update'): Promise<void> => {
+    if (!userId) return;
+
+    await source.saveLocal(record, userId);
+
+    if (isOnline) {
+      try {
+        await source.saveRemote(userId, record);
+      } catch (err) {
+        console.error(`Error saving ${source.name} to the cloud:`, err);
+        await source.addToSyncQueue(operation, record.id, record);
+      }
+    } else {
+      await source.addToSyncQueue(operation, record.id, record);
+    }
+  };
+
+  /**
+   * Mark a record deleted, so other devices delete their copies when they sync
+   */
+  const deleteRecord = async (record: T): Promise<void> => {
+    if (!userId) return;
+
+    const now = Date.now();
+    const deletedRecord: T = { ...record, deletedAt: now, updatedAt: now };
+    setRecords(prev => prev.filter(r => r.id !== record.id));
+
+    await source.saveLocal(deletedRecord, userId);
+
+    if (isOnline) {
+      try {
+        await source.saveRemote(userId, deletedRecord);
+      } catch (err) {
+        console.error(`Error deleting ${source.name} from the cloud:`, err);
+        await source.addToSyncQueue('delete', record.id, deletedRecord);
+      }
+    } else {
+      await source.addToSyncQueue('delete', record.id, deletedRecord);
+    }
+  };
+
+  return { records, setRecords, persistRecord, deleteRecord };
+};
@@ -0,0 +1,70 @@
+import { useState, useEffect, useMemo } from 'react';
+import { broadcastToTabs, subscribeToTabs } from '../utils/tabSync';
+
+// How often a tab repeats which note it's editing, and when others stop believing it
+const HEARTBEAT_INTERVAL = 5000;
+const PRESENCE_TIMEOUT = 12000;
+
+/**
+ * Tell other tabs which note this tab is editing, and return the notes being edited elsewhere.
+ * A tab counts as editing a note until it goes quiet, so pauses between autosaves don't flicker.
+ */
+export const useTabPresence = (editingNoteId: string | null): Set<string> => {
+  const [otherTabs, setOtherTabs] = useState<Map<string, { noteId: string; seenAt: number }>>(new Map());
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!editingNoteId) return;
+
+    broadcastToTabs({ type: 'editing', noteId: editingNoteId });
+    const heartbeat = setInterval(() => {
+      broadcastToTabs({ type: 'editing', noteId: editingNoteId });
+    }, HEARTBEAT_INTERVAL);
+    return () => clearInterval(heartbeat);
+  }, [editingNoteId]);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToTabs(message => {
+      if (message.type !== 'editing' && message.type !== 'tab-closed') return;
+
+      setOtherTabs(prev => {
+        const next = new Map(prev);
+        if (message.type === 'editing') {
+          next.set(message.tabId, { noteId: message.noteId, seenAt: Date.now() });
+        } else {
+          next.delete(message.tabId);
+        }
+        return next;
+      });
+      setNow(Date.now());
+    });
+
+    const announceClose = () => broadcastToTabs({ type: 'tab-closed' });
+    window.addEventListener('pagehide', announceClose);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('pagehide', announceClose);
+    };
+  }, []);
+
+  // Let tabs that went quiet time out
+  const hasOtherTabs = otherTabs.size > 0;
+  useEffect(() => {
+    if (!hasOtherTabs) return;
+
+    const expiry = setInterval(() => {
+      setNow(Date.now());
+      setOtherTabs(prev => new Map([...prev].filter(([, { seenAt }]) => Date.now() - seenAt < PRESENCE_TIMEOUT)));
+    }, HEARTBEAT_INTERVAL);
+    return () => clearInterval(expiry);
+  }, [hasOtherTabs]);
+
+  return useMemo(() => {
+    const editedElsewhere = new Set<string>();
+    otherTabs.forEach(({ noteId, seenAt }) => {
+      if (now - seenAt < PRESENCE_TIMEOUT) editedElsewhere.add(noteId);
+    });
+    return editedElsewhere;
+  }, [otherTabs, now]);
+};
@@ -1,15 +1,33 @@
 
 import React, { useState, useEffect } from 'react';
-import { Note } from '../types';
+import { Note, VersionChangeType, RestoredHunk } from '../types';
 import NoteCard from '../components/NoteCard';
 import NoteEditor from '../components/NoteEditor';
+import NotebookTree from '../components/NotebookTree';
+import TagFilter from '../components/TagFilter';
+import TagManager from '../components/TagManager';
+import SearchBox from '../components/SearchBox';
+import SavedSearchList from '../components/SavedSearchList';
+import TaskBoard from '../components/TaskBoard';
+import TrashView from '../components/TrashView';
+import SyncStatusPanel from '../components/SyncStatusPanel';
 import { PlusIcon } from '../components/icons/PlusIcon';
 import { SunIcon } from '../components/icons/SunIcon';
 import { MoonIcon } from '../components/icons/MoonIcon';
-import { SearchIcon } from '../components/icons/SearchIcon';
 import { LogoutIcon } from '../components/icons/LogoutIcon';
 import { useAuth } from '../hooks/useAuth';
 import { useNotes } from '../hooks/useNotes';
+import { useNotebooks } from '../hooks/useNotebooks';
+import { useNoteSearch } from '../hooks/useNoteSearch';
+import { useSavedSearches, useSavedSearchCounts } from '../hooks/useSavedSearches';
+import { useBacklinks } from '../hooks/useBacklinks';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { filterNotesByNotebook, countNotesByNotebook } from '../utils/notebooks';
+import { getTagCounts, filterNotesByTags, renameTagInNote, TagMatchMode } from '../utils/tags';
+import { extractCodeLanguages } from '../utils/codeBlocks';
+import { collectOpenTasks, setTaskChecked } from '../utils/tasks';
+import { resolveWikiLink, rewriteWikiLinks, normalizeLinkTarget } from '../utils/wikiLinks';
+import { getBacklinkIdsFromIndexedDB } from '../utils/indexedDB';
 
 interface DashboardProps {
   onShareNote: (note: Note) => Promise<string>;
@@ -20,10 +38,24 @@ interface DashboardProps {
 
 const Dashboard: React.FC<DashboardProps> = ({ onShareNote, onLogout, isDarkMode, toggleDarkMode }) => {
   const { user } = useAuth();
-  const { notes, loading, error, isOnline, isSyncing, createNote, updateNote: updateNoteInFirebase, deleteNote: deleteNoteFromFirebase, setEditingNote } = useNotes(user?.uid || null);
+  const { notes, loading, error, isOnline, isSyncing, isSyncLeader, editedInOtherTabs, otherTabChange, inFlightNoteIds, lastSyncedAt, syncErrors, createNote, updateNote: updateNoteInFirebase, resolveConflict, createCheckpoint, trashedNotes, trashNote, restoreNote, deleteNote: deleteNotePermanently, emptyTrash, setEditingNote, syncNotes } = useNotes(user?.uid || null);
+  const { pending, deadLetters, noteSyncStates, retry: retrySyncItem, discard: discardSyncItem } = useSyncStatus(inFlightNoteIds, syncNotes);
+  const { notebooks, createNotebook, renameNotebook, moveNotebook, deleteNotebook } = useNotebooks(user?.uid || null);
   const [activeNote, setActiveNote] = useState<Note | null>(null);
+  const [selectedNotebookId, setSelectedNotebookId] = useState<string | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagMatchMode, setTagMatchMode] = useState<TagMatchMode>('and');
+  const [showTagManager, setShowTagManager] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [showMobileEditor, setShowMobileEditor] = useState(false);
+  const [showTasks, setShowTasks] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showSyncPanel, setShowSyncPanel] = useState(false);
+  const [linkRename, setLinkRename] = useState<{ noteId: string; fromTitle: string; sourceIds: string[] } | null>(null);
+  const { matches: searchMatches, error: searchError } = useNoteSearch(user?.uid || null, searchTerm, notes, notebooks);
+  const { savedSearches, createSavedSearch, updateSavedSearch, moveSavedSearch, deleteSavedSearch } = useSavedSearches(user?.uid || null);
+  const savedSearchCounts = useSavedSearchCounts(user?.uid || null, savedSearches, notes, notebooks);
+  const backlinks = useBacklinks(user?.uid || null, activeNote, notes);
   const searchInputRef = React.useRef<HTMLInputElement>(null);
 
   // Keyboard shortcut for search (Ctrl+F or Cmd+F)
@@ -50,27 +82,184 @@ const Dashboard: React.FC<DashboardProps> = ({ onShareNote, onLogout, isDarkMode
     }
   }, [notes, activeNote]);
 
+  // Pick up merge conflicts detected in the background for the open note
+  useEffect(() => {
+    if (!activeNote) return;
+    const latest = notes.find(n => n.id === activeNote.id);
+    if (latest && latest.conflict?.detectedAt !== activeNote.conflict?.detectedAt) {
+      setActiveNote(latest);
+    }
+  }, [notes, activeNote]);
+
+  // Show changes saved in another tab in the open editor, unless it's being edited here. Waits
+  // until this tab's notes have the changed copy, then shows each change once.
+  const shownTabChangeRef = React.useRef<number | null>(null);
+  useEffect(() => {
+    if (!otherTabChange || shownTabChangeRef.current === otherTabChange.at) return;
+    if (!activeNote || !otherTabChange.noteIds.includes(activeNote.id)) return;
+
+    const latest = notes.find(n => n.id === activeNote.id);
+    if (!latest || latest.updatedAt === activeNote.updatedAt) return;
+
+    shownTabChangeRef.current = otherTabChange.at;
+    setActiveNote(latest);
+  }, [otherTabChange, notes, activeNote]);
+
   const createNewNote = () => {
-    const newNote = createNote();
+    const newNote = createNote(selectedNotebookId);
     setActiveNote(newNote);
+    setShowTasks(false);
     setShowMobileEditor(true); // Show editor on mobile
   };
 
-  const updateNote = async (updatedNote: Note) => {
-    await updateNoteInFirebase(updatedNote);
+  const updateNote = async (updatedNote: Note, changeType?: VersionChangeType, restoredHunks?: RestoredHunk[]) => {
+    const previous = notes.find(n => n.id === updatedNote.id);
+    // An edit here supersedes a change from another tab that hasn't been shown yet
+    shownTabChangeRef.current = otherTabChange?.at ?? null;
+    await updateNoteInFirebase(updatedNote, changeType, restoredHunks);
     setActiveNote(updatedNote);
+
+    if (previous && previous.title !== updatedNote.title) {
+      // Keep the title from before the first keystroke of an ongoing rename
+      const fromTitle = linkRename?.noteId === updatedNote.id ? linkRename.fromTitle : previous.title;
+      await offerLinkRewrite(updatedNote, fromTitle);
+    }
+  };
+
+  // Offer to rewrite [[links]] to a renamed note, unless another note still has the old title
+  const offerLinkRewrite = async (renamedNote: Note, fromTitle: string) => {
+    const otherNotes = notes.filter(n => n.id !== renamedNote.id);
+    if (!user || normalizeLinkTarget(fromTitle) === normalizeLinkTarget(renamedNote.title) || resolveWikiLink(otherNotes, fromTitle)) {
+      setLinkRename(null);
+      return;
+    }
+
+    const sourceIds = (await getBacklinkIdsFromIndexedDB(user.uid, fromTitle)).filter(id => id !== renamedNote.id);
+    setLinkRename(sourceIds.length > 0 ? { noteId: renamedNote.id, fromTitle, sourceIds } : null);
+  };
+
+  const handleRewriteLinks = async () => {
+    if (!linkRename || !activeNote) return;
+
+    for (const sourceId of linkRename.sourceIds) {
+      const source = notes.find(n => n.id === sourceId);
+      const content = source && rewriteWikiLinks(source.content, linkRename.fromTitle, activeNote.title);
+      if (source && content !== null) {
+        await updateNoteInFirebase({ ...source, content });
+      }
+    }
+    setLinkRename(null);
+  };
+
+  const openWikiLink = async (target: string) => {
+    const linkedNote = resolveWikiLink(notes, target);
+    if (linkedNote) {
+      handleNoteSelect(linkedNote);
+      return;
+    }
+
+    if (window.confirm(`There's no note called "${target}" yet. Create it?`)) {
+      const newNote = { ...createNote(selectedNotebookId), title: target };
+      await updateNoteInFirebase(newNote);
+      setActiveNote(newNote);
+    }
+  };
+
+  const handleResolveConflict = async (noteId: string, title: string, content: string) => {
+    const resolvedNote = await resolveConflict(noteId, title, content);
+    if (resolvedNote) {
+      setActiveNote(resolvedNote);
+    }
   };
 
   const deleteNote = async (noteId: string) => {
-    await deleteNoteFromFirebase(noteId);
+    await trashNote(noteId);
     if (activeNote?.id === noteId) {
-      setActiveNote(notes[0] || null);
+      setActiveNote(notes.find(n => n.id !== noteId) || null);
       setShowMobileEditor(false); // Go back to list on mobile
     }
   };
 
+  const handleMoveNote = async (noteId: string, notebookId: string | null) => {
+    const note = notes.find(n => n.id === noteId);
+    if (!note || (note.notebookId || null) === notebookId) return;
+
+    await updateNoteInFirebase({ ...note, notebookId });
+    setActiveNote(prev => (prev && prev.id === noteId ? { ...prev, notebookId } : prev));
+  };
+
+  const handleMoveNotebook = async (notebookId: string, parentId: string | null) => {
+    try {
+      await moveNotebook(notebookId, parentId);
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const handleDeleteNotebook = async (notebookId: string) => {
+    const notebook = notebooks.find(nb => nb.id === notebookId);
+    if (!notebook) return;
+
+    // Notes in the deleted notebook move up to its parent
+    for (const note of notes.filter(n => n.notebookId === notebookId)) {
+      await handleMoveNote(note.id, notebook.parentId);
+    }
+    await deleteNotebook(notebookId);
+
+    if (selectedNotebookId === notebookId) {
+      setSelectedNotebookId(notebook.parentId);
+    }
+  };
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+  };
+
+  // Rename or merge a tag on every note that uses it
+  const handleRenameTag = async (fromTag: string, toTag: string) => {
+    for (const note of notes) {
+      const renamedNote = renameTagInNote(note, fromTag, toTag);
+      if (renamedNote) {
+        await updateNoteInFirebase(renamedNote);
+        setActiveNote(prev => (prev && prev.id === note.id ? renamedNote : prev));
+      }
+    }
+    setSelectedTags(prev => Array.from(new Set(prev.map(tag => (tag === fromTag ? toTag : tag)))));
+  };
+
+  const handleToggleTask = async (noteId: string, line: number, checked: boolean) => {
+    const note = notes.find(n => n.id === noteId);
+    if (!note) return;
+
+    const content = setTaskChecked(note.content, line, checked);
+    if (content === note.content) return;
+
+    await updateNoteInFirebase({ ...note, content });
+    setActiveNote(prev => (prev && prev.id === noteId ? { ...prev, content } : prev));
+  };
+
+  const openTasks = () => {
+    setShowTasks(true);
+    setShowTrash(false);
+    setShowMobileEditor(true); // Show tasks on mobile
+  };
+
+  const openTrash = () => {
+    setShowTrash(true);
+    setShowTasks(false);
+    setShowMobileEditor(true); // Show trash on mobile
+  };
+
+  // Restore into the note's notebook, or All Notes if that notebook is gone
+  const handleRestoreNote = async (note: Note) => {
+    const notebookId = notebooks.some(nb => nb.id === note.notebookId) ? note.notebookId! : null;
+    await restoreNote(note.id, notebookId);
+  };
+
   const handleNoteSelect = (note: Note) => {
     setActiveNote(note);
+    setShowTasks(false);
+    setShowTrash(false);
     setShowMobileEditor(true); // Show editor on mobile
   };
 
@@ -78,9 +267,24 @@ const Dashboard: React.FC<DashboardProps> = ({ onShareNote, onLogout, isDarkMode
     setShowMobileEditor(false); // Go back to list on mobile
   };
 
-  const filteredNotes = notes
-    .filter(note => note.title.toLowerCase().includes(searchTerm.toLowerCase()) || note.content.toLowerCase().includes(searchTerm.toLowerCase()))
-    .sort((a, b) => b.createdAt - a.createdAt);
+  const notebookCounts = countNotesByNotebook(notes, notebooks);
+  const tagCounts = getTagCounts(notes);
+  const openTaskCount = collectOpenTasks(notes).reduce((sum, { tasks }) => sum + tasks.length, 0);
+  const codeLanguages = Array.from(new Set(notes.flatMap(note => extractCodeLanguages(note.content)))).sort();
+
+  const scopedNotes = filterNotesByTags(
+    filterNotesByNotebook(notes, notebooks, selectedNotebookId),
+    selectedTags,
+    tagMatchMode
+  );
+  const matchesById = new Map((searchMatches || []).map(match => [match.noteId, match]));
+
+  // Ranked by relevance while searching, newest first otherwise
+  const filteredNotes = searchMatches
+    ? scopedNotes
+        .filter(note => matchesById.has(note.id))
+        .sort((a, b) => matchesById.get(b.id)!.score - matchesById.get(a.id)!.score || b.createdAt - a.createdAt)
+    : [...scopedNotes].sort((a, b) => b.createdAt - a.createdAt);
 
   const clearSearch = () => {
     setSearchTerm('');
@@ -95,12 +299,16 @@ const Dashboard: React.FC<DashboardProps> = ({ onShareNote, onLogout, isDarkMode
           <div className="flex items-center space-x-2">
             <h1 className="text-lg md:text-xl font-bold text-primary-600 dark:text-primary-400">Smart Note</h1>
             {/* Online/Offline Indicator */}
-            <div className="hidden sm:flex items-center space-x-1">
-              <div className={`w-2 h-2 rounded-full ${isOnline ? 'bg-green-500' : 'bg-gray-400'}`}></div>
+            <button
+              onClick={() => setShowSyncPanel(true)}
+              className="hidden sm:flex items-center space-x-1 px-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+              title="Sync status"
+            >
+              <div className={`w-2 h-2 rounded-full ${deadLetters.length > 0 ? 'bg-red-500' : isOnline ? 'bg-green-500' : 'bg-gray-400'}`}></div>
               <span className="text-xs text-gray-500 dark:text-gray-400">
                 {isSyncing ? 'Syncing...' : isOnline ? 'Online' : 'Offline'}
               </span>
-            </div>
+            </button>
           </div>
           <div className="flex items-center space-x-1 sm:space-x-2">
              <button onClick={toggleDarkMode} className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" aria-label="Toggle dark mode">
@@ -112,33 +320,19 @@ const Dashboard: React.FC<DashboardProps> = ({ onShareNote, onLogout, isDarkMode
           </div>
         </div>
         <div className="p-3 sm:p-4">
-          <div className="relative">
-            <SearchIcon className="absolute w-4 h-4 sm:w-5 sm:h-5 text-gray-400 top-2 sm:top-2.5 left-3 pointer-events-none"/>
-            <input 
-              ref={searchInputRef}
-              type="text" 
-              placeholder="Search notes... (Ctrl+F)"
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full pl-9 sm:pl-10 pr-10 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 dark:placeholder-gray-400 transition-all"
-            />
-            {/* Clear button */}
-            {searchTerm && (
-              <button
-                onClick={clearSearch}
-                className="absolute right-3 top-2 sm:top-2.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
-                aria-label="Clear search"
-                title="Clear search (Esc)"
-              >
-                <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4 sm:w-5 sm:h-5" viewBox="0 0 20 20" fill="currentColor">
-                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                </svg>
-              </button>
-            )}
-          </div>
+          <SearchBox
+            value={searchTerm}
+            onChange={setSearchTerm}
+            onClear={clearSearch}
+            inputRef={searchInputRef}
+            error={searchError}
+            tags={tagCounts.map(({ tag }) => tag)}
+            notebooks={notebooks}
+            languages={codeLanguages}
+          />
           
           {/* Search Results Count */}
-          {searchTerm && (
+          {searchTerm && !searchError && (
             <div className="mt-2 px-2 text-xs text-gray-500 dark:text-gray-400">
               {filteredNotes.length === 0 ? (
                 <span className="text-orange-600 dark:text-orange-400">No notes found</span>
@@ -159,14 +353,51 @@ const Dashboard: React.FC<DashboardProps> = ({ onShareNote, onLogout, isDarkMode
             <span className="hidden sm:inline">Create New Note</span>
             <span className="sm:hidden">New Note</span>
           </button>
+
+          <button
+            onClick={openTasks}
+            className={`flex items-center justify-between w-full mt-2 px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+              showTasks
+                ? 'bg-primary-100 text-primary-700 dark:bg-primary-900/50 dark:text-primary-300'
+                : 'text-gray-700 bg-gray-100 hover:bg-gray-200 dark:text-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600'
+            }`}
+          >
+            <span>☑ Tasks</span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{openTaskCount}</span>
+          </button>
+
+          <button
+            onClick={openTrash}
+            className={`flex items-center justify-between w-full mt-2 px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+              showTrash
+                ? 'bg-primary-100 text-primary-700 dark:bg-primary-900/50 dark:text-primary-300'
+                : 'text-gray-700 bg-gray-100 hover:bg-gray-200 dark:text-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600'
+            }`}
+          >
+            <span>🗑 Trash</span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{trashedNotes.length}</span>
+          </button>
           
           {/* Online/Offline Indicator - Mobile only */}
-          <div className="flex sm:hidden items-center justify-center mt-2 space-x-1">
-            <div className={`w-2 h-2 rounded-full ${isOnline ? 'bg-green-500' : 'bg-gray-400'}`}></div>
+          <button
+            onClick={() => setShowSyncPanel(true)}
+            className="flex sm:hidden items-center justify-center w-full mt-2 space-x-1"
+          >
+            <div className={`w-2 h-2 rounded-full ${deadLetters.length > 0 ? 'bg-red-500' : isOnline ? 'bg-green-500' : 'bg-gray-400'}`}></div>
             <span className="text-xs text-gray-500 dark:text-gray-400">
               {isSyncing ? 'Syncing...' : isOnline ? 'Online' : 'Offline'}
             </span>
-          </div>
+          </button>
+
+          {/* Changes that gave up retrying */}
+          {deadLetters.length > 0 && (
+            <div className="flex items-center justify-between mt-3 sm:mt-4 p-2 sm:p-3 text-xs sm:text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-lg">
+              <span>⚠️ {deadLetters.length} {deadLetters.length === 1 ? 'change' : 'changes'} failed to sync</span>
+              <button onClick={() => setShowSyncPanel(true)} className="font-medium hover:underline">
+                Review
+              </button>
+            </div>
+          )}
           
           {/* Offline Notice */}
           {!isOnline && (
@@ -183,6 +414,38 @@ const Dashboard: React.FC<DashboardProps> = ({ onShareNote, onLogout, isDarkMode
             </div>
           )}
         </div>
+        <NotebookTree
+          notebooks={notebooks}
+          noteCounts={notebookCounts}
+          totalCount={notes.length}
+          selectedNotebookId={selectedNotebookId}
+          onSelect={setSelectedNotebookId}
+          onCreate={(parentId) => createNotebook('New Notebook', parentId)}
+          onRename={renameNotebook}
+          onMove={handleMoveNotebook}
+          onDelete={handleDeleteNotebook}
+          onMoveNote={handleMoveNote}
+        />
+        <SavedSearchList
+          savedSearches={savedSearches}
+          counts={savedSearchCounts}
+          currentQuery={searchTerm}
+          canSaveCurrent={!!searchTerm.trim() && !searchError && !savedSearches.some(ss => ss.query === searchTerm.trim())}
+          onSelect={setSearchTerm}
+          onSave={createSavedSearch}
+          onUpdate={updateSavedSearch}
+          onMove={moveSavedSearch}
+          onDelete={deleteSavedSearch}
+        />
+        <TagFilter
+          tagCounts={tagCounts}
+          selectedTags={selectedTags}
+          matchMode={tagMatchMode}
+          onToggleTag={toggleTag}
+          onMatchModeChange={setTagMatchMode}
+          onClear={() => setSelectedTags([])}
+          onManage={() => setShowTagManager(true)}
+        />
         <div className="flex-1 overflow-y-auto">
           {loading ? (
             <div className="flex items-center justify-center h-32">
@@ -195,12 +458,13 @@ const Dashboard: React.FC<DashboardProps> = ({ onShareNote, onLogout, isDarkMode
                 note={note} 
                 isActive={activeNote?.id === note.id} 
                 onClick={() => handleNoteSelect(note)}
-                searchTerm={searchTerm}
+                match={matchesById.get(note.id)}
+                syncState={noteSyncStates.get(note.id)}
               />
             ))
           ) : (
              <p className="px-4 text-xs sm:text-sm text-center text-gray-500">
-               {searchTerm ? 'No notes found.' : 'No notes yet. Create your first note!'}
+               {searchTerm ? 'No notes found.' : selectedNotebookId ? 'No notes in this notebook.' : 'No notes yet. Create your first note!'}
              </p>
           )}
         </div>
@@ -208,16 +472,48 @@ const Dashboard: React.FC<DashboardProps> = ({ onShareNote, onLogout, isDarkMode
 
       {/* Main Content - Full width on mobile when active */}
       <main className={`flex-1 ${showMobileEditor ? 'block' : 'hidden md:block'}`}>
-        {activeNote ? (
+        {showTasks ? (
+          <TaskBoard
+            notes={notes}
+            onToggleTask={handleToggleTask}
+            onOpenNote={handleNoteSelect}
+            onBack={handleBackToList}
+          />
+        ) : showTrash ? (
+          <TrashView
+            notes={trashedNotes}
+            notebooks={notebooks}
+            onRestore={handleRestoreNote}
+            onDeleteForever={deleteNotePermanently}
+            onEmptyTrash={emptyTrash}
+            onBack={handleBackToList}
+          />
+        ) : activeNote ? (
           <NoteEditor 
             key={activeNote.id}
             note={activeNote}
             onSave={updateNote}
             onDelete={deleteNote}
             onShare={onShareNote}
+            allTags={tagCounts.map(({ tag }) => tag)}
+            onResolveConflict={handleResolveConflict}
+            onCreateCheckpoint={createCheckpoint}
             onEditingChange={setEditingNote}
+            isEditedInAnotherTab={editedInOtherTabs.has(activeNote.id)}
             onBack={handleBackToList}
             isDarkMode={isDarkMode}
+            noteTitles={notes.map(n => n.title)}
+            backlinks={backlinks}
+            onOpenNote={handleNoteSelect}
+            onOpenWikiLink={openWikiLink}
+            isWikiLinkResolved={(target) => !!resolveWikiLink(notes, target)}
+            linkRenameOffer={
+              linkRename?.noteId === activeNote.id
+                ? { fromTitle: linkRename.fromTitle, count: linkRename.sourceIds.length }
+                : null
+            }
+            onRewriteLinks={handleRewriteLinks}
+            onDismissLinkRename={() => setLinkRename(null)}
           />
         ) : (
           <div className="flex flex-col items-center justify-center h-full text-gray-500 px-4">
@@ -227,6 +523,32 @@ const Dashboard: React.FC<DashboardProps> = ({ onShareNote, onLogout, isDarkMode
           </div>
         )}
       </main>
+
+      {showSyncPanel && (
+        <SyncStatusPanel
+          notes={notes}
+          isOnline={isOnline}
+          isSyncing={isSyncing}
+          isSyncLeader={isSyncLeader}
+          lastSyncedAt={lastSyncedAt}
+          pending={pending}
+          inFlightNoteIds={inFlightNoteIds}
+          syncErrors={syncErrors}
+          deadLetters={deadLetters}
+          onSyncNow={() => syncNotes(true)}
+          onRetry={retrySyncItem}
+          onDiscard={discardSyncItem}
+          onClose={() => setShowSyncPanel(false)}
+        />
+      )}
+
+      {showTagManager && (
+        <TagManager
+          tagCounts={tagCounts}
+          onRename={handleRenameTag}
+          onClose={() => setShowTagManager(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { DatabaseStatus } from '../types';
+import { downloadLatestDbBackup } from '../utils/dbBackup';
+
+interface DatabaseUpgradeScreenProps {
+  status: DatabaseStatus;
+  onRetry: (options?: { skipBackup?: boolean }) => void;
+}
+
+const DatabaseUpgradeScreen: React.FC<DatabaseUpgradeScreenProps> = ({ status, onRetry }) => {
+  const [backupMessage, setBackupMessage] = useState('');
+
+  const handleDownloadBackup = async () => {
+    try {
+      const found = await downloadLatestDbBackup();
+      setBackupMessage(found ? '' : 'No backup has been made yet.');
+    } catch (error) {
+      console.error('Error downloading backup:', error);
+      setBackupMessage('The backup could not be read.');
+    }
+  };
+
+  const renderBody = () => {
+    switch (status.state) {
+      case 'upgrading':
+        return (
+          <>
+            <div className="w-12 h-12 mx-auto mb-4 border-b-2 rounded-full animate-spin border-primary-600"></div>
+            <h2 className="mb-2 text-2xl font-bold text-gray-900 dark:text-white">Upgrading your offline data</h2>
+            <p className="text-gray-600 dark:text-gray-400">
+              Backing up and updating your notes from version {status.fromVersion} to {status.toVersion}. This only takes a moment.
+            </p>
+          </>
+        );
+      case 'blocked':
+        return (
+          <>
+            <h2 className="mb-2 text-2xl font-bold text-gray-900 dark:text-white">Close your other Smart Note tabs</h2>
+            <p className="text-gray-600 dark:text-gray-400">
+              Your offline data needs an upgrade, but another tab is still using the old version. Close or reload the
+              other tabs and this one will continue on its own.
+            </p>
+          </>
+        );
+      case 'failed':
+        return (
+          <>
+            <h2 className="mb-2 text-2xl font-bold text-gray-900 dark:text-white">Your offline data couldn't be opened</h2>
+            <p className="mb-6 text-gray-600 dark:text-gray-400">{status.message}</p>
+            <div className="flex flex-wrap justify-center gap-3">
+              {status.reason === 'newer' ? (
+                <button
+                  onClick={() => window.location.reload()}
+                  className="px-6 py-3 text-sm font-medium text-white rounded-lg bg-primary-600 hover:bg-primary-700"
+                >
+                  Reload
+                </button>
+              ) : (
+                <button
+                  onClick={() => onRetry()}
+                  className="px-6 py-3 text-sm font-medium text-white rounded-lg bg-primary-600 hover:bg-primary-700"
+                >
+                  Try again
+                </button>
+              )}
+              {status.reason === 'backup' && (
+                <button
+                  onClick={() => onRetry({ skipBackup: true })}
+                  className="px-6 py-3 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg dark:text-gray-300 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+                >
+                  Upgrade without a backup
+                </button>
+              )}
+              {status.reason === 'upgrade' && (
+                <button
+                  onClick={handleDownloadBackup}
+                  className="px-6 py-3 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg dark:text-gray-300 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+                >
+                  Download backup
+                </button>
+              )}
+            </div>
+            {backupMessage && <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">{backupMessage}</p>}
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-md p-8 text-center">{renderBody()}</div>
+    </div>
+  );
+};
+
+export default DatabaseUpgradeScreen;
@@ -1,7 +1,12 @@
 
 import React, { useEffect, useState } from 'react';
-import { Note } from '../types';
+import { Note, SharedNote } from '../types';
 import MarkdownRenderer from '../components/MarkdownRenderer';
+import {
+  saveSharedNoteToIndexedDB,
+  getSharedNoteFromIndexedDB,
+  deleteSharedNoteFromIndexedDB
+} from '../utils/indexedDB';
 
 interface SharedNoteViewProps {
   shareId?: string;
@@ -18,27 +23,44 @@ const SharedNoteView: React.FC<SharedNoteViewProps> = ({
   isUserLoggedIn,
   isDarkMode = false 
 }) => {
-  const [note, setNote] = useState<Note | null>(propNote || null);
+  const [note, setNote] = useState<SharedNote | null>(propNote || null);
   const [loading, setLoading] = useState(!propNote && !!shareId);
   const [error, setError] = useState<string | null>(null);
+  const [isSavedCopy, setIsSavedCopy] = useState(false);
 
   useEffect(() => {
     // If shareId is provided but no note, fetch from Firebase
     if (shareId && !propNote) {
+      // The copy kept from an earlier visit, for when Firebase can't be reached
+      const loadSavedCopy = async (): Promise<boolean> => {
+        const savedNote = await getSharedNoteFromIndexedDB(shareId).catch(() => null);
+        if (savedNote) {
+          setNote(savedNote);
+          setIsSavedCopy(true);
+        }
+        return !!savedNote;
+      };
+
       const loadSharedNote = async () => {
         try {
           setLoading(true);
+          if (!navigator.onLine && await loadSavedCopy()) return;
+
           const { getSharedNote } = await import('../utils/shareNote');
           const sharedNote = await getSharedNote(shareId);
           
           if (sharedNote) {
             setNote(sharedNote);
+            saveSharedNoteToIndexedDB(sharedNote).catch(err => console.error('Error saving shared note for offline use:', err));
           } else {
             setError('Note not found or no longer shared');
+            deleteSharedNoteFromIndexedDB(shareId).catch(err => console.error('Error removing unshared note:', err));
           }
         } catch (err: any) {
           console.error('Error loading shared note:', err);
-          setError('Failed to load note');
+          if (!await loadSavedCopy()) {
+            setError(navigator.onLine ? 'Failed to load note' : 'This note isn\'t available offline');
+          }
         } finally {
           setLoading(false);
         }
@@ -111,12 +133,32 @@ const SharedNoteView: React.FC<SharedNoteViewProps> = ({
                   <h1 className="text-4xl font-extrabold tracking-tight text-gray-900 dark:text-white">
                     {note.title}
                   </h1>
-                  {note.isShared && (
+                  {note.checkpoint ? (
+                    <span className="px-3 py-1 text-xs font-medium text-amber-700 bg-amber-100 rounded-full dark:bg-amber-900 dark:text-amber-300">
+                      Snapshot
+                    </span>
+                  ) : note.isShared && (
                     <span className="px-3 py-1 text-xs font-medium text-green-700 bg-green-100 rounded-full dark:bg-green-900 dark:text-green-300">
                       Shared
                     </span>
                   )}
                 </div>
+                {note.checkpoint && (
+                  <div className="mb-2 text-sm text-amber-700 dark:text-amber-300">
+                    📌 "{note.checkpoint.label}", as of {new Date(note.checkpoint.timestamp).toLocaleString('en-US', {
+                      year: 'numeric',
+                      month: 'long',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit'
+                    })}. Later changes to the note are not shown.
+                  </div>
+                )}
+                {isSavedCopy && (
+                  <div className="mb-2 text-sm text-gray-600 dark:text-gray-400">
+                    📴 You're offline, so this is the copy saved when you last opened this note. It may be out of date.
+                  </div>
+                )}
                 <div className="text-sm text-gray-500 dark:text-gray-400">
                     Published on {new Date(note.createdAt).toLocaleDateString('en-US', { 
                       year: 'numeric', 
@@ -0,0 +1,159 @@
+import { SERVICE_WORKER } from './config/serviceWorker';
+import { noteStores } from './config/storage';
+import { auth } from './config/firebase';
+import { flushSyncQueue } from './utils/syncQueue';
+import { getDeviceIdFromIndexedDB } from './utils/indexedDB';
+import { createMemoryDeviceStore } from './utils/device';
+
+// Filled in at build time by the service worker plugin in vite.config.ts
+declare const __PRECACHE_URLS__: string[];
+declare const __CACHE_VERSION__: string;
+
+// The parts of the service worker scope used here, which the DOM typings leave out
+interface ExtendableEvent extends Event {
+  waitUntil: (promise: Promise<unknown>) => void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  request: Request;
+  respondWith: (response: Promise<Response>) => void;
+}
+
+interface SyncEvent extends ExtendableEvent {
+  tag: string;
+}
+
+interface ServiceWorkerScope {
+  location: Location;
+  clients: {
+    matchAll: (options: { type: 'window' }) => Promise<readonly unknown[]>;
+    claim: () => Promise<void>;
+  };
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+  addEventListener(type: 'sync', listener: (event: SyncEvent) => void): void;
+}
+
+const worker = self as unknown as ServiceWorkerScope;
+
+const CACHE_NAME = `${SERVICE_WORKER.cachePrefix}${__CACHE_VERSION__}`;
+const precachedPaths = new Set(__PRECACHE_URLS__);
+
+/**
+ * Cache the app shell: index.html, the built scripts and styles, the manifest and icons
+ */
+const precacheShell = async (): Promise<void> => {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(__PRECACHE_URLS__);
+
+  // The app still loads these from the network if they can't be cached now
+  await Promise.all(SERVICE_WORKER.cdnAssets.map(url =>
+    fetch(url, { mode: 'no-cors' })
+      .then(response => cache.put(url, response))
+      .catch(error => console.error(`Error caching ${url}:`, error))
+  ));
+};
+
+/**
+ * Delete the shells of earlier builds. Runs once no tab uses them any more.
+ */
+const deleteOldCaches = async (): Promise<void> => {
+  const names = await caches.keys();
+  await Promise.all(names
+    .filter(name => name.startsWith(SERVICE_WORKER.cachePrefix) && name !== CACHE_NAME)
+    .map(name => caches.delete(name)));
+};
+
+/**
+ * Every page of the app, /note/:shareId included, is index.html. It comes from the network when
+ * there is one, so a new build shows up, and from the cache offline.
+ */
+const handleNavigation = async (request: Request): Promise<Response> => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const shell = await caches.match('/index.html', { cacheName: CACHE_NAME });
+    if (shell) return shell;
+    throw error;
+  }
+};
+
+/**
+ * Built files have hashed names, so a cached copy never goes stale
+ */
+const handlePrecached = async (request: Request): Promise<Response> => {
+  const cached = await caches.match(request, { cacheName: CACHE_NAME });
+  return cached ?? fetch(request);
+};
+
+/**
+ * CDN assets come from the cache at once and are refreshed from the network for next time
+ */
+const handleCdnAsset = async (request: Request): Promise<Response> => {
+  const cache = await caches.open(CACHE_NAME);
+  const refreshing = fetch(request).then(response => {
+    cache.put(request.url, response.clone());
+    return response;
+  });
+  const cached = await cache.match(request.url);
+  if (cached) {
+    refreshing.catch(error => console.error(`Error refreshing ${request.url}:`, error));
+    return cached;
+  }
+  return refreshing;
+};
+
+/**
+ * Send the due items of the sync queue, like the leader tab does when it comes back online.
+ * Throws if any failed, so the browser tries again later.
+ */
+const sendSyncQueue = async (): Promise<void> => {
+  // An open tab syncs the queue itself
+  const windows = await worker.clients.matchAll({ type: 'window' });
+  if (windows.length > 0) return;
+
+  await auth.authStateReady();
+  const user = auth.currentUser;
+  if (!user) return;
+
+  // There's no localStorage here, so the page saves its device ID to IndexedDB; sending the queue
+  // needs nothing else from it. Until a page has saved it, the queue waits for a tab.
+  const deviceId = await getDeviceIdFromIndexedDB();
+  if (!deviceId) return;
+
+  const { failures } = await flushSyncQueue({ ...noteStores, device: createMemoryDeviceStore(deviceId) }, user.uid);
+  if (failures > 0) {
+    throw new Error(`${failures} queued operations could not be synced`);
+  }
+};
+
+worker.addEventListener('install', event => {
+  event.waitUntil(precacheShell());
+});
+
+worker.addEventListener('activate', event => {
+  event.waitUntil(deleteOldCaches().then(() => worker.clients.claim()));
+});
+
+worker.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === worker.location.origin;
+
+  if (sameOrigin && request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (sameOrigin && precachedPaths.has(url.pathname)) {
+    event.respondWith(handlePrecached(request));
+  } else if (SERVICE_WORKER.cdnAssets.includes(request.url)) {
+    event.respondWith(handleCdnAsset(request));
+  }
+  // Anything else, Firebase and the sync server included, goes to the network as usual
+});
+
+worker.addEventListener('sync', event => {
+  if (event.tag === SERVICE_WORKER.syncTag) {
+    event.waitUntil(sendSyncQueue());
+  }
+});
@@ -1,10 +1,56 @@
+import type { SyncOperation, SyncQueueItem } from '../utils/indexedDB';
+
+export type VersionChangeType = 'created' | 'edited' | 'restored' | 'checkpoint';
+
+/**
+ * A change brought back from an older version by a partial restore.
+ * Lines are 1-based: the range taken from the version and the range of the note it replaced.
+ */
+export interface RestoredHunk {
+  versionId: string;
+  versionTimestamp: number;
+  versionStart: number;
+  versionLineCount: number;
+  noteStart: number;
+  noteLineCount: number;
+}
 
 export interface NoteVersion {
   id: string;
+  noteId: string;
   title: string;
   content: string;
+  tags?: string[];
   timestamp: number;
-  changeType?: 'created' | 'edited' | 'restored';
+  changeType?: VersionChangeType;
+  // For restored versions, which changes came from which versions
+  restoredHunks?: RestoredHunk[];
+  // Named checkpoint, kept regardless of the retention policy
+  label?: string;
+  // Frozen share link of this checkpoint
+  shareId?: string;
+  // Device that recorded the version
+  deviceId?: string;
+}
+
+/**
+ * Title/content snapshot used as the common ancestor for three-way merges
+ */
+export interface NoteRevision {
+  title: string;
+  content: string;
+  updatedAt: number;
+}
+
+export type MergeChunk =
+  | { type: 'resolved'; lines: string[] }
+  | { type: 'conflict'; base: string[]; local: string[]; remote: string[] };
+
+export interface NoteConflict {
+  title?: { base: string; local: string; remote: string };
+  chunks: MergeChunk[];
+  remote: NoteRevision;
+  detectedAt: number;
 }
 
 export interface Note {
@@ -15,7 +61,154 @@ export interface Note {
   updatedAt?: number;
   isShared?: boolean;
   shareId?: string;
-  versions?: NoteVersion[];
+  notebookId?: string | null;
+  tags?: string[];
+  // Set while the note is in the trash; it keeps its notebook for a restore
+  trashedAt?: number;
+  // Device that last changed the note
+  deviceId?: string;
+  syncBase?: NoteRevision;
+  conflict?: NoteConflict;
+}
+
+/**
+ * Where bringing the offline database up to the latest schema stands
+ */
+export type DatabaseStatus =
+  | { state: 'checking' }
+  | { state: 'ready' }
+  | { state: 'upgrading'; fromVersion: number; toVersion: number }
+  // Another tab has the old version open and must close or reload first
+  | { state: 'blocked' }
+  | { state: 'failed'; reason: 'backup' | 'upgrade' | 'newer'; message: string };
+
+/**
+ * Record of a deleted note, kept so other devices delete their copy instead of re-uploading it
+ */
+export interface NoteTombstone {
+  noteId: string;
+  deletedAt: number;
+  deviceId: string;
+  // Devices that have applied the deletion, with when they first saw it
+  seenBy?: Record<string, number>;
+}
+
+/**
+ * A note as seen through a share link; checkpoint shares are frozen at that version
+ */
+export interface SharedNote extends Note {
+  checkpoint?: { label: string; timestamp: number };
+}
+
+export interface Notebook {
+  id: string;
+  name: string;
+  parentId: string | null;
+  createdAt: number;
+  updatedAt: number;
+  deletedAt?: number; // Set when deleted, so the delete syncs to other devices
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  position: number; // Sidebar order, lowest first
+  createdAt: number;
+  updatedAt: number;
+  deletedAt?: number; // Set when deleted, so the delete syncs to other devices
+}
+
+// Where a note's latest local changes stand relative to the cloud
+export type NoteSyncState = 'synced' | 'pending' | 'syncing' | 'failed';
+
+export interface SyncError {
+  id: string;
+  description: string;
+  message: string;
+  timestamp: number;
+  noteId?: string;
+}
+
+// A note added, changed or removed in the cloud
+export type NoteChange =
+  | { type: 'saved'; note: Note }
+  | { type: 'removed'; noteId: string };
+
+/**
+ * Where a device keeps notes, its sync queue and tombstones; IndexedDB in the browser
+ */
+export interface NoteStore {
+  saveNote: (note: Note, userId: string) => Promise<void>;
+  // Many notes in one write, e.g. after merging a full sync
+  saveNotes: (notes: Note[], userId: string) => Promise<void>;
+  getNotes: (userId: string) => Promise<Note[]>;
+  getNote: (noteId: string) => Promise<Note | null>;
+  deleteNote: (noteId: string) => Promise<void>;
+  deleteNotes: (noteIds: string[]) => Promise<void>;
+  saveVersions: (versions: NoteVersion[], userId: string) => Promise<void>;
+  getVersions: (noteId: string) => Promise<NoteVersion[]>;
+  deleteVersions: (versionIds: string[]) => Promise<void>;
+  addToSyncQueue: (operation: SyncOperation, noteId: string, note?: Note) => Promise<void>;
+  addVersionToSyncQueue: (
+    operation: 'create' | 'delete',
+    noteId: string,
+    versionId: string,
+    version?: NoteVersion
+  ) => Promise<void>;
+  getSyncQueue: () => Promise<SyncQueueItem[]>;
+  removeFromSyncQueue: (queueItemId: string) => Promise<void>;
+  markSyncItemFailed: (queueItemId: string, error: string) => Promise<void>;
+  saveTombstones: (tombstones: NoteTombstone[], userId: string) => Promise<void>;
+  getTombstones: (userId: string) => Promise<NoteTombstone[]>;
+  getTombstone: (noteId: string) => Promise<NoteTombstone | null>;
+  deleteTombstones: (noteIds: string[]) => Promise<void>;
+}
+
+/**
+ * The cloud copy that devices sync through; Firebase RTDB by default.
+ * Methods reject when the backend can't be reached, so the change is queued and retried.
+ */
+export interface RemoteStore {
+  saveNote: (userId: string, note: Note) => Promise<void>;
+  // Notes updated at or after `since`, or all of them
+  loadNotes: (userId: string, since?: number) => Promise<Note[]>;
+  deleteNote: (userId: string, tombstone: NoteTombstone) => Promise<void>;
+  subscribeToNoteChanges: (userId: string, since: number, callback: (change: NoteChange) => void) => () => void;
+  saveNotebook: (userId: string, notebook: Notebook) => Promise<void>;
+  loadNotebooks: (userId: string) => Promise<Notebook[]>;
+  deleteNotebook: (userId: string, notebookId: string) => Promise<void>;
+  subscribeToNotebooks: (userId: string, callback: (notebooks: Notebook[]) => void) => () => void;
+  saveSavedSearch: (userId: string, savedSearch: SavedSearch) => Promise<void>;
+  loadSavedSearches: (userId: string) => Promise<SavedSearch[]>;
+  deleteSavedSearch: (userId: string, savedSearchId: string) => Promise<void>;
+  subscribeToSavedSearches: (userId: string, callback: (savedSearches: SavedSearch[]) => void) => () => void;
+  saveVersion: (userId: string, version: NoteVersion) => Promise<void>;
+  loadVersions: (userId: string, noteId: string) => Promise<NoteVersion[]>;
+  deleteVersions: (userId: string, noteId: string, versionIds: string[]) => Promise<void>;
+  loadTombstones: (userId: string) => Promise<NoteTombstone[]>;
+  markTombstonesSeen: (userId: string, noteIds: string[], deviceId: string) => Promise<void>;
+  deleteTombstones: (userId: string, noteIds: string[]) => Promise<void>;
+  subscribeToTombstones: (userId: string, callback: (tombstones: NoteTombstone[]) => void) => () => void;
+  // Records that a device is syncing; resolves with every device's last sync time
+  registerDevice: (userId: string, deviceId: string) => Promise<Record<string, number>>;
+}
+
+/**
+ * What a device keeps about itself: its ID and small sync markers such as the delta cursor.
+ * localStorage in the browser.
+ */
+export interface DeviceStore {
+  getDeviceId: () => string;
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+}
+
+// The local and cloud stores a sync runs between, and the device running it
+export interface NoteStores {
+  local: NoteStore;
+  remote: RemoteStore;
+  device: DeviceStore;
 }
 
 export enum View {
@@ -0,0 +1,53 @@
+/**
+ * Regex for CommonMark fenced code blocks (``` or ~~~, optionally indented up to 3 spaces).
+ * Groups: 1 = fence, 2 = language (first word of the info string), 3 = code.
+ * An unclosed fence runs to the end of the document, as in the renderer.
+ * Returns a fresh instance since global regexes carry lastIndex state.
+ */
+export const createCodeBlockRegex = (): RegExp =>
+  /^ {0,3}(`{3,}|~{3,})[ \t]*([^\s`]*)[^\n]*\n([\s\S]*?)(?:^ {0,3}\1[`~]*[ \t]*$|(?![\s\S]))/gm;
+
+/**
+ * Languages of every fenced code block in the content (lowercase)
+ */
+export const extractCodeLanguages = (content: string): string[] => {
+  const languages = new Set<string>();
+  for (const match of content.matchAll(createCodeBlockRegex())) {
+    if (match[2]) {
+      languages.add(match[2].toLowerCase());
+    }
+  }
+  return Array.from(languages);
+};
+
+const INLINE_CODE_REGEX = /`[^`\n]*`/g;
+
+/**
+ * Apply `transform` to the parts of the content outside fenced and inline code
+ */
+export const mapOutsideCode = (content: string, transform: (text: string) => string): string => {
+  const codeSpans: string[] = [];
+  const stash = (code: string) => `\u0000${codeSpans.push(code) - 1}\u0000`;
+
+  return transform(content.replace(createCodeBlockRegex(), stash).replace(INLINE_CODE_REGEX, stash))
+    .replace(/\u0000(\d+)\u0000/g, (_, index) => codeSpans[Number(index)]);
+};
+
+/**
+ * The fenced code block language of each line of the content:
+ * a language (lowercase, possibly '') for lines inside a block, null elsewhere, including the fences
+ */
+export const getCodeLineLanguages = (content: string): (string | null)[] => {
+  const languages: (string | null)[] = content === '' ? [] : content.split('\n').map(() => null);
+
+  for (const match of content.matchAll(createCodeBlockRegex())) {
+    const firstLine = (content.slice(0, match.index).match(/\n/g) || []).length + 1;
+    const code = match[3];
+    const lineCount = (code.match(/\n/g) || []).length + (code && !code.endsWith('\n') ? 1 : 0);
+    for (let line = firstLine; line < firstLine + lineCount; line++) {
+      languages[line] = match[2].toLowerCase();
+    }
+  }
+
+  return languages;
+};
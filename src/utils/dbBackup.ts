@@ -0,0 +1,112 @@
+import { DB_BACKUPS } from '../config/dbBackups';
+
+const BACKUPS_STORE = 'backups';
+
+/**
+ * Every record of a database, by store, as it was before an upgrade
+ */
+export interface DbBackup {
+  id: string;
+  createdAt: number;
+  fromVersion: number;
+  toVersion: number;
+  stores: Record<string, unknown[]>;
+}
+
+const openBackupDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_BACKUPS.dbName, 1);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(BACKUPS_STORE, { keyPath: 'id' });
+    };
+  });
+};
+
+/**
+ * Read every store of an open database in one transaction
+ */
+export const snapshotDatabase = (db: IDBDatabase): Promise<Record<string, unknown[]>> => {
+  const storeNames = Array.from(db.objectStoreNames);
+  if (storeNames.length === 0) return Promise.resolve({});
+
+  const transaction = db.transaction(storeNames, 'readonly');
+  const stores: Record<string, unknown[]> = {};
+  storeNames.forEach(name => {
+    const request = transaction.objectStore(name).getAll();
+    request.onsuccess = () => {
+      stores[name] = request.result;
+    };
+  });
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve(stores);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Keep a backup, dropping the oldest ones beyond the configured number
+ */
+export const saveDbBackup = async (backup: DbBackup): Promise<void> => {
+  const db = await openBackupDB();
+  const transaction = db.transaction([BACKUPS_STORE], 'readwrite');
+  const store = transaction.objectStore(BACKUPS_STORE);
+
+  store.put(backup);
+  const request = store.getAllKeys();
+  request.onsuccess = () => {
+    // Ids start with the creation time, so key order is age order
+    const keys = request.result as string[];
+    keys.slice(0, Math.max(0, keys.length - DB_BACKUPS.keep)).forEach(key => store.delete(key));
+  };
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+/**
+ * The most recent backup, if any
+ */
+export const getLatestDbBackup = async (): Promise<DbBackup | null> => {
+  const db = await openBackupDB();
+  const transaction = db.transaction([BACKUPS_STORE], 'readonly');
+  const request = transaction.objectStore(BACKUPS_STORE).openCursor(null, 'prev');
+
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      db.close();
+      resolve(request.result?.value || null);
+    };
+    request.onerror = () => {
+      db.close();
+      reject(request.error);
+    };
+  });
+};
+
+/**
+ * Save the most recent backup as a JSON file, so it survives clearing the browser's data
+ */
+export const downloadLatestDbBackup = async (): Promise<boolean> => {
+  const backup = await getLatestDbBackup();
+  if (!backup) return false;
+
+  const url = URL.createObjectURL(new Blob([JSON.stringify(backup)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `smart-notes-backup-v${backup.fromVersion}-${new Date(backup.createdAt).toISOString().slice(0, 10)}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+  return true;
+};
@@ -0,0 +1,324 @@
+import { Note, NoteVersion } from '../types';
+import { SearchTermRecord, buildSearchDoc } from './searchIndex';
+import { extractWikiLinks } from './wikiLinks';
+import { isId, legacyNoteId } from './ids';
+
+/**
+ * One step of the SmartNoteDB schema. Steps run in order inside the upgrade transaction, each one
+ * only for databases older than its version, so they can add stores and indexes and rewrite records.
+ * A step that reads records returns a promise, resolved once it has made all its changes, so the
+ * next step sees them. Store names are written out as they were at that version: steps are
+ * history and must not change.
+ */
+export interface DbMigration {
+  version: number;
+  description: string;
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void | Promise<void>;
+}
+
+/**
+ * Every record in a store
+ */
+const getAllRecords = (store: IDBObjectStore): Promise<any[]> => {
+  return new Promise((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Visit every record under a cursor, which may update or delete it
+ */
+const visitRecords = (
+  request: IDBRequest<IDBCursorWithValue | null>,
+  visit: (cursor: IDBCursorWithValue) => void
+): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      visit(cursor);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Build the search index for every existing note in one pass
+ */
+const backfillSearchIndex = async (transaction: IDBTransaction): Promise<void> => {
+  const notes = await getAllRecords(transaction.objectStore('notes'));
+  const docsStore = transaction.objectStore('searchDocs');
+  const termsStore = transaction.objectStore('searchIndex');
+  const terms = new Map<string, SearchTermRecord>();
+
+  notes.forEach(({ userId, ...note }) => {
+    const doc = buildSearchDoc(note as Note, userId);
+    docsStore.put(doc);
+
+    Object.entries(doc.termFreqs).forEach(([term, tf]) => {
+      const key = `${userId}\u0000${term}`;
+      const record = terms.get(key) || { userId, term, postings: {} };
+      record.postings[doc.noteId] = tf;
+      terms.set(key, record);
+    });
+  });
+
+  terms.forEach(record => termsStore.put(record));
+};
+
+/**
+ * Build the link index for every existing note in one pass
+ */
+const backfillLinkIndex = async (transaction: IDBTransaction): Promise<void> => {
+  const notes = await getAllRecords(transaction.objectStore('notes'));
+  const linksStore = transaction.objectStore('noteLinks');
+  notes.forEach(({ userId, id, content }) => {
+    extractWikiLinks(content || '').forEach(target => linksStore.put({ userId, sourceId: id, target }));
+  });
+};
+
+/**
+ * Move versions stored inline on note records into the versions store and queue their upload.
+ * The cloud copies of inline history are moved by loadNotesFromFirebase.
+ */
+const migrateInlineVersions = (transaction: IDBTransaction): Promise<void> => {
+  const versionsStore = transaction.objectStore('versions');
+  const syncStore = transaction.objectStore('syncQueue');
+
+  return visitRecords(transaction.objectStore('notes').openCursor(), cursor => {
+    const { versions, ...note } = cursor.value;
+    if (!Array.isArray(versions)) return;
+
+    versions.forEach((legacyVersion: Omit<NoteVersion, 'noteId'>) => {
+      const version: NoteVersion = { ...legacyVersion, noteId: note.id };
+      versionsStore.put({ ...version, userId: note.userId });
+      syncStore.put({
+        id: `${Date.now()}_version_${version.id}`,
+        entity: 'version',
+        operation: 'create',
+        noteId: note.id,
+        versionId: version.id,
+        version,
+        timestamp: Date.now()
+      });
+    });
+    cursor.update(note);
+  });
+};
+
+/**
+ * Give notes saved before these fields existed an update time, tags and a notebook
+ */
+const backfillNoteFields = (transaction: IDBTransaction): Promise<void> => {
+  return visitRecords(transaction.objectStore('notes').openCursor(), cursor => {
+    const note = cursor.value;
+    if (note.updatedAt === undefined || note.tags === undefined || note.notebookId === undefined) {
+      cursor.update({
+        ...note,
+        updatedAt: note.updatedAt ?? note.createdAt,
+        tags: note.tags ?? [],
+        notebookId: note.notebookId ?? null
+      });
+    }
+  });
+};
+
+/**
+ * Update every record in a store that refers to a note with a new ID
+ */
+const repointRecords = (
+  store: IDBObjectStore,
+  newIds: Map<string, string>,
+  repoint: (record: any, noteId: string) => any
+): Promise<void> => {
+  return visitRecords(store.openCursor(), cursor => {
+    const noteId = newIds.get(cursor.value.noteId);
+    if (!noteId) return;
+
+    const record = repoint(cursor.value, noteId);
+    // Records keyed by note ID move to the new key
+    if (store.keyPath === 'noteId') {
+      cursor.delete();
+      store.put(record);
+    } else {
+      cursor.update(record);
+    }
+  });
+};
+
+/**
+ * Give notes with IDs from older versions of the app (creation times, which two devices can share)
+ * the ULID every device derives from the old ID, and point their history, queued sync operations
+ * and tombstones at it. Version IDs and share IDs stay as they are, so references to versions and
+ * share links keep working. The search and link indexes are rebuilt for the new IDs.
+ */
+const remapLegacyNoteIds = async (transaction: IDBTransaction): Promise<void> => {
+  const notesStore = transaction.objectStore('notes');
+  const newIds = new Map<string, string>();
+
+  (await getAllRecords(notesStore)).forEach(note => {
+    if (isId(note.id)) return;
+    const id = legacyNoteId(note.id, note.createdAt);
+    newIds.set(note.id, id);
+    notesStore.delete(note.id);
+    notesStore.put({ ...note, id });
+  });
+  if (newIds.size === 0) return;
+
+  await Promise.all([
+    repointRecords(transaction.objectStore('versions'), newIds, (version, noteId) => ({ ...version, noteId })),
+    repointRecords(transaction.objectStore('tombstones'), newIds, (tombstone, noteId) => ({ ...tombstone, noteId })),
+    ...['syncQueue', 'syncDeadLetters'].map(storeName =>
+      repointRecords(transaction.objectStore(storeName), newIds, (item, noteId) => ({
+        ...item,
+        noteId,
+        ...(item.note ? { note: { ...item.note, id: noteId } } : {}),
+        ...(item.version ? { version: { ...item.version, noteId } } : {})
+      }))
+    )
+  ]);
+
+  ['searchDocs', 'searchIndex', 'noteLinks'].forEach(storeName => transaction.objectStore(storeName).clear());
+  await backfillSearchIndex(transaction);
+  await backfillLinkIndex(transaction);
+};
+
+/**
+ * Every schema change, oldest first. Add new steps at the end with the next version number.
+ */
+export const DB_MIGRATIONS: DbMigration[] = [
+  {
+    version: 1,
+    description: 'Create notes and sync queue stores',
+    migrate: (db) => {
+      const notesStore = db.createObjectStore('notes', { keyPath: 'id' });
+      notesStore.createIndex('createdAt', 'createdAt', { unique: false });
+      notesStore.createIndex('userId', 'userId', { unique: false });
+
+      const syncStore = db.createObjectStore('syncQueue', { keyPath: 'id' });
+      syncStore.createIndex('timestamp', 'timestamp', { unique: false });
+    }
+  },
+  {
+    version: 2,
+    description: 'Create notebooks store',
+    migrate: (db) => {
+      const notebooksStore = db.createObjectStore('notebooks', { keyPath: 'id' });
+      notebooksStore.createIndex('userId', 'userId', { unique: false });
+    }
+  },
+  {
+    version: 3,
+    description: 'Create full-text search stores and index existing notes',
+    migrate: (db, transaction) => {
+      const docsStore = db.createObjectStore('searchDocs', { keyPath: 'noteId' });
+      docsStore.createIndex('userId', 'userId', { unique: false });
+
+      const termsStore = db.createObjectStore('searchIndex', { keyPath: ['userId', 'term'] });
+      termsStore.createIndex('userId', 'userId', { unique: false });
+
+      return backfillSearchIndex(transaction);
+    }
+  },
+  {
+    version: 4,
+    description: 'Create saved searches store',
+    migrate: (db) => {
+      const savedSearchesStore = db.createObjectStore('savedSearches', { keyPath: 'id' });
+      savedSearchesStore.createIndex('userId', 'userId', { unique: false });
+    }
+  },
+  {
+    version: 5,
+    description: 'Create wiki link index and index existing notes',
+    migrate: (db, transaction) => {
+      const linksStore = db.createObjectStore('noteLinks', { keyPath: ['sourceId', 'target'] });
+      linksStore.createIndex('userId', 'userId', { unique: false });
+      linksStore.createIndex('sourceId', 'sourceId', { unique: false });
+      linksStore.createIndex('target', ['userId', 'target'], { unique: false });
+
+      return backfillLinkIndex(transaction);
+    }
+  },
+  {
+    version: 6,
+    description: 'Create version history store and move history out of note records',
+    migrate: (db, transaction) => {
+      const versionsStore = db.createObjectStore('versions', { keyPath: 'id' });
+      versionsStore.createIndex('noteId', 'noteId', { unique: false });
+      versionsStore.createIndex('userId', 'userId', { unique: false });
+
+      return migrateInlineVersions(transaction);
+    }
+  },
+  {
+    version: 7,
+    description: 'Create dead-letter store for sync operations that kept failing',
+    migrate: (db) => {
+      db.createObjectStore('syncDeadLetters', { keyPath: 'id' });
+    }
+  },
+  {
+    version: 8,
+    description: 'Create tombstone store for deleted notes',
+    migrate: (db) => {
+      const tombstonesStore = db.createObjectStore('tombstones', { keyPath: 'noteId' });
+      tombstonesStore.createIndex('userId', 'userId', { unique: false });
+    }
+  },
+  {
+    version: 9,
+    description: 'Backfill updatedAt, tags and notebookId on older notes',
+    migrate: (_db, transaction) => {
+      return backfillNoteFields(transaction);
+    }
+  },
+  {
+    version: 10,
+    description: 'Replace old-style note IDs with ULIDs',
+    migrate: (_db, transaction) => {
+      return remapLegacyNoteIds(transaction);
+    }
+  },
+  {
+    version: 11,
+    description: 'Create store of shared notes viewed on this device',
+    migrate: (db) => {
+      db.createObjectStore('sharedNotes', { keyPath: 'shareId' });
+    }
+  },
+  {
+    version: 12,
+    description: 'Create store of this device\'s ID, for the service worker',
+    migrate: (db) => {
+      db.createObjectStore('device');
+    }
+  }
+];
+
+/**
+ * The schema version the app expects: the last migration's
+ */
+export const LATEST_DB_VERSION = DB_MIGRATIONS[DB_MIGRATIONS.length - 1].version;
+
+/**
+ * Run every migration newer than the database's version, one after another, within the upgrade
+ * transaction. A step that fails aborts the transaction, leaving the database as it was.
+ */
+export const runMigrations = async (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): Promise<void> => {
+  try {
+    for (const migration of DB_MIGRATIONS.filter(step => step.version > oldVersion)) {
+      console.log(`IndexedDB: migrating to version ${migration.version} (${migration.description})`);
+      await migration.migrate(db, transaction);
+    }
+  } catch (error) {
+    console.error('Error migrating IndexedDB:', error);
+    transaction.abort();
+  }
+};
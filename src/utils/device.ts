@@ -0,0 +1,39 @@
+import { DeviceStore } from '../types';
+import { createId } from './ids';
+
+const DEVICE_ID_KEY = 'deviceId';
+
+/**
+ * A random ID for this browser, created on first use and kept in localStorage
+ */
+export const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = createId();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+/**
+ * This browser's ID and sync markers, in localStorage
+ */
+export const localStorageDeviceStore: DeviceStore = {
+  getDeviceId,
+  getItem: key => localStorage.getItem(key),
+  setItem: (key, value) => localStorage.setItem(key, value)
+};
+
+/**
+ * A device's ID and sync markers kept in memory, for simulating devices outside a browser
+ */
+export const createMemoryDeviceStore = (deviceId: string = createId()): DeviceStore => {
+  const items = new Map<string, string>();
+  return {
+    getDeviceId: () => deviceId,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    }
+  };
+};
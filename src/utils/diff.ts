@@ -0,0 +1,185 @@
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp<T> {
+  type: DiffOpType;
+  items: T[];
+  aStart: number;
+  bStart: number;
+}
+
+type Edit = [DiffOpType, number, number];
+
+/**
+ * Myers O(ND) shortest edit script between two sequences of the given lengths
+ */
+const shortestEdit = (
+  aLength: number,
+  bLength: number,
+  equals: (i: number, j: number) => boolean
+): Edit[] => {
+  const max = aLength + bLength;
+  const offset = max;
+  const v = new Int32Array(2 * max + 2);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    let done = false;
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < aLength && y < bLength && equals(x, y)) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= aLength && y >= bLength) {
+        done = true;
+        break;
+      }
+    }
+    // Only diagonals -d..d are reachable at step d, so keep just that slice
+    trace.push(v.slice(offset - d, offset + d + 1));
+    if (done) break;
+  }
+
+  const edits: Edit[] = [];
+  let x = aLength;
+  let y = bLength;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d - 1];
+    const prevAt = (k: number) => prev[k + d - 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && prevAt(k - 1) < prevAt(k + 1)) ? k + 1 : k - 1;
+    const prevX = prevAt(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push(['equal', x - 1, y - 1]);
+      x--;
+      y--;
+    }
+
+    if (x === prevX) {
+      edits.push(['insert', x, y - 1]);
+    } else {
+      edits.push(['delete', x - 1, y]);
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    edits.push(['equal', x - 1, y - 1]);
+    x--;
+    y--;
+  }
+
+  return edits.reverse();
+};
+
+/**
+ * Diff two sequences, grouping consecutive edits of the same kind
+ */
+export const diffSequences = <T>(
+  a: T[],
+  b: T[],
+  equals: (x: T, y: T) => boolean = (x, y) => x === y
+): DiffOp<T>[] => {
+  // Trim the common prefix and suffix so the edit search only sees the changed middle
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && equals(a[prefix], b[prefix])) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    equals(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+  ) {
+    suffix++;
+  }
+
+  const aMid = a.slice(prefix, a.length - suffix);
+  const bMid = b.slice(prefix, b.length - suffix);
+  const edits = shortestEdit(aMid.length, bMid.length, (i, j) => equals(aMid[i], bMid[j]));
+
+  const ops: DiffOp<T>[] = [];
+  const push = (type: DiffOpType, item: T, aIndex: number, bIndex: number) => {
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) {
+      last.items.push(item);
+    } else {
+      ops.push({ type, items: [item], aStart: aIndex, bStart: bIndex });
+    }
+  };
+
+  for (let i = 0; i < prefix; i++) {
+    push('equal', a[i], i, i);
+  }
+
+  for (const [type, i, j] of edits) {
+    const aIndex = prefix + i;
+    const bIndex = prefix + j;
+    push(type, type === 'insert' ? b[bIndex] : a[aIndex], aIndex, bIndex);
+  }
+
+  for (let i = 0; i < suffix; i++) {
+    const aIndex = a.length - suffix + i;
+    const bIndex = b.length - suffix + i;
+    push('equal', a[aIndex], aIndex, bIndex);
+  }
+
+  return ops;
+};
+
+/**
+ * Split text into lines for line-level diffing
+ */
+export const splitLines = (text: string): string[] => {
+  return text === '' ? [] : text.split('\n');
+};
+
+/**
+ * Line-level diff of two texts
+ */
+export const diffLines = (oldText: string, newText: string): DiffOp<string>[] => {
+  return diffSequences(splitLines(oldText), splitLines(newText));
+};
+
+export interface WordSegment {
+  text: string;
+  changed: boolean;
+}
+
+// Words, runs of whitespace, or single punctuation characters
+const WORD_TOKEN_REGEX = /[\p{L}\p{N}_]+|\s+|[^\p{L}\p{N}_\s]/gu;
+
+/**
+ * Word-level diff of two versions of a line, as segments of each side flagged when changed.
+ * Lines sharing no words are left unflagged, since highlighting everything adds nothing.
+ */
+export const diffWords = (oldLine: string, newLine: string): { old: WordSegment[]; new: WordSegment[] } => {
+  const ops = diffSequences(oldLine.match(WORD_TOKEN_REGEX) || [], newLine.match(WORD_TOKEN_REGEX) || []);
+  const sharesWords = ops.some(op => op.type === 'equal' && op.items.some(token => token.trim() !== ''));
+
+  if (!sharesWords) {
+    return {
+      old: oldLine ? [{ text: oldLine, changed: false }] : [],
+      new: newLine ? [{ text: newLine, changed: false }] : []
+    };
+  }
+
+  const oldSegments: WordSegment[] = [];
+  const newSegments: WordSegment[] = [];
+  ops.forEach(op => {
+    const text = op.items.join('');
+    if (op.type !== 'insert') oldSegments.push({ text, changed: op.type === 'delete' });
+    if (op.type !== 'delete') newSegments.push({ text, changed: op.type === 'insert' });
+  });
+
+  return { old: oldSegments, new: newSegments };
+};
@@ -1,6 +1,19 @@
-import { ref, set, get, remove, onValue, off } from 'firebase/database';
+import {
+  ref,
+  set,
+  get,
+  remove,
+  update,
+  onValue,
+  query,
+  orderByChild,
+  startAt,
+  onChildAdded,
+  onChildChanged,
+  onChildRemoved
+} from 'firebase/database';
 import { database } from '../config/firebase';
-import { Note } from '../types';
+import { Note, Notebook, SavedSearch, NoteVersion, NoteTombstone, NoteChange, RemoteStore } from '../types';
 
 /**
  * Save a note to Firebase RTDB under the user's notes
@@ -14,7 +27,10 @@ export const saveNoteToFirebase = async (userId: string, note: Note): Promise<vo
       createdAt: note.createdAt,
       updatedAt: note.updatedAt || Date.now(),
       shareId: note.shareId || null,
-      versions: note.versions || []
+      notebookId: note.notebookId || null,
+      tags: note.tags || [],
+      trashedAt: note.trashedAt || null,
+      deviceId: note.deviceId || null
     });
   } catch (error) {
     console.error('Error saving note to Firebase:', error);
@@ -23,24 +39,39 @@ export const saveNoteToFirebase = async (userId: string, note: Note): Promise<vo
 };
 
 /**
- * Load all notes for a user from Firebase RTDB
+ * Convert a note node from Firebase into a Note
  */
-export const loadNotesFromFirebase = async (userId: string): Promise<Note[]> => {
+const toNote = (id: string, noteData: any): Note => ({
+  id,
+  title: noteData.title,
+  content: noteData.content,
+  createdAt: noteData.createdAt,
+  updatedAt: noteData.updatedAt,
+  shareId: noteData.shareId,
+  notebookId: noteData.notebookId || null,
+  tags: noteData.tags || [],
+  trashedAt: noteData.trashedAt || undefined,
+  deviceId: noteData.deviceId || undefined
+});
+
+/**
+ * The user's notes updated at or after `since`, oldest change first
+ */
+const notesChangedSince = (userId: string, since: number) => {
+  return query(ref(database, `users/${userId}/notes`), orderByChild('updatedAt'), startAt(since));
+};
+
+/**
+ * Load a user's notes from Firebase RTDB: only those updated at or after `since`, or all of them
+ */
+export const loadNotesFromFirebase = async (userId: string, since = 0): Promise<Note[]> => {
   try {
-    const notesRef = ref(database, `users/${userId}/notes`);
-    const snapshot = await get(notesRef);
+    const snapshot = await get(notesChangedSince(userId, since));
     
     if (snapshot.exists()) {
       const notesData = snapshot.val();
-      const notes: Note[] = Object.keys(notesData).map(id => ({
-        id,
-        title: notesData[id].title,
-        content: notesData[id].content,
-        createdAt: notesData[id].createdAt,
-        updatedAt: notesData[id].updatedAt,
-        shareId: notesData[id].shareId,
-        versions: notesData[id].versions || []
-      }));
+      const notes: Note[] = Object.keys(notesData).map(id => toNote(id, notesData[id]));
+      await migrateInlineVersions(userId, notesData);
       return notes;
     }
     
@@ -52,12 +83,38 @@ export const loadNotesFromFirebase = async (userId: string): Promise<Note[]> =>
 };
 
 /**
- * Delete a note from Firebase RTDB
+ * Move version history stored inline on notes (older clients) to the versions path
+ */
+const migrateInlineVersions = async (userId: string, notesData: Record<string, any>): Promise<void> => {
+  const updates: Record<string, any> = {};
+
+  Object.keys(notesData).forEach(noteId => {
+    const versions = notesData[noteId].versions;
+    if (!versions) return;
+
+    Object.values(versions).forEach((version: any) => {
+      updates[`versions/${noteId}/${version.id}`] = { ...version, noteId };
+    });
+    updates[`notes/${noteId}/versions`] = null;
+  });
+
+  if (Object.keys(updates).length > 0) {
+    await update(ref(database, `users/${userId}`), updates);
+  }
+};
+
+/**
+ * Delete a note from Firebase RTDB, leaving a tombstone so other devices delete their copy
  */
-export const deleteNoteFromFirebase = async (userId: string, noteId: string): Promise<void> => {
+export const deleteNoteFromFirebase = async (userId: string, tombstone: NoteTombstone): Promise<void> => {
+  const { noteId } = tombstone;
   try {
-    const noteRef = ref(database, `users/${userId}/notes/${noteId}`);
-    await remove(noteRef);
+    // A note's history goes with it
+    await update(ref(database, `users/${userId}`), {
+      [`notes/${noteId}`]: null,
+      [`versions/${noteId}`]: null,
+      [`tombstones/${noteId}`]: tombstone
+    });
   } catch (error) {
     console.error('Error deleting note from Firebase:', error);
     throw new Error('Failed to delete note from cloud');
@@ -65,37 +122,43 @@ export const deleteNoteFromFirebase = async (userId: string, noteId: string): Pr
 };
 
 /**
- * Subscribe to real-time updates for all notes
+ * Subscribe to notes added, changed or removed in Firebase RTDB at or after `since`.
+ * Only the changed note is transferred for each event.
  * Returns an unsubscribe function
  */
-export const subscribeToNotes = (
-  userId: string, 
-  callback: (notes: Note[]) => void
+export const subscribeToNoteChanges = (
+  userId: string,
+  since: number,
+  callback: (change: NoteChange) => void
 ): (() => void) => {
-  const notesRef = ref(database, `users/${userId}/notes`);
-  
-  const unsubscribe = onValue(notesRef, (snapshot) => {
-    if (snapshot.exists()) {
-      const notesData = snapshot.val();
-      const notes: Note[] = Object.keys(notesData).map(id => ({
-        id,
-        title: notesData[id].title,
-        content: notesData[id].content,
-        createdAt: notesData[id].createdAt,
-        updatedAt: notesData[id].updatedAt,
-        shareId: notesData[id].shareId,
-        versions: notesData[id].versions || []
-      }));
-      callback(notes);
-    } else {
-      callback([]);
+  const changesQuery = notesChangedSince(userId, since);
+  const handleError = (error: Error) => {
+    console.error('Error subscribing to note changes:', error);
+  };
+
+  const unsubscribeAdded = onChildAdded(changesQuery, (snapshot) => {
+    callback({ type: 'saved', note: toNote(snapshot.key!, snapshot.val()) });
+  }, handleError);
+  const unsubscribeChanged = onChildChanged(changesQuery, (snapshot) => {
+    callback({ type: 'saved', note: toNote(snapshot.key!, snapshot.val()) });
+  }, handleError);
+  const unsubscribeRemoved = onChildRemoved(changesQuery, async (snapshot) => {
+    // A note saved with an older updatedAt (a skewed clock) leaves the query without being deleted
+    try {
+      const current = await get(ref(database, `users/${userId}/notes/${snapshot.key}`));
+      if (current.exists()) return;
+      callback({ type: 'removed', noteId: snapshot.key! });
+    } catch (error) {
+      console.error('Error checking removed note:', error);
     }
-  }, (error) => {
-    console.error('Error subscribing to notes:', error);
-  });
+  }, handleError);
 
   // Return cleanup function
-  return () => off(notesRef, 'value', unsubscribe);
+  return () => {
+    unsubscribeAdded();
+    unsubscribeChanged();
+    unsubscribeRemoved();
+  };
 };
 
 /**
@@ -110,3 +173,360 @@ export const batchSaveNotes = async (userId: string, notes: Note[]): Promise<voi
     throw new Error('Failed to sync notes to cloud');
   }
 };
+
+/**
+ * Save a notebook to Firebase RTDB under the user's notebooks
+ */
+export const saveNotebookToFirebase = async (userId: string, notebook: Notebook): Promise<void> => {
+  try {
+    const notebookRef = ref(database, `users/${userId}/notebooks/${notebook.id}`);
+    await set(notebookRef, {
+      name: notebook.name,
+      parentId: notebook.parentId || null,
+      createdAt: notebook.createdAt,
+      updatedAt: notebook.updatedAt || Date.now(),
+      deletedAt: notebook.deletedAt || null
+    });
+  } catch (error) {
+    console.error('Error saving notebook to Firebase:', error);
+    throw new Error('Failed to save notebook to cloud');
+  }
+};
+
+/**
+ * Convert the notebooks node of a snapshot into Notebook objects
+ */
+const toNotebooks = (notebooksData: Record<string, any>): Notebook[] => {
+  return Object.keys(notebooksData).map(id => ({
+    id,
+    name: notebooksData[id].name,
+    parentId: notebooksData[id].parentId || null,
+    createdAt: notebooksData[id].createdAt,
+    updatedAt: notebooksData[id].updatedAt,
+    ...(notebooksData[id].deletedAt ? { deletedAt: notebooksData[id].deletedAt } : {})
+  }));
+};
+
+/**
+ * Load all notebooks for a user from Firebase RTDB
+ */
+export const loadNotebooksFromFirebase = async (userId: string): Promise<Notebook[]> => {
+  try {
+    const notebooksRef = ref(database, `users/${userId}/notebooks`);
+    const snapshot = await get(notebooksRef);
+    return snapshot.exists() ? toNotebooks(snapshot.val()) : [];
+  } catch (error) {
+    console.error('Error loading notebooks from Firebase:', error);
+    throw new Error('Failed to load notebooks from cloud');
+  }
+};
+
+/**
+ * Delete a notebook from Firebase RTDB
+ */
+export const deleteNotebookFromFirebase = async (userId: string, notebookId: string): Promise<void> => {
+  try {
+    const notebookRef = ref(database, `users/${userId}/notebooks/${notebookId}`);
+    await remove(notebookRef);
+  } catch (error) {
+    console.error('Error deleting notebook from Firebase:', error);
+    throw new Error('Failed to delete notebook from cloud');
+  }
+};
+
+/**
+ * Subscribe to real-time updates for all notebooks
+ * Returns an unsubscribe function
+ */
+export const subscribeToNotebooks = (
+  userId: string,
+  callback: (notebooks: Notebook[]) => void
+): (() => void) => {
+  const notebooksRef = ref(database, `users/${userId}/notebooks`);
+
+  const unsubscribe = onValue(notebooksRef, (snapshot) => {
+    callback(snapshot.exists() ? toNotebooks(snapshot.val()) : []);
+  }, (error) => {
+    console.error('Error subscribing to notebooks:', error);
+  });
+
+  return unsubscribe;
+};
+
+/**
+ * Save a saved search to Firebase RTDB under the user's profile
+ */
+export const saveSavedSearchToFirebase = async (userId: string, savedSearch: SavedSearch): Promise<void> => {
+  try {
+    const savedSearchRef = ref(database, `users/${userId}/profile/savedSearches/${savedSearch.id}`);
+    await set(savedSearchRef, {
+      name: savedSearch.name,
+      query: savedSearch.query,
+      position: savedSearch.position,
+      createdAt: savedSearch.createdAt,
+      updatedAt: savedSearch.updatedAt || Date.now(),
+      deletedAt: savedSearch.deletedAt || null
+    });
+  } catch (error) {
+    console.error('Error saving saved search to Firebase:', error);
+    throw new Error('Failed to save saved search to cloud');
+  }
+};
+
+/**
+ * Convert the saved searches node of a snapshot into SavedSearch objects
+ */
+const toSavedSearches = (savedSearchesData: Record<string, any>): SavedSearch[] => {
+  return Object.keys(savedSearchesData).map(id => ({
+    id,
+    name: savedSearchesData[id].name,
+    query: savedSearchesData[id].query,
+    position: savedSearchesData[id].position ?? 0,
+    createdAt: savedSearchesData[id].createdAt,
+    updatedAt: savedSearchesData[id].updatedAt,
+    ...(savedSearchesData[id].deletedAt ? { deletedAt: savedSearchesData[id].deletedAt } : {})
+  }));
+};
+
+/**
+ * Load all saved searches for a user from Firebase RTDB
+ */
+export const loadSavedSearchesFromFirebase = async (userId: string): Promise<SavedSearch[]> => {
+  try {
+    const savedSearchesRef = ref(database, `users/${userId}/profile/savedSearches`);
+    const snapshot = await get(savedSearchesRef);
+    return snapshot.exists() ? toSavedSearches(snapshot.val()) : [];
+  } catch (error) {
+    console.error('Error loading saved searches from Firebase:', error);
+    throw new Error('Failed to load saved searches from cloud');
+  }
+};
+
+/**
+ * Delete a saved search from Firebase RTDB
+ */
+export const deleteSavedSearchFromFirebase = async (userId: string, savedSearchId: string): Promise<void> => {
+  try {
+    const savedSearchRef = ref(database, `users/${userId}/profile/savedSearches/${savedSearchId}`);
+    await remove(savedSearchRef);
+  } catch (error) {
+    console.error('Error deleting saved search from Firebase:', error);
+    throw new Error('Failed to delete saved search from cloud');
+  }
+};
+
+/**
+ * Subscribe to real-time updates for all saved searches
+ * Returns an unsubscribe function
+ */
+export const subscribeToSavedSearches = (
+  userId: string,
+  callback: (savedSearches: SavedSearch[]) => void
+): (() => void) => {
+  const savedSearchesRef = ref(database, `users/${userId}/profile/savedSearches`);
+
+  const unsubscribe = onValue(savedSearchesRef, (snapshot) => {
+    callback(snapshot.exists() ? toSavedSearches(snapshot.val()) : []);
+  }, (error) => {
+    console.error('Error subscribing to saved searches:', error);
+  });
+
+  return unsubscribe;
+};
+
+/**
+ * Save a version snapshot to Firebase RTDB under the note's history
+ */
+export const saveVersionToFirebase = async (userId: string, version: NoteVersion): Promise<void> => {
+  try {
+    const versionRef = ref(database, `users/${userId}/versions/${version.noteId}/${version.id}`);
+    await set(versionRef, {
+      title: version.title,
+      content: version.content,
+      tags: version.tags || [],
+      timestamp: version.timestamp,
+      changeType: version.changeType || null,
+      restoredHunks: version.restoredHunks || null,
+      label: version.label || null,
+      shareId: version.shareId || null,
+      deviceId: version.deviceId || null
+    });
+  } catch (error) {
+    console.error('Error saving version to Firebase:', error);
+    throw new Error('Failed to save version to cloud');
+  }
+};
+
+/**
+ * Load the version history of a note from Firebase RTDB
+ */
+export const loadVersionsFromFirebase = async (userId: string, noteId: string): Promise<NoteVersion[]> => {
+  try {
+    const versionsRef = ref(database, `users/${userId}/versions/${noteId}`);
+    const snapshot = await get(versionsRef);
+    if (!snapshot.exists()) return [];
+
+    const versionsData = snapshot.val();
+    return Object.keys(versionsData).map(id => ({
+      id,
+      noteId,
+      title: versionsData[id].title,
+      content: versionsData[id].content,
+      tags: versionsData[id].tags || [],
+      timestamp: versionsData[id].timestamp,
+      changeType: versionsData[id].changeType || undefined,
+      restoredHunks: versionsData[id].restoredHunks || undefined,
+      label: versionsData[id].label || undefined,
+      shareId: versionsData[id].shareId || undefined,
+      deviceId: versionsData[id].deviceId || undefined
+    }));
+  } catch (error) {
+    console.error('Error loading versions from Firebase:', error);
+    throw new Error('Failed to load version history from cloud');
+  }
+};
+
+/**
+ * Delete version snapshots of a note from Firebase RTDB
+ */
+export const deleteVersionsFromFirebase = async (
+  userId: string,
+  noteId: string,
+  versionIds: string[]
+): Promise<void> => {
+  try {
+    const updates: Record<string, null> = {};
+    versionIds.forEach(versionId => {
+      updates[versionId] = null;
+    });
+    await update(ref(database, `users/${userId}/versions/${noteId}`), updates);
+  } catch (error) {
+    console.error('Error deleting versions from Firebase:', error);
+    throw new Error('Failed to delete versions from cloud');
+  }
+};
+
+const toTombstones = (tombstonesData: Record<string, any>): NoteTombstone[] => {
+  return Object.keys(tombstonesData).map(noteId => ({
+    noteId,
+    deletedAt: tombstonesData[noteId].deletedAt,
+    deviceId: tombstonesData[noteId].deviceId,
+    seenBy: tombstonesData[noteId].seenBy || {}
+  }));
+};
+
+/**
+ * Load the tombstones of deleted notes from Firebase RTDB
+ */
+export const loadTombstonesFromFirebase = async (userId: string): Promise<NoteTombstone[]> => {
+  try {
+    const snapshot = await get(ref(database, `users/${userId}/tombstones`));
+    return snapshot.exists() ? toTombstones(snapshot.val()) : [];
+  } catch (error) {
+    console.error('Error loading tombstones from Firebase:', error);
+    throw new Error('Failed to load deleted notes from cloud');
+  }
+};
+
+/**
+ * Record that a device has applied these deletions
+ */
+export const markTombstonesSeen = async (userId: string, noteIds: string[], deviceId: string): Promise<void> => {
+  if (noteIds.length === 0) return;
+
+  const updates: Record<string, number> = {};
+  noteIds.forEach(noteId => {
+    updates[`${noteId}/seenBy/${deviceId}`] = Date.now();
+  });
+
+  try {
+    await update(ref(database, `users/${userId}/tombstones`), updates);
+  } catch (error) {
+    console.error('Error marking tombstones as seen:', error);
+    throw new Error('Failed to update deleted notes in cloud');
+  }
+};
+
+/**
+ * Remove tombstones, once every device has seen them or their note was revived
+ */
+export const deleteTombstonesFromFirebase = async (userId: string, noteIds: string[]): Promise<void> => {
+  if (noteIds.length === 0) return;
+
+  const updates: Record<string, null> = {};
+  noteIds.forEach(noteId => {
+    updates[noteId] = null;
+  });
+
+  try {
+    await update(ref(database, `users/${userId}/tombstones`), updates);
+  } catch (error) {
+    console.error('Error deleting tombstones from Firebase:', error);
+    throw new Error('Failed to delete tombstones from cloud');
+  }
+};
+
+/**
+ * Subscribe to tombstones so deletions on other devices apply here as they happen
+ */
+export const subscribeToTombstones = (
+  userId: string,
+  callback: (tombstones: NoteTombstone[]) => void
+): (() => void) => {
+  const tombstonesRef = ref(database, `users/${userId}/tombstones`);
+
+  const unsubscribe = onValue(tombstonesRef, (snapshot) => {
+    callback(snapshot.exists() ? toTombstones(snapshot.val()) : []);
+  }, (error) => {
+    console.error('Error subscribing to tombstones:', error);
+  });
+
+  return unsubscribe;
+};
+
+/**
+ * Record that a device is syncing, and get every device's last sync time
+ */
+export const registerDevice = async (userId: string, deviceId: string): Promise<Record<string, number>> => {
+  try {
+    const now = Date.now();
+    await set(ref(database, `users/${userId}/devices/${deviceId}`), { lastSeen: now });
+
+    const snapshot = await get(ref(database, `users/${userId}/devices`));
+    const devicesData: Record<string, { lastSeen: number }> = snapshot.exists() ? snapshot.val() : {};
+    const devices: Record<string, number> = {};
+    Object.keys(devicesData).forEach(id => {
+      devices[id] = devicesData[id].lastSeen;
+    });
+    return devices;
+  } catch (error) {
+    console.error('Error registering device:', error);
+    throw new Error('Failed to register device with cloud');
+  }
+};
+
+/**
+ * Firebase RTDB as the RemoteStore
+ */
+export const firebaseRemoteStore: RemoteStore = {
+  saveNote: saveNoteToFirebase,
+  loadNotes: loadNotesFromFirebase,
+  deleteNote: deleteNoteFromFirebase,
+  subscribeToNoteChanges,
+  saveNotebook: saveNotebookToFirebase,
+  loadNotebooks: loadNotebooksFromFirebase,
+  deleteNotebook: deleteNotebookFromFirebase,
+  subscribeToNotebooks,
+  saveSavedSearch: saveSavedSearchToFirebase,
+  loadSavedSearches: loadSavedSearchesFromFirebase,
+  deleteSavedSearch: deleteSavedSearchFromFirebase,
+  subscribeToSavedSearches,
+  saveVersion: saveVersionToFirebase,
+  loadVersions: loadVersionsFromFirebase,
+  deleteVersions: deleteVersionsFromFirebase,
+  loadTombstones: loadTombstonesFromFirebase,
+  markTombstonesSeen,
+  deleteTombstones: deleteTombstonesFromFirebase,
+  subscribeToTombstones,
+  registerDevice
+};
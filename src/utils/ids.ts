@@ -0,0 +1,76 @@
+// Crockford's base32, as ULIDs use: no I, L, O or U
+const ENCODING = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const TIME_LENGTH = 10;
+const RANDOM_LENGTH = 16;
+const ID_PATTERN = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+
+const encodeTime = (time: number): string => {
+  let encoded = '';
+  for (let i = 0; i < TIME_LENGTH; i++) {
+    encoded = ENCODING[time % 32] + encoded;
+    time = Math.floor(time / 32);
+  }
+  return encoded;
+};
+
+const randomDigits = (): number[] => {
+  const bytes = crypto.getRandomValues(new Uint8Array(RANDOM_LENGTH));
+  return Array.from(bytes, byte => byte % 32);
+};
+
+let lastTime = 0;
+let lastRandom: number[] = [];
+
+/**
+ * A ULID: 26 characters that sort by creation time, with 80 random bits so IDs made on different
+ * devices in the same millisecond don't collide. IDs made in the same millisecond on this device
+ * count up from the previous one, so they still sort in creation order.
+ */
+export const createId = (): string => {
+  const now = Date.now();
+  if (now === lastTime) {
+    // Increment the previous random part as a base-32 number
+    lastRandom = [...lastRandom];
+    let i = RANDOM_LENGTH - 1;
+    while (i >= 0 && lastRandom[i] === 31) {
+      lastRandom[i--] = 0;
+    }
+    if (i >= 0) lastRandom[i]++;
+  } else {
+    lastTime = now;
+    lastRandom = randomDigits();
+  }
+  return encodeTime(now) + lastRandom.map(digit => ENCODING[digit]).join('');
+};
+
+/**
+ * Whether an ID is a ULID, as opposed to one made by older versions of the app
+ */
+export const isId = (id: string): boolean => ID_PATTERN.test(id);
+
+/**
+ * 32-bit FNV-1a hash, seeded so several can be combined
+ */
+const hash = (text: string, seed: number): number => {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+};
+
+/**
+ * The ULID replacing a note ID made by older versions of the app. It's derived from the old ID,
+ * so every device remaps a note to the same ID without coordinating. Old IDs were creation
+ * times in milliseconds, which become the time part; others fall back to the note's createdAt.
+ */
+export const legacyNoteId = (legacyId: string, createdAt: number): string => {
+  const time = /^\d{13}$/.test(legacyId) ? Number(legacyId) : createdAt || 0;
+  const random = [0, 1, 2, 3]
+    .map(seed => hash(legacyId, seed))
+    .flatMap(h => [h >>> 27, (h >>> 22) & 31, (h >>> 17) & 31, (h >>> 12) & 31])
+    .map(digit => ENCODING[digit])
+    .join('');
+  return encodeTime(time) + random;
+};
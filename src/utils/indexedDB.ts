@@ -1,75 +1,445 @@
-import { Note } from '../types';
+import { Note, Notebook, SavedSearch, NoteVersion, NoteTombstone, NoteStore, DatabaseStatus, SharedNote } from '../types';
+import { SYNC_RETRY, getRetryDelay } from '../config/syncRetry';
+import {
+  SearchDocRecord,
+  SearchTermRecord,
+  RankedNote,
+  buildSearchDoc,
+  tokenizeQuery,
+  rankDocuments
+} from './searchIndex';
+import { extractWikiLinks, normalizeLinkTarget } from './wikiLinks';
+import { broadcastToTabs, subscribeToTabs } from './tabSync';
+import { LATEST_DB_VERSION, runMigrations } from './dbMigrations';
+import { saveDbBackup, snapshotDatabase } from './dbBackup';
 
 const DB_NAME = 'SmartNoteDB';
-const DB_VERSION = 1;
 const NOTES_STORE = 'notes';
+const NOTEBOOKS_STORE = 'notebooks';
+const SAVED_SEARCHES_STORE = 'savedSearches';
 const SYNC_QUEUE_STORE = 'syncQueue';
+const SYNC_DEAD_LETTERS_STORE = 'syncDeadLetters';
+const SEARCH_DOCS_STORE = 'searchDocs';
+const SEARCH_TERMS_STORE = 'searchIndex';
+const NOTE_LINKS_STORE = 'noteLinks';
+const VERSIONS_STORE = 'versions';
+const TOMBSTONES_STORE = 'tombstones';
+const SHARED_NOTES_STORE = 'sharedNotes';
+const DEVICE_STORE = 'device';
+const DEVICE_ID_KEY = 'deviceId';
 
-interface SyncQueueItem {
+export type SyncOperation = 'create' | 'update' | 'delete';
+
+interface SyncQueueItemBase {
   id: string;
-  operation: 'create' | 'update' | 'delete';
+  timestamp: number;
+  // Retry state, set once an attempt has failed
+  attempts?: number;
+  lastError?: string;
+  nextRetry?: number;
+}
+
+interface NoteSyncQueueItem extends SyncQueueItemBase {
+  entity?: 'note'; // Items queued before notebooks existed have no entity
+  operation: SyncOperation;
   noteId: string;
   note?: Note;
-  timestamp: number;
 }
 
+interface NotebookSyncQueueItem extends SyncQueueItemBase {
+  entity: 'notebook';
+  operation: SyncOperation;
+  notebookId: string;
+  notebook?: Notebook;
+}
+
+interface SavedSearchSyncQueueItem extends SyncQueueItemBase {
+  entity: 'savedSearch';
+  operation: SyncOperation;
+  savedSearchId: string;
+  savedSearch?: SavedSearch;
+}
+
+interface VersionSyncQueueItem extends SyncQueueItemBase {
+  entity: 'version';
+  operation: 'create' | 'delete';
+  noteId: string;
+  versionId: string;
+  version?: NoteVersion;
+}
+
+export type SyncQueueItem =
+  | NoteSyncQueueItem
+  | NotebookSyncQueueItem
+  | SavedSearchSyncQueueItem
+  | VersionSyncQueueItem;
+
+// A queue item that ran out of retries
+export type DeadLetterItem = SyncQueueItem & { failedAt: number };
+
+// One record per [[link]] from a note to a (normalized) title
+interface NoteLinkRecord {
+  userId: string;
+  sourceId: string;
+  target: string;
+}
+
+const NEWER_DB_MESSAGE = 'Your offline data was upgraded by a newer version of the app. Reload to get it.';
+
+let databaseStatus: DatabaseStatus = { state: 'checking' };
+const databaseStatusListeners = new Set<(status: DatabaseStatus) => void>();
+
+const setDatabaseStatus = (status: DatabaseStatus): void => {
+  databaseStatus = status;
+  databaseStatusListeners.forEach(listener => listener(status));
+};
+
+/**
+ * Where bringing the database up to date stands
+ */
+export const getDatabaseStatus = (): DatabaseStatus => databaseStatus;
+
+/**
+ * Be told when the database status changes. Returns an unsubscribe function.
+ */
+export const subscribeToDatabaseStatus = (listener: (status: DatabaseStatus) => void): (() => void) => {
+  databaseStatusListeners.add(listener);
+  return () => {
+    databaseStatusListeners.delete(listener);
+  };
+};
+
 /**
- * Initialize IndexedDB
+ * Open the database at whatever version it has, or resolve null if it doesn't exist yet
  */
-const initDB = (): Promise<IDBDatabase> => {
+const openCurrentDB = (): Promise<IDBDatabase | null> => {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    const request = indexedDB.open(DB_NAME);
+    let missing = false;
 
-    request.onerror = () => reject(request.error);
+    // Only fires when the database doesn't exist: don't create an empty one at version 1
+    request.onupgradeneeded = () => {
+      missing = true;
+      request.transaction!.abort();
+    };
     request.onsuccess = () => resolve(request.result);
+    request.onerror = (event) => {
+      if (!missing) {
+        reject(request.error);
+        return;
+      }
+      event.preventDefault();
+      resolve(null);
+    };
+  });
+};
+
+/**
+ * Open the database at the latest version, running any pending migrations
+ */
+const openLatestDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, LATEST_DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Step aside when another tab needs to upgrade
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+
+    // Another tab still has the old version open; the upgrade goes ahead once it closes
+    request.onblocked = () => {
+      setDatabaseStatus({ state: 'blocked' });
+    };
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
+      runMigrations(request.result, request.transaction!, event.oldVersion);
+    };
+  });
+};
 
-      // Create notes store
-      if (!db.objectStoreNames.contains(NOTES_STORE)) {
-        const notesStore = db.createObjectStore(NOTES_STORE, { keyPath: 'id' });
-        notesStore.createIndex('createdAt', 'createdAt', { unique: false });
-        notesStore.createIndex('userId', 'userId', { unique: false });
+/**
+ * Back up the database if it needs migrating, then bring it to the latest version
+ */
+const upgradeDB = async (skipBackup: boolean): Promise<void> => {
+  const current = await openCurrentDB();
+  const fromVersion = current?.version || 0;
+
+  if (fromVersion > LATEST_DB_VERSION) {
+    current!.close();
+    setDatabaseStatus({ state: 'failed', reason: 'newer', message: NEWER_DB_MESSAGE });
+    throw new Error('Database is newer than this version of the app');
+  }
+
+  if (current && fromVersion < LATEST_DB_VERSION) {
+    setDatabaseStatus({ state: 'upgrading', fromVersion, toVersion: LATEST_DB_VERSION });
+    try {
+      if (!skipBackup) {
+        await saveDbBackup({
+          id: `${Date.now()}_v${fromVersion}`,
+          createdAt: Date.now(),
+          fromVersion,
+          toVersion: LATEST_DB_VERSION,
+          stores: await snapshotDatabase(current)
+        });
       }
+    } catch (error) {
+      console.error('Error backing up IndexedDB before upgrade:', error);
+      setDatabaseStatus({
+        state: 'failed',
+        reason: 'backup',
+        message: 'Your offline data could not be backed up before upgrading it, so it was left as it was.'
+      });
+      throw error;
+    } finally {
+      current.close();
+    }
+  } else {
+    current?.close();
+  }
+
+  try {
+    const db = await openLatestDB();
+    db.close();
+  } catch (error) {
+    console.error('Error upgrading IndexedDB:', error);
+    // Another tab may have upgraded past this version meanwhile
+    setDatabaseStatus((error as DOMException)?.name === 'VersionError'
+      ? { state: 'failed', reason: 'newer', message: NEWER_DB_MESSAGE }
+      : { state: 'failed', reason: 'upgrade', message: 'Your offline data could not be upgraded, so it was left as it was.' });
+    throw error;
+  }
+
+  setDatabaseStatus({ state: 'ready' });
+};
 
-      // Create sync queue store
-      if (!db.objectStoreNames.contains(SYNC_QUEUE_STORE)) {
-        const syncStore = db.createObjectStore(SYNC_QUEUE_STORE, { keyPath: 'id' });
-        syncStore.createIndex('timestamp', 'timestamp', { unique: false });
+let preparing: Promise<void> | null = null;
+
+/**
+ * Bring the database up to the latest schema, once per page load. A failed attempt can be retried,
+ * optionally without the safety backup (e.g. when storage is too full to hold one).
+ */
+export const prepareDatabase = (options: { skipBackup?: boolean } = {}): Promise<void> => {
+  if (!preparing) {
+    preparing = upgradeDB(!!options.skipBackup).catch(error => {
+      preparing = null;
+      throw error;
+    });
+  }
+  return preparing;
+};
+
+let connection: Promise<IDBDatabase> | null = null;
+
+/**
+ * The shared connection, opened on first use and kept open for the life of the page.
+ * It's let go when another tab needs to upgrade the database or the browser closes it,
+ * and reopened by the next call.
+ */
+const getDB = (): Promise<IDBDatabase> => {
+  if (connection) return connection;
+
+  const opening: Promise<IDBDatabase> = prepareDatabase()
+    .then(openLatestDB)
+    .then(db => {
+      const release = () => {
+        if (connection === opening) connection = null;
+      };
+
+      db.onversionchange = (event) => {
+        db.close();
+        release();
+        // The other tab runs a newer app; this one can't open the upgraded database
+        if (event.newVersion !== null && event.newVersion > LATEST_DB_VERSION) {
+          setDatabaseStatus({ state: 'failed', reason: 'newer', message: NEWER_DB_MESSAGE });
+        }
+      };
+      db.onclose = release;
+      return db;
+    });
+
+  connection = opening;
+  opening.catch(() => {
+    if (connection === opening) connection = null;
+  });
+  return opening;
+};
+
+/**
+ * Update a note's outgoing links within an open transaction, touching only links that changed
+ */
+const indexNoteLinks = (transaction: IDBTransaction, note: Note, userId: string): void => {
+  const linksStore = transaction.objectStore(NOTE_LINKS_STORE);
+  const targets = new Set(extractWikiLinks(note.content));
+  const request = linksStore.index('sourceId').getAll(note.id);
+
+  request.onsuccess = () => {
+    const existing = new Set((request.result as NoteLinkRecord[]).map(record => record.target));
+    existing.forEach(target => {
+      if (!targets.has(target)) linksStore.delete([note.id, target]);
+    });
+    targets.forEach(target => {
+      if (!existing.has(target)) linksStore.put({ userId, sourceId: note.id, target });
+    });
+  };
+};
+
+/**
+ * Remove a note's outgoing links within an open transaction
+ */
+const unindexNoteLinks = (transaction: IDBTransaction, noteId: string): void => {
+  const request = transaction.objectStore(NOTE_LINKS_STORE).index('sourceId').openCursor(noteId);
+
+  request.onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest).result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+};
+
+/**
+ * Read several records by key within an open transaction, then hand them over in key order
+ */
+const getMany = <T>(store: IDBObjectStore, keys: IDBValidKey[], done: (records: (T | undefined)[]) => void): void => {
+  const records: (T | undefined)[] = new Array(keys.length);
+  let remaining = keys.length;
+  if (remaining === 0) {
+    done(records);
+    return;
+  }
+
+  keys.forEach((key, i) => {
+    const request = store.get(key);
+    request.onsuccess = () => {
+      records[i] = request.result;
+      if (--remaining === 0) done(records);
+    };
+  });
+};
+
+interface SearchDocChange {
+  noteId: string;
+  userId: string;
+  oldDoc: SearchDocRecord | undefined;
+  newDoc: SearchDocRecord | null;
+}
+
+/**
+ * Apply the difference between notes' old and new search documents to the term postings.
+ * Changes to the same term are combined, so each term record is read and written once.
+ */
+const applySearchDocChanges = (transaction: IDBTransaction, changes: SearchDocChange[]): void => {
+  const termsStore = transaction.objectStore(SEARCH_TERMS_STORE);
+  const docsStore = transaction.objectStore(SEARCH_DOCS_STORE);
+  // New frequency (0 to remove) of each changed posting, by user and term
+  const postingChanges = new Map<string, { userId: string; term: string; postings: Map<string, number> }>();
+
+  changes.forEach(({ noteId, userId, oldDoc, newDoc }) => {
+    const oldFreqs = oldDoc?.termFreqs || {};
+    const newFreqs = newDoc?.termFreqs || {};
+
+    // Only terms whose frequency changed are touched, so small edits stay cheap
+    [...Object.keys(oldFreqs), ...Object.keys(newFreqs)]
+      .filter(term => oldFreqs[term] !== newFreqs[term])
+      .forEach(term => {
+        const key = `${userId}\u0000${term}`;
+        const entry = postingChanges.get(key) || { userId, term, postings: new Map() };
+        entry.postings.set(noteId, newFreqs[term] || 0);
+        postingChanges.set(key, entry);
+      });
+
+    if (newDoc) {
+      docsStore.put(newDoc);
+    } else {
+      docsStore.delete(noteId);
+    }
+  });
+
+  postingChanges.forEach(({ userId, term, postings }) => {
+    const request = termsStore.get([userId, term]);
+    request.onsuccess = () => {
+      const record: SearchTermRecord = request.result || { userId, term, postings: {} };
+      postings.forEach((tf, noteId) => {
+        if (tf) {
+          record.postings[noteId] = tf;
+        } else {
+          delete record.postings[noteId];
+        }
+      });
+
+      if (Object.keys(record.postings).length > 0) {
+        termsStore.put(record);
+      } else {
+        termsStore.delete([userId, term]);
       }
     };
   });
 };
 
 /**
- * Save a note to IndexedDB
+ * Update the search index for notes within an open transaction
+ */
+const indexNotes = (transaction: IDBTransaction, notes: Note[], userId: string): void => {
+  const newDocs = notes.map(note => buildSearchDoc(note, userId));
+
+  getMany<SearchDocRecord>(transaction.objectStore(SEARCH_DOCS_STORE), notes.map(note => note.id), oldDocs => {
+    const changes = newDocs
+      .map((newDoc, i) => ({ noteId: newDoc.noteId, userId, oldDoc: oldDocs[i], newDoc }))
+      .filter(({ oldDoc, newDoc }) => !oldDoc || oldDoc.hash !== newDoc.hash);
+    applySearchDocChanges(transaction, changes);
+  });
+};
+
+/**
+ * Remove notes from the search index within an open transaction
+ */
+const unindexNotes = (transaction: IDBTransaction, noteIds: string[]): void => {
+  getMany<SearchDocRecord>(transaction.objectStore(SEARCH_DOCS_STORE), noteIds, oldDocs => {
+    const changes = oldDocs
+      .filter((oldDoc): oldDoc is SearchDocRecord => !!oldDoc)
+      .map(oldDoc => ({ noteId: oldDoc.noteId, userId: oldDoc.userId, oldDoc, newDoc: null }));
+    applySearchDocChanges(transaction, changes);
+  });
+};
+
+/**
+ * Save notes to IndexedDB in a single transaction
  */
-export const saveNoteToIndexedDB = async (note: Note, userId: string): Promise<void> => {
-  const db = await initDB();
-  const transaction = db.transaction([NOTES_STORE], 'readwrite');
+export const saveNotesToIndexedDB = async (notes: Note[], userId: string): Promise<void> => {
+  if (notes.length === 0) return;
+
+  const db = await getDB();
+  const transaction = db.transaction([NOTES_STORE, SEARCH_DOCS_STORE, SEARCH_TERMS_STORE, NOTE_LINKS_STORE], 'readwrite');
   const store = transaction.objectStore(NOTES_STORE);
-  
-  const noteWithUserId = { ...note, userId };
-  store.put(noteWithUserId);
+
+  notes.forEach(note => {
+    store.put({ ...note, userId });
+    indexNoteLinks(transaction, note, userId);
+  });
+  indexNotes(transaction, notes, userId);
 
   return new Promise((resolve, reject) => {
-    transaction.oncomplete = () => {
-      db.close();
-      resolve();
-    };
-    transaction.onerror = () => {
-      db.close();
-      reject(transaction.error);
-    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
   });
 };
 
+/**
+ * Save a note to IndexedDB
+ */
+export const saveNoteToIndexedDB = (note: Note, userId: string): Promise<void> => {
+  return saveNotesToIndexedDB([note], userId);
+};
+
 /**
  * Get all notes for a user from IndexedDB
  */
 export const getNotesFromIndexedDB = async (userId: string): Promise<Note[]> => {
-  const db = await initDB();
+  const db = await getDB();
   const transaction = db.transaction([NOTES_STORE], 'readonly');
   const store = transaction.objectStore(NOTES_STORE);
   const index = store.index('userId');
@@ -77,14 +447,10 @@ export const getNotesFromIndexedDB = async (userId: string): Promise<Note[]> =>
 
   return new Promise((resolve, reject) => {
     request.onsuccess = () => {
-      db.close();
       const notes = request.result.map(({ userId, ...note }) => note as Note);
       resolve(notes);
     };
-    request.onerror = () => {
-      db.close();
-      reject(request.error);
-    };
+    request.onerror = () => reject(request.error);
   });
 };
 
@@ -92,14 +458,13 @@ export const getNotesFromIndexedDB = async (userId: string): Promise<Note[]> =>
  * Get a single note from IndexedDB
  */
 export const getNoteFromIndexedDB = async (noteId: string): Promise<Note | null> => {
-  const db = await initDB();
+  const db = await getDB();
   const transaction = db.transaction([NOTES_STORE], 'readonly');
   const store = transaction.objectStore(NOTES_STORE);
   const request = store.get(noteId);
 
   return new Promise((resolve, reject) => {
     request.onsuccess = () => {
-      db.close();
       if (request.result) {
         const { userId, ...note } = request.result;
         resolve(note as Note);
@@ -107,137 +472,257 @@ export const getNoteFromIndexedDB = async (noteId: string): Promise<Note | null>
         resolve(null);
       }
     };
-    request.onerror = () => {
-      db.close();
-      reject(request.error);
-    };
+    request.onerror = () => reject(request.error);
   });
 };
 
 /**
- * Delete a note from IndexedDB
+ * Delete notes from IndexedDB in a single transaction
  */
-export const deleteNoteFromIndexedDB = async (noteId: string): Promise<void> => {
-  const db = await initDB();
-  const transaction = db.transaction([NOTES_STORE], 'readwrite');
+export const deleteNotesFromIndexedDB = async (noteIds: string[]): Promise<void> => {
+  if (noteIds.length === 0) return;
+
+  const db = await getDB();
+  const transaction = db.transaction(
+    [NOTES_STORE, SEARCH_DOCS_STORE, SEARCH_TERMS_STORE, NOTE_LINKS_STORE, VERSIONS_STORE],
+    'readwrite'
+  );
   const store = transaction.objectStore(NOTES_STORE);
-  store.delete(noteId);
+  const versionsIndex = transaction.objectStore(VERSIONS_STORE).index('noteId');
 
-  return new Promise((resolve, reject) => {
-    transaction.oncomplete = () => {
-      db.close();
-      resolve();
-    };
-    transaction.onerror = () => {
-      db.close();
-      reject(transaction.error);
+  noteIds.forEach(noteId => {
+    store.delete(noteId);
+    unindexNoteLinks(transaction, noteId);
+
+    // A note's history goes with it
+    const versionsRequest = versionsIndex.openCursor(noteId);
+    versionsRequest.onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
     };
   });
+  unindexNotes(transaction, noteIds);
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Delete a note from IndexedDB
+ */
+export const deleteNoteFromIndexedDB = (noteId: string): Promise<void> => {
+  return deleteNotesFromIndexedDB([noteId]);
 };
 
 /**
  * Clear all notes for a user from IndexedDB
  */
 export const clearNotesFromIndexedDB = async (userId: string): Promise<void> => {
-  const db = await initDB();
-  const transaction = db.transaction([NOTES_STORE], 'readwrite');
-  const store = transaction.objectStore(NOTES_STORE);
-  const index = store.index('userId');
-  const request = index.openCursor(userId);
+  const db = await getDB();
+  const storeNames = [NOTES_STORE, SEARCH_DOCS_STORE, SEARCH_TERMS_STORE, NOTE_LINKS_STORE, VERSIONS_STORE, TOMBSTONES_STORE];
+  const transaction = db.transaction(storeNames, 'readwrite');
 
   return new Promise((resolve, reject) => {
-    request.onsuccess = (event) => {
-      const cursor = (event.target as IDBRequest).result;
-      if (cursor) {
-        cursor.delete();
-        cursor.continue();
-      }
-    };
-    transaction.oncomplete = () => {
-      db.close();
-      resolve();
-    };
-    transaction.onerror = () => {
-      db.close();
-      reject(transaction.error);
-    };
+    // Remove the user's notes, their history, tombstones and search and link index entries
+    storeNames.forEach(storeName => {
+      const request = transaction.objectStore(storeName).index('userId').openCursor(userId);
+      request.onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest).result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+    });
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
   });
 };
 
+const syncQueueListeners = new Set<() => void>();
+
+const notifySyncQueueChange = (): void => {
+  syncQueueListeners.forEach(listener => listener());
+  broadcastToTabs({ type: 'sync-queue-changed' });
+};
+
 /**
- * Add operation to sync queue
+ * Be told whenever the sync queue or dead-letter list changes, in this tab or another one.
+ * Returns an unsubscribe function.
  */
-export const addToSyncQueue = async (
-  operation: 'create' | 'update' | 'delete',
-  noteId: string,
-  note?: Note
+export const subscribeToSyncQueue = (listener: () => void): (() => void) => {
+  syncQueueListeners.add(listener);
+  const unsubscribeFromTabs = subscribeToTabs(message => {
+    if (message.type === 'sync-queue-changed') listener();
+  });
+
+  return () => {
+    syncQueueListeners.delete(listener);
+    unsubscribeFromTabs();
+  };
+};
+
+/**
+ * Put an item in the sync queue, replacing any pending or dead-lettered operation for the same target
+ */
+const putSyncQueueItem = async (
+  queueItem: SyncQueueItem,
+  isSameTarget: (item: SyncQueueItem) => boolean
 ): Promise<void> => {
-  const db = await initDB();
-  const transaction = db.transaction([SYNC_QUEUE_STORE], 'readwrite');
+  const db = await getDB();
+  const transaction = db.transaction([SYNC_QUEUE_STORE, SYNC_DEAD_LETTERS_STORE], 'readwrite');
   const store = transaction.objectStore(SYNC_QUEUE_STORE);
 
-  // First, get existing queue items for this note
+  // A newer write supersedes one that failed for good
+  const deadLetterStore = transaction.objectStore(SYNC_DEAD_LETTERS_STORE);
+  const deadLettersRequest = deadLetterStore.getAll();
+  deadLettersRequest.onsuccess = () => {
+    (deadLettersRequest.result as DeadLetterItem[]).forEach(item => {
+      if (isSameTarget(item)) {
+        deadLetterStore.delete(item.id);
+      }
+    });
+  };
+
+  // First, get existing queue items
   const getAllRequest = store.getAll();
   
   await new Promise<void>((resolve, reject) => {
     getAllRequest.onsuccess = () => {
       const existingItems = getAllRequest.result as SyncQueueItem[];
       
-      // Remove any existing operations for this note
+      // Remove any existing operations for this target
+      let createPending = false;
       existingItems.forEach(item => {
-        if (item.noteId === noteId) {
+        if (isSameTarget(item)) {
+          createPending = createPending || item.operation === 'create';
           store.delete(item.id);
         }
       });
 
-      // Add the new operation
-      const queueItem: SyncQueueItem = {
-        id: `${Date.now()}_${noteId}`,
-        operation,
-        noteId,
-        note,
-        timestamp: Date.now()
-      };
-
-      store.put(queueItem);
+      // Add the new operation; an update of something whose create hasn't been sent is still a create
+      store.put(createPending && queueItem.operation === 'update' ? { ...queueItem, operation: 'create' } : queueItem);
       resolve();
     };
     
-    getAllRequest.onerror = () => {
-      reject(getAllRequest.error);
-    };
+    getAllRequest.onerror = () => reject(getAllRequest.error);
   });
 
   return new Promise((resolve, reject) => {
     transaction.oncomplete = () => {
-      db.close();
+      notifySyncQueueChange();
       resolve();
     };
-    transaction.onerror = () => {
-      db.close();
-      reject(transaction.error);
-    };
+    transaction.onerror = () => reject(transaction.error);
   });
 };
 
+/**
+ * Add operation to sync queue
+ */
+export const addToSyncQueue = async (
+  operation: SyncOperation,
+  noteId: string,
+  note?: Note
+): Promise<void> => {
+  return putSyncQueueItem(
+    {
+      id: `${Date.now()}_${noteId}`,
+      operation,
+      noteId,
+      note,
+      timestamp: Date.now()
+    },
+    item =>
+      item.entity !== 'notebook' &&
+      item.entity !== 'savedSearch' &&
+      item.entity !== 'version' &&
+      item.noteId === noteId
+  );
+};
+
+/**
+ * Add a notebook operation to sync queue
+ */
+export const addNotebookToSyncQueue = async (
+  operation: SyncOperation,
+  notebookId: string,
+  notebook?: Notebook
+): Promise<void> => {
+  return putSyncQueueItem(
+    {
+      id: `${Date.now()}_notebook_${notebookId}`,
+      entity: 'notebook',
+      operation,
+      notebookId,
+      notebook,
+      timestamp: Date.now()
+    },
+    item => item.entity === 'notebook' && item.notebookId === notebookId
+  );
+};
+
+/**
+ * Add a saved search operation to sync queue
+ */
+export const addSavedSearchToSyncQueue = async (
+  operation: SyncOperation,
+  savedSearchId: string,
+  savedSearch?: SavedSearch
+): Promise<void> => {
+  return putSyncQueueItem(
+    {
+      id: `${Date.now()}_savedSearch_${savedSearchId}`,
+      entity: 'savedSearch',
+      operation,
+      savedSearchId,
+      savedSearch,
+      timestamp: Date.now()
+    },
+    item => item.entity === 'savedSearch' && item.savedSearchId === savedSearchId
+  );
+};
+
+/**
+ * Add a version upload or removal to sync queue
+ */
+export const addVersionToSyncQueue = async (
+  operation: 'create' | 'delete',
+  noteId: string,
+  versionId: string,
+  version?: NoteVersion
+): Promise<void> => {
+  return putSyncQueueItem(
+    {
+      id: `${Date.now()}_version_${versionId}`,
+      entity: 'version',
+      operation,
+      noteId,
+      versionId,
+      version,
+      timestamp: Date.now()
+    },
+    item => item.entity === 'version' && item.versionId === versionId
+  );
+};
+
 /**
  * Get all pending sync operations
  */
 export const getSyncQueue = async (): Promise<SyncQueueItem[]> => {
-  const db = await initDB();
+  const db = await getDB();
   const transaction = db.transaction([SYNC_QUEUE_STORE], 'readonly');
   const store = transaction.objectStore(SYNC_QUEUE_STORE);
   const request = store.getAll();
 
   return new Promise((resolve, reject) => {
-    request.onsuccess = () => {
-      db.close();
-      resolve(request.result);
-    };
-    request.onerror = () => {
-      db.close();
-      reject(request.error);
-    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
   });
 };
 
@@ -245,20 +730,17 @@ export const getSyncQueue = async (): Promise<SyncQueueItem[]> => {
  * Clear sync queue after successful sync
  */
 export const clearSyncQueue = async (): Promise<void> => {
-  const db = await initDB();
+  const db = await getDB();
   const transaction = db.transaction([SYNC_QUEUE_STORE], 'readwrite');
   const store = transaction.objectStore(SYNC_QUEUE_STORE);
   store.clear();
 
   return new Promise((resolve, reject) => {
     transaction.oncomplete = () => {
-      db.close();
+      notifySyncQueueChange();
       resolve();
     };
-    transaction.onerror = () => {
-      db.close();
-      reject(transaction.error);
-    };
+    transaction.onerror = () => reject(transaction.error);
   });
 };
 
@@ -266,19 +748,454 @@ export const clearSyncQueue = async (): Promise<void> => {
  * Remove specific item from sync queue
  */
 export const removeFromSyncQueue = async (queueItemId: string): Promise<void> => {
-  const db = await initDB();
+  const db = await getDB();
   const transaction = db.transaction([SYNC_QUEUE_STORE], 'readwrite');
   const store = transaction.objectStore(SYNC_QUEUE_STORE);
   store.delete(queueItemId);
 
   return new Promise((resolve, reject) => {
     transaction.oncomplete = () => {
-      db.close();
+      notifySyncQueueChange();
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Record a failed sync attempt: schedule the item's next retry with exponential backoff,
+ * or move it to the dead-letter list once it has used up its attempts
+ */
+export const markSyncItemFailed = async (queueItemId: string, error: string): Promise<void> => {
+  const db = await getDB();
+  const transaction = db.transaction([SYNC_QUEUE_STORE, SYNC_DEAD_LETTERS_STORE], 'readwrite');
+  const store = transaction.objectStore(SYNC_QUEUE_STORE);
+  const request = store.get(queueItemId);
+
+  request.onsuccess = () => {
+    const item = request.result as SyncQueueItem | undefined;
+    // Superseded by a newer write while it was in flight
+    if (!item) return;
+
+    const attempts = (item.attempts || 0) + 1;
+    const now = Date.now();
+
+    if (attempts >= SYNC_RETRY.maxAttempts) {
+      store.delete(queueItemId);
+      transaction.objectStore(SYNC_DEAD_LETTERS_STORE).put({ ...item, attempts, lastError: error, failedAt: now });
+    } else {
+      store.put({ ...item, attempts, lastError: error, nextRetry: now + getRetryDelay(attempts) });
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => {
+      notifySyncQueueChange();
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Get sync operations that ran out of retries
+ */
+export const getDeadLetters = async (): Promise<DeadLetterItem[]> => {
+  const db = await getDB();
+  const transaction = db.transaction([SYNC_DEAD_LETTERS_STORE], 'readonly');
+  const request = transaction.objectStore(SYNC_DEAD_LETTERS_STORE).getAll();
+
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Move a dead-lettered operation back into the sync queue with a fresh set of attempts
+ */
+export const retryDeadLetter = async (deadLetterId: string): Promise<void> => {
+  const db = await getDB();
+  const transaction = db.transaction([SYNC_QUEUE_STORE, SYNC_DEAD_LETTERS_STORE], 'readwrite');
+  const deadLetterStore = transaction.objectStore(SYNC_DEAD_LETTERS_STORE);
+  const request = deadLetterStore.get(deadLetterId);
+
+  request.onsuccess = () => {
+    if (!request.result) return;
+    const { failedAt, attempts, lastError, nextRetry, ...item } = request.result as DeadLetterItem;
+    deadLetterStore.delete(deadLetterId);
+    transaction.objectStore(SYNC_QUEUE_STORE).put(item);
+  };
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => {
+      notifySyncQueueChange();
       resolve();
     };
-    transaction.onerror = () => {
-      db.close();
-      reject(transaction.error);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Give up on a dead-lettered operation
+ */
+export const discardDeadLetter = async (deadLetterId: string): Promise<void> => {
+  const db = await getDB();
+  const transaction = db.transaction([SYNC_DEAD_LETTERS_STORE], 'readwrite');
+  transaction.objectStore(SYNC_DEAD_LETTERS_STORE).delete(deadLetterId);
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => {
+      notifySyncQueueChange();
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Save a notebook to IndexedDB
+ */
+export const saveNotebookToIndexedDB = async (notebook: Notebook, userId: string): Promise<void> => {
+  const db = await getDB();
+  const transaction = db.transaction([NOTEBOOKS_STORE], 'readwrite');
+  const store = transaction.objectStore(NOTEBOOKS_STORE);
+  store.put({ ...notebook, userId });
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Get all notebooks for a user from IndexedDB
+ */
+export const getNotebooksFromIndexedDB = async (userId: string): Promise<Notebook[]> => {
+  const db = await getDB();
+  const transaction = db.transaction([NOTEBOOKS_STORE], 'readonly');
+  const store = transaction.objectStore(NOTEBOOKS_STORE);
+  const index = store.index('userId');
+  const request = index.getAll(userId);
+
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const notebooks = request.result.map(({ userId, ...notebook }) => notebook as Notebook);
+      resolve(notebooks);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Delete a notebook from IndexedDB
+ */
+export const deleteNotebookFromIndexedDB = async (notebookId: string): Promise<void> => {
+  const db = await getDB();
+  const transaction = db.transaction([NOTEBOOKS_STORE], 'readwrite');
+  const store = transaction.objectStore(NOTEBOOKS_STORE);
+  store.delete(notebookId);
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Full-text search over a user's notes using the persistent inverted index.
+ * Every query word must match a whole word or word prefix; results are BM25-ranked.
+ */
+export const searchNotesInIndexedDB = async (userId: string, query: string): Promise<RankedNote[]> => {
+  const queryTerms = tokenizeQuery(query);
+  if (queryTerms.length === 0) return [];
+
+  const db = await getDB();
+  const transaction = db.transaction([SEARCH_DOCS_STORE, SEARCH_TERMS_STORE], 'readonly');
+  const docsRequest = transaction.objectStore(SEARCH_DOCS_STORE).index('userId').getAll(userId);
+  const termsStore = transaction.objectStore(SEARCH_TERMS_STORE);
+
+  // Look up each query word both as a stem and as a typed prefix
+  const termRequests = queryTerms.map(({ raw, stem }) => {
+    const prefix = stem.length < raw.length ? stem : raw;
+    return termsStore.getAll(IDBKeyRange.bound([userId, prefix], [userId, `${prefix}\uffff`]));
+  });
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => {
+      const docs = docsRequest.result as SearchDocRecord[];
+      const matches = termRequests.map(request => request.result as SearchTermRecord[]);
+      resolve(rankDocuments(queryTerms, matches, docs));
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * IDs of the user's notes that contain a [[link]] to the given title
+ */
+export const getBacklinkIdsFromIndexedDB = async (userId: string, title: string): Promise<string[]> => {
+  const target = normalizeLinkTarget(title);
+  if (!target) return [];
+
+  const db = await getDB();
+  const transaction = db.transaction([NOTE_LINKS_STORE], 'readonly');
+  const request = transaction.objectStore(NOTE_LINKS_STORE).index('target').getAll([userId, target]);
+
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve((request.result as NoteLinkRecord[]).map(record => record.sourceId));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Save a saved search to IndexedDB
+ */
+export const saveSavedSearchToIndexedDB = async (savedSearch: SavedSearch, userId: string): Promise<void> => {
+  const db = await getDB();
+  const transaction = db.transaction([SAVED_SEARCHES_STORE], 'readwrite');
+  const store = transaction.objectStore(SAVED_SEARCHES_STORE);
+  store.put({ ...savedSearch, userId });
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Get all saved searches for a user from IndexedDB
+ */
+export const getSavedSearchesFromIndexedDB = async (userId: string): Promise<SavedSearch[]> => {
+  const db = await getDB();
+  const transaction = db.transaction([SAVED_SEARCHES_STORE], 'readonly');
+  const store = transaction.objectStore(SAVED_SEARCHES_STORE);
+  const index = store.index('userId');
+  const request = index.getAll(userId);
+
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const savedSearches = request.result.map(({ userId, ...savedSearch }) => savedSearch as SavedSearch);
+      resolve(savedSearches);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Delete a saved search from IndexedDB
+ */
+export const deleteSavedSearchFromIndexedDB = async (savedSearchId: string): Promise<void> => {
+  const db = await getDB();
+  const transaction = db.transaction([SAVED_SEARCHES_STORE], 'readwrite');
+  const store = transaction.objectStore(SAVED_SEARCHES_STORE);
+  store.delete(savedSearchId);
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Save version snapshots to IndexedDB
+ */
+export const saveVersionsToIndexedDB = async (versions: NoteVersion[], userId: string): Promise<void> => {
+  const db = await getDB();
+  const transaction = db.transaction([VERSIONS_STORE], 'readwrite');
+  const store = transaction.objectStore(VERSIONS_STORE);
+  versions.forEach(version => store.put({ ...version, userId }));
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Get a note's version history from IndexedDB
+ */
+export const getVersionsFromIndexedDB = async (noteId: string): Promise<NoteVersion[]> => {
+  const db = await getDB();
+  const transaction = db.transaction([VERSIONS_STORE], 'readonly');
+  const request = transaction.objectStore(VERSIONS_STORE).index('noteId').getAll(noteId);
+
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result.map(({ userId, ...version }) => version as NoteVersion));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Delete version snapshots from IndexedDB
+ */
+export const deleteVersionsFromIndexedDB = async (versionIds: string[]): Promise<void> => {
+  const db = await getDB();
+  const transaction = db.transaction([VERSIONS_STORE], 'readwrite');
+  const store = transaction.objectStore(VERSIONS_STORE);
+  versionIds.forEach(versionId => store.delete(versionId));
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Save note tombstones to IndexedDB
+ */
+export const saveTombstonesToIndexedDB = async (tombstones: NoteTombstone[], userId: string): Promise<void> => {
+  const db = await getDB();
+  const transaction = db.transaction([TOMBSTONES_STORE], 'readwrite');
+  const store = transaction.objectStore(TOMBSTONES_STORE);
+  tombstones.forEach(tombstone => store.put({ ...tombstone, userId }));
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Get all note tombstones for a user from IndexedDB
+ */
+export const getTombstonesFromIndexedDB = async (userId: string): Promise<NoteTombstone[]> => {
+  const db = await getDB();
+  const transaction = db.transaction([TOMBSTONES_STORE], 'readonly');
+  const request = transaction.objectStore(TOMBSTONES_STORE).index('userId').getAll(userId);
+
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result.map(({ userId, ...tombstone }) => tombstone as NoteTombstone));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Get the tombstone of a deleted note, if there is one
+ */
+export const getTombstoneFromIndexedDB = async (noteId: string): Promise<NoteTombstone | null> => {
+  const db = await getDB();
+  const transaction = db.transaction([TOMBSTONES_STORE], 'readonly');
+  const request = transaction.objectStore(TOMBSTONES_STORE).get(noteId);
+
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      if (request.result) {
+        const { userId, ...tombstone } = request.result;
+        resolve(tombstone as NoteTombstone);
+      } else {
+        resolve(null);
+      }
     };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Delete note tombstones from IndexedDB
+ */
+export const deleteTombstonesFromIndexedDB = async (noteIds: string[]): Promise<void> => {
+  const db = await getDB();
+  const transaction = db.transaction([TOMBSTONES_STORE], 'readwrite');
+  const store = transaction.objectStore(TOMBSTONES_STORE);
+  noteIds.forEach(noteId => store.delete(noteId));
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Keep a copy of a shared note opened on this device, so it can be read again offline
+ */
+export const saveSharedNoteToIndexedDB = async (note: SharedNote): Promise<void> => {
+  const db = await getDB();
+  const transaction = db.transaction([SHARED_NOTES_STORE], 'readwrite');
+  transaction.objectStore(SHARED_NOTES_STORE).put(note);
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Get the copy of a shared note kept from an earlier visit, if there is one
+ */
+export const getSharedNoteFromIndexedDB = async (shareId: string): Promise<SharedNote | null> => {
+  const db = await getDB();
+  const transaction = db.transaction([SHARED_NOTES_STORE], 'readonly');
+  const request = transaction.objectStore(SHARED_NOTES_STORE).get(shareId);
+
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Drop the kept copy of a note that is no longer shared
+ */
+export const deleteSharedNoteFromIndexedDB = async (shareId: string): Promise<void> => {
+  const db = await getDB();
+  const transaction = db.transaction([SHARED_NOTES_STORE], 'readwrite');
+  transaction.objectStore(SHARED_NOTES_STORE).delete(shareId);
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
   });
 };
+
+/**
+ * Keep a copy of this device's ID where the service worker, which has no localStorage, can read it
+ */
+export const saveDeviceIdToIndexedDB = async (deviceId: string): Promise<void> => {
+  const db = await getDB();
+  const transaction = db.transaction([DEVICE_STORE], 'readwrite');
+  transaction.objectStore(DEVICE_STORE).put(deviceId, DEVICE_ID_KEY);
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * This device's ID as a tab last saved it, or null if none has yet
+ */
+export const getDeviceIdFromIndexedDB = async (): Promise<string | null> => {
+  const db = await getDB();
+  const transaction = db.transaction([DEVICE_STORE], 'readonly');
+  const request = transaction.objectStore(DEVICE_STORE).get(DEVICE_ID_KEY);
+
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * IndexedDB as the NoteStore
+ */
+export const indexedDBNoteStore: NoteStore = {
+  saveNote: saveNoteToIndexedDB,
+  saveNotes: saveNotesToIndexedDB,
+  getNotes: getNotesFromIndexedDB,
+  getNote: getNoteFromIndexedDB,
+  deleteNote: deleteNoteFromIndexedDB,
+  deleteNotes: deleteNotesFromIndexedDB,
+  saveVersions: saveVersionsToIndexedDB,
+  getVersions: getVersionsFromIndexedDB,
+  deleteVersions: deleteVersionsFromIndexedDB,
+  addToSyncQueue,
+  addVersionToSyncQueue,
+  getSyncQueue,
+  removeFromSyncQueue,
+  markSyncItemFailed,
+  saveTombstones: saveTombstonesToIndexedDB,
+  getTombstones: getTombstonesFromIndexedDB,
+  getTombstone: getTombstoneFromIndexedDB,
+  deleteTombstones: deleteTombstonesFromIndexedDB
+};
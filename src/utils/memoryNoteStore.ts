@@ -0,0 +1,119 @@
+import { Note, NoteStore, NoteTombstone, NoteVersion } from '../types';
+import { SYNC_RETRY, getRetryDelay } from '../config/syncRetry';
+import { SyncQueueItem, DeadLetterItem } from './indexedDB';
+
+/**
+ * One device's notes kept in memory, with the sync queue, retries and tombstones IndexedDB has
+ */
+export interface MemoryNoteStore extends NoteStore {
+  // Queue items that ran out of retries
+  getDeadLetters: () => DeadLetterItem[];
+}
+
+/**
+ * Copy data the way it round-trips through IndexedDB: no shared references, no undefined fields
+ */
+const copy = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+/**
+ * An in-memory stand-in for IndexedDB, for running sync without a browser. Pair it with a client
+ * of createMemoryRemote() to simulate a device.
+ */
+export const createMemoryNoteStore = (): MemoryNoteStore => {
+  const notes = new Map<string, { note: Note; userId: string }>();
+  const versions = new Map<string, NoteVersion>();
+  const tombstones = new Map<string, { tombstone: NoteTombstone; userId: string }>();
+  const syncQueue = new Map<string, SyncQueueItem>();
+  const deadLetters = new Map<string, DeadLetterItem>();
+
+  // Like IndexedDB, a newer operation replaces any queued or dead one for the same target
+  const putSyncQueueItem = (queueItem: SyncQueueItem, isSameTarget: (item: SyncQueueItem) => boolean) => {
+    deadLetters.forEach(item => {
+      if (isSameTarget(item)) deadLetters.delete(item.id);
+    });
+
+    let createPending = false;
+    syncQueue.forEach(item => {
+      if (isSameTarget(item)) {
+        createPending = createPending || item.operation === 'create';
+        syncQueue.delete(item.id);
+      }
+    });
+
+    // An update of something whose create hasn't been sent is still a create
+    const item = createPending && queueItem.operation === 'update' ? { ...queueItem, operation: 'create' as const } : queueItem;
+    syncQueue.set(item.id, copy(item));
+  };
+
+  const saveNotes = async (notesToSave: Note[], userId: string): Promise<void> => {
+    notesToSave.forEach(note => notes.set(note.id, { note: copy(note), userId }));
+  };
+
+  const deleteNotes = async (noteIds: string[]): Promise<void> => {
+    noteIds.forEach(noteId => notes.delete(noteId));
+  };
+
+  return {
+    saveNote: (note, userId) => saveNotes([note], userId),
+    saveNotes,
+    getNotes: async (userId) => copy(Array.from(notes.values()).filter(entry => entry.userId === userId).map(entry => entry.note)),
+    getNote: async (noteId) => copy(notes.get(noteId)?.note ?? null),
+    deleteNote: (noteId) => deleteNotes([noteId]),
+    deleteNotes,
+
+    saveVersions: async (versionsToSave) => {
+      versionsToSave.forEach(version => versions.set(version.id, copy(version)));
+    },
+    getVersions: async (noteId) => copy(Array.from(versions.values()).filter(version => version.noteId === noteId)),
+    deleteVersions: async (versionIds) => {
+      versionIds.forEach(versionId => versions.delete(versionId));
+    },
+
+    addToSyncQueue: async (operation, noteId, note) => {
+      putSyncQueueItem(
+        { id: `${Date.now()}_${noteId}`, operation, noteId, note, timestamp: Date.now() },
+        item =>
+          item.entity !== 'notebook' &&
+          item.entity !== 'savedSearch' &&
+          item.entity !== 'version' &&
+          item.noteId === noteId
+      );
+    },
+    addVersionToSyncQueue: async (operation, noteId, versionId, version) => {
+      putSyncQueueItem(
+        { id: `${Date.now()}_version_${versionId}`, entity: 'version', operation, noteId, versionId, version, timestamp: Date.now() },
+        item => item.entity === 'version' && item.versionId === versionId
+      );
+    },
+    getSyncQueue: async () => copy(Array.from(syncQueue.values()).sort((a, b) => a.timestamp - b.timestamp)),
+    removeFromSyncQueue: async (queueItemId) => {
+      syncQueue.delete(queueItemId);
+    },
+    markSyncItemFailed: async (queueItemId, error) => {
+      const item = syncQueue.get(queueItemId);
+      // Superseded by a newer write while it was in flight
+      if (!item) return;
+
+      const attempts = (item.attempts || 0) + 1;
+      const now = Date.now();
+
+      if (attempts >= SYNC_RETRY.maxAttempts) {
+        syncQueue.delete(queueItemId);
+        deadLetters.set(queueItemId, { ...item, attempts, lastError: error, failedAt: now });
+      } else {
+        syncQueue.set(queueItemId, { ...item, attempts, lastError: error, nextRetry: now + getRetryDelay(attempts) });
+      }
+    },
+    getDeadLetters: () => copy(Array.from(deadLetters.values())),
+
+    saveTombstones: async (tombstonesToSave, userId) => {
+      tombstonesToSave.forEach(tombstone => tombstones.set(tombstone.noteId, { tombstone: copy(tombstone), userId }));
+    },
+    getTombstones: async (userId) =>
+      copy(Array.from(tombstones.values()).filter(entry => entry.userId === userId).map(entry => entry.tombstone)),
+    getTombstone: async (noteId) => copy(tombstones.get(noteId)?.tombstone ?? null),
+    deleteTombstones: async (noteIds) => {
+      noteIds.forEach(noteId => tombstones.delete(noteId));
+    }
+  };
+};
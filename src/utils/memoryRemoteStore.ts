@@ -0,0 +1,299 @@
+import { Note, NoteChange, NoteTombstone, NoteVersion, Notebook, SavedSearch, RemoteStore } from '../types';
+
+interface UserData {
+  notes: Map<string, Note>;
+  versions: Map<string, Map<string, NoteVersion>>; // By note, then version
+  notebooks: Map<string, Notebook>;
+  savedSearches: Map<string, SavedSearch>;
+  tombstones: Map<string, NoteTombstone>;
+  devices: Map<string, number>;
+}
+
+interface Subscription {
+  userId: string;
+  client: ClientState;
+  // Sends whatever changed since the last delivery
+  deliver: () => void;
+  delivering: Promise<void>;
+}
+
+interface ClientState {
+  online: boolean;
+  failNext: { count: number; message: string };
+}
+
+export interface MemoryRemoteOptions {
+  // Delay of every call and delivery in ms, fixed or picked between min and max
+  latency?: number | { min: number; max: number };
+  // Chance from 0 to 1 that a call fails
+  failureRate?: number;
+  // Source of randomness for latency and failures, e.g. a seeded generator for repeatable runs
+  random?: () => number;
+}
+
+/**
+ * One device's connection to the in-memory backend
+ */
+export interface MemoryRemoteClient extends RemoteStore {
+  // While offline calls reject and subscriptions pause; reconnecting delivers what was missed
+  setOnline: (online: boolean) => void;
+  // Make the next calls fail, e.g. to exercise retries
+  failNext: (count?: number, message?: string) => void;
+}
+
+export interface MemoryRemote {
+  connect: (options?: MemoryRemoteOptions) => MemoryRemoteClient;
+  getNotes: (userId: string) => Note[];
+  getTombstones: (userId: string) => NoteTombstone[];
+}
+
+/**
+ * Copy data the way it round-trips through a cloud backend: no shared references, no undefined fields
+ */
+const copy = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * The fields of a note the cloud keeps, as saveNoteToFirebase writes them
+ */
+const toStoredNote = (note: Note): Note => copy({
+  id: note.id,
+  title: note.title,
+  content: note.content,
+  createdAt: note.createdAt,
+  updatedAt: note.updatedAt || Date.now(),
+  shareId: note.shareId,
+  notebookId: note.notebookId || null,
+  tags: note.tags || [],
+  trashedAt: note.trashedAt,
+  deviceId: note.deviceId
+});
+
+/**
+ * An in-memory stand-in for the cloud, for running sync without a browser or a live backend.
+ * Every `connect()` is a separate device with its own latency, failures and connectivity,
+ * writing to the same data, so concurrent writers can be simulated.
+ */
+export const createMemoryRemote = (): MemoryRemote => {
+  const users = new Map<string, UserData>();
+  const subscriptions = new Set<Subscription>();
+
+  const getUser = (userId: string): UserData => {
+    let data = users.get(userId);
+    if (!data) {
+      data = {
+        notes: new Map(),
+        versions: new Map(),
+        notebooks: new Map(),
+        savedSearches: new Map(),
+        tombstones: new Map(),
+        devices: new Map()
+      };
+      users.set(userId, data);
+    }
+    return data;
+  };
+
+  // Tell the user's subscribers something changed
+  const notify = (userId: string) => {
+    subscriptions.forEach(subscription => {
+      if (subscription.userId === userId) subscription.deliver();
+    });
+  };
+
+  const connect = (options: MemoryRemoteOptions = {}): MemoryRemoteClient => {
+    const { latency = 0, failureRate = 0, random = Math.random } = options;
+    const client: ClientState = { online: true, failNext: { count: 0, message: '' } };
+
+    const pickLatency = (): number => {
+      if (typeof latency === 'number') return latency;
+      return latency.min + random() * (latency.max - latency.min);
+    };
+
+    // Run an operation against the data after the client's latency, or fail like the network would
+    const call = async <T>(operation: () => T): Promise<T> => {
+      await sleep(pickLatency());
+      if (!client.online) {
+        throw new Error('Cloud is unreachable (offline)');
+      }
+      if (client.failNext.count > 0) {
+        client.failNext.count--;
+        throw new Error(client.failNext.message);
+      }
+      if (random() < failureRate) {
+        throw new Error('Simulated cloud failure');
+      }
+      return copy(operation());
+    };
+
+    // Deliveries to one subscriber stay in order and are sent once the client is online
+    const subscribe = (userId: string, sendChanges: () => void): (() => void) => {
+      const subscription: Subscription = {
+        userId,
+        client,
+        deliver: () => {
+          subscription.delivering = subscription.delivering
+            .then(() => sleep(pickLatency()))
+            .then(() => {
+              if (client.online && subscriptions.has(subscription)) sendChanges();
+            });
+        },
+        delivering: Promise.resolve()
+      };
+      subscriptions.add(subscription);
+      subscription.deliver();
+      return () => {
+        subscriptions.delete(subscription);
+      };
+    };
+
+    // Send a whole list, like a value listener, whenever it changes
+    const subscribeToList = <T>(userId: string, getList: () => T[], callback: (list: T[]) => void) => {
+      let sent: string | null = null;
+
+      return subscribe(userId, () => {
+        const list = getList();
+        const serialized = JSON.stringify(list);
+        if (serialized === sent) return;
+        sent = serialized;
+        callback(copy(list));
+      });
+    };
+
+    return {
+      setOnline: (online: boolean) => {
+        client.online = online;
+        if (online) {
+          subscriptions.forEach(subscription => {
+            if (subscription.client === client) subscription.deliver();
+          });
+        }
+      },
+
+      failNext: (count = 1, message = 'Simulated cloud failure') => {
+        client.failNext = { count, message };
+      },
+
+      saveNote: (userId, note) => call(() => {
+        getUser(userId).notes.set(note.id, toStoredNote(note));
+        notify(userId);
+      }),
+
+      loadNotes: (userId, since = 0) => call(() =>
+        Array.from(getUser(userId).notes.values())
+          .filter(note => (note.updatedAt || 0) >= since)
+          .sort((a, b) => (a.updatedAt || 0) - (b.updatedAt || 0))
+      ),
+
+      deleteNote: (userId, tombstone) => call(() => {
+        const data = getUser(userId);
+        data.notes.delete(tombstone.noteId);
+        data.versions.delete(tombstone.noteId);
+        data.tombstones.set(tombstone.noteId, copy(tombstone));
+        notify(userId);
+      }),
+
+      subscribeToNoteChanges: (userId, since, callback: (change: NoteChange) => void) => {
+        // What this subscriber has been sent, to work out what changed since
+        const sent = new Map<string, string>();
+
+        return subscribe(userId, () => {
+          const notes = getUser(userId).notes;
+
+          notes.forEach(note => {
+            const serialized = JSON.stringify(note);
+            if ((note.updatedAt || 0) < since || sent.get(note.id) === serialized) return;
+            sent.set(note.id, serialized);
+            callback({ type: 'saved', note: copy(note) });
+          });
+
+          Array.from(sent.keys()).forEach(noteId => {
+            if (notes.has(noteId)) return;
+            sent.delete(noteId);
+            callback({ type: 'removed', noteId });
+          });
+        });
+      },
+
+      saveNotebook: (userId, notebook) => call(() => {
+        getUser(userId).notebooks.set(notebook.id, copy(notebook));
+        notify(userId);
+      }),
+
+      deleteNotebook: (userId, notebookId) => call(() => {
+        getUser(userId).notebooks.delete(notebookId);
+        notify(userId);
+      }),
+
+      loadNotebooks: (userId) => call(() => Array.from(getUser(userId).notebooks.values())),
+
+      subscribeToNotebooks: (userId, callback) =>
+        subscribeToList(userId, () => Array.from(getUser(userId).notebooks.values()), callback),
+
+      saveSavedSearch: (userId, savedSearch) => call(() => {
+        getUser(userId).savedSearches.set(savedSearch.id, copy(savedSearch));
+        notify(userId);
+      }),
+
+      deleteSavedSearch: (userId, savedSearchId) => call(() => {
+        getUser(userId).savedSearches.delete(savedSearchId);
+        notify(userId);
+      }),
+
+      loadSavedSearches: (userId) => call(() => Array.from(getUser(userId).savedSearches.values())),
+
+      subscribeToSavedSearches: (userId, callback) =>
+        subscribeToList(userId, () => Array.from(getUser(userId).savedSearches.values()), callback),
+
+      saveVersion: (userId, version) => call(() => {
+        const versions = getUser(userId).versions;
+        if (!versions.has(version.noteId)) versions.set(version.noteId, new Map());
+        versions.get(version.noteId)!.set(version.id, copy(version));
+      }),
+
+      loadVersions: (userId, noteId) => call(() =>
+        Array.from(getUser(userId).versions.get(noteId)?.values() ?? [])
+      ),
+
+      deleteVersions: (userId, noteId, versionIds) => call(() => {
+        const versions = getUser(userId).versions.get(noteId);
+        versionIds.forEach(versionId => versions?.delete(versionId));
+      }),
+
+      loadTombstones: (userId) => call(() => Array.from(getUser(userId).tombstones.values())),
+
+      markTombstonesSeen: (userId, noteIds, deviceId) => call(() => {
+        const tombstones = getUser(userId).tombstones;
+        noteIds.forEach(noteId => {
+          const tombstone = tombstones.get(noteId);
+          if (tombstone) {
+            tombstone.seenBy = { ...tombstone.seenBy, [deviceId]: Date.now() };
+          }
+        });
+        notify(userId);
+      }),
+
+      deleteTombstones: (userId, noteIds) => call(() => {
+        const tombstones = getUser(userId).tombstones;
+        noteIds.forEach(noteId => tombstones.delete(noteId));
+        notify(userId);
+      }),
+
+      subscribeToTombstones: (userId, callback) =>
+        subscribeToList(userId, () => Array.from(getUser(userId).tombstones.values()), callback),
+
+      registerDevice: (userId, deviceId) => call(() => {
+        const devices = getUser(userId).devices;
+        devices.set(deviceId, Date.now());
+        return Object.fromEntries(devices);
+      })
+    };
+  };
+
+  return {
+    connect,
+    getNotes: (userId) => copy(Array.from(getUser(userId).notes.values())),
+    getTombstones: (userId) => copy(Array.from(getUser(userId).tombstones.values()))
+  };
+};
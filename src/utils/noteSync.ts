@@ -0,0 +1,232 @@
+import { Note, NoteTombstone, NoteStores } from '../types';
+import { mergeNoteRevisions, markSynced } from './threeWayMerge';
+import { getSyncItemNoteId } from './syncStatus';
+import { createTombstone, mergeTombstones, applyTombstones, getCollectableTombstones } from './tombstones';
+import { isId, legacyNoteId } from './ids';
+import { getDeltaStart, advanceSyncCursor } from './syncCursor';
+import { recordSynced } from './syncQueue';
+
+const legacyIdsMovedKey = (userId: string) => `legacyNoteIdsMoved_${userId}`;
+
+/**
+ * Merge notes changed in Firebase into the local notes with a three-way merge against each note's sync base.
+ * Local notes that aren't among the changes are as the cloud has them, unless they never reached it.
+ * Returns the full merged list, the merged copies of the changed notes, and the notes whose
+ * local changes still need uploading.
+ */
+const mergeNotes = (
+  localNotes: Note[],
+  changedNotes: Note[]
+): { notes: Note[]; merged: Note[]; toUpload: Note[] } => {
+  const mergedMap = new Map<string, Note>(localNotes.map(note => [note.id, note]));
+  const merged: Note[] = [];
+  const toUpload: Note[] = [];
+  
+  console.log(`Merging notes - Local: ${localNotes.length}, changed in Firebase: ${changedNotes.length}`);
+  
+  // Merge the Firebase changes into the local copies
+  changedNotes.forEach(firebaseNote => {
+    const localNote = mergedMap.get(firebaseNote.id);
+    
+    if (!localNote) {
+      // Created on another device
+      const note = markSynced(firebaseNote);
+      mergedMap.set(note.id, note);
+      merged.push(note);
+      return;
+    }
+
+    const { outcome, note } = mergeNoteRevisions(localNote, firebaseNote);
+    console.log(`Merged note ${localNote.id}: ${outcome}`);
+    mergedMap.set(note.id, note);
+    merged.push(note);
+
+    if (outcome === 'local' || outcome === 'merged') {
+      toUpload.push(note);
+    }
+  });
+
+  // Local-only notes (created offline) that never reached the cloud
+  const changedIds = new Set(changedNotes.map(note => note.id));
+  localNotes.forEach(localNote => {
+    if (!localNote.syncBase && !changedIds.has(localNote.id)) {
+      console.log(`Keeping local-only note: ${localNote.id}`);
+      toUpload.push(localNote);
+    }
+  });
+  
+  return {
+    notes: Array.from(mergedMap.values()).sort((a, b) => b.createdAt - a.createdAt),
+    merged,
+    toUpload
+  };
+};
+
+/**
+ * Move cloud notes still stored under IDs from older versions of the app to the IDs IndexedDB
+ * gave them (see dbMigrations), with their history. The old ID gets a tombstone, so devices
+ * still on an older version swap their copy for the moved one. Share links and version IDs
+ * don't change. Returns the notes under their current IDs.
+ */
+const moveLegacyNotes = async ({ remote, device }: NoteStores, userId: string, notes: Note[]): Promise<Note[]> => {
+  const moved: Note[] = [];
+  for (const note of notes) {
+    if (isId(note.id)) {
+      moved.push(note);
+      continue;
+    }
+
+    const movedNote = { ...note, id: legacyNoteId(note.id, note.createdAt) };
+    const versions = await remote.loadVersions(userId, note.id);
+    for (const version of versions) {
+      await remote.saveVersion(userId, { ...version, noteId: movedNote.id });
+    }
+    await remote.saveNote(userId, movedNote);
+    await remote.deleteNote(userId, createTombstone(note.id, device.getDeviceId()));
+    moved.push(movedNote);
+  }
+  return moved;
+};
+
+/**
+ * Upload merged notes, queueing any that fail for the next sync
+ */
+export const uploadMergedNotes = async (stores: NoteStores, userId: string, notesToUpload: Note[]): Promise<void> => {
+  const { local, remote } = stores;
+  for (const note of notesToUpload) {
+    try {
+      await remote.saveNote(userId, note);
+      await recordSynced(stores, userId, note);
+    } catch (err) {
+      console.error(`Error uploading merged note ${note.id}:`, err);
+      await local.addToSyncQueue('update', note.id, note);
+    }
+  }
+};
+
+/**
+ * Mark cloud tombstones as seen by this device and store them locally with any local ones,
+ * then drop tombstones every device has seen. Returns the tombstones to apply now,
+ * including ones just dropped, so this device still deletes its copies.
+ */
+const syncTombstones = async ({ local, remote, device }: NoteStores, userId: string): Promise<NoteTombstone[]> => {
+  const deviceId = device.getDeviceId();
+  const [remoteTombstones, localTombstones, syncQueue] = await Promise.all([
+    remote.loadTombstones(userId),
+    local.getTombstones(userId),
+    local.getSyncQueue()
+  ]);
+  const devices = await remote.registerDevice(userId, deviceId);
+
+  const unseenIds = remoteTombstones.filter(t => t.seenBy?.[deviceId] === undefined).map(t => t.noteId);
+  await remote.markTombstonesSeen(userId, unseenIds, deviceId);
+  const seenAt = Date.now();
+  const seenTombstones = remoteTombstones.map(tombstone =>
+    unseenIds.includes(tombstone.noteId)
+      ? { ...tombstone, seenBy: { ...tombstone.seenBy, [deviceId]: seenAt } }
+      : tombstone
+  );
+
+  // Local tombstones missing from the cloud were collected there, unless their delete is still queued
+  const remoteIds = new Set(seenTombstones.map(t => t.noteId));
+  const queuedDeletes = new Set(
+    syncQueue.filter(item => item.operation === 'delete').map(getSyncItemNoteId)
+  );
+  const collectedElsewhere = localTombstones
+    .filter(t => !remoteIds.has(t.noteId) && !queuedDeletes.has(t.noteId))
+    .map(t => t.noteId);
+
+  const collectable = getCollectableTombstones(seenTombstones, devices).map(t => t.noteId);
+  await remote.deleteTombstones(userId, collectable);
+
+  const tombstones = mergeTombstones(seenTombstones, localTombstones.filter(t => !collectedElsewhere.includes(t.noteId)));
+  await local.deleteTombstones([...collectedElsewhere, ...collectable]);
+  await local.saveTombstones(tombstones.filter(t => !collectable.includes(t.noteId)), userId);
+
+  return tombstones;
+};
+
+/**
+ * Apply tombstones to local and cloud notes: delete local copies of deleted notes, delete cloud
+ * copies that were re-uploaded from stale devices, and drop tombstones of notes edited since.
+ * Returns the notes that remain on each side.
+ */
+const applyNoteTombstones = async (
+  { local, remote }: NoteStores,
+  userId: string,
+  localNotes: Note[],
+  firebaseNotes: Note[],
+  tombstones: NoteTombstone[]
+): Promise<{ localNotes: Note[]; firebaseNotes: Note[] }> => {
+  const localResult = applyTombstones(localNotes, tombstones);
+  const remoteResult = applyTombstones(firebaseNotes, tombstones);
+
+  await local.deleteNotes(localResult.deleted.map(note => note.id));
+  for (const note of remoteResult.deleted) {
+    const tombstone = tombstones.find(t => t.noteId === note.id)!;
+    await remote.deleteNote(userId, tombstone);
+  }
+
+  const revivedIds = mergeTombstones(localResult.revived, remoteResult.revived).map(t => t.noteId);
+  if (revivedIds.length > 0) {
+    await local.deleteTombstones(revivedIds);
+    await remote.deleteTombstones(userId, revivedIds);
+  }
+
+  return { localNotes: localResult.kept, firebaseNotes: remoteResult.kept };
+};
+
+/**
+ * Bring the local notes up to date with the cloud: apply deletions, three-way merge the notes
+ * changed since the last sync along with `deferred` ones held back earlier, and upload whatever
+ * is newer here. Returns every local note, the cloud notes that were merged, and the IDs of
+ * local notes that changed or were deleted.
+ */
+export const pullNoteChanges = async (
+  stores: NoteStores,
+  userId: string,
+  deferred: Note[] = []
+): Promise<{ notes: Note[]; pulled: Note[]; changedIds: string[] }> => {
+  const { local, remote, device } = stores;
+
+  // Once per device, move every cloud note with an old-style ID, however long unchanged
+  if (!device.getItem(legacyIdsMovedKey(userId))) {
+    const legacyNotes = (await remote.loadNotes(userId, 0)).filter(note => !isId(note.id));
+    await moveLegacyNotes(stores, userId, legacyNotes);
+    device.setItem(legacyIdsMovedKey(userId), String(Date.now()));
+  }
+
+  // Then load what changed in the cloud since the last sync, leaving out deleted notes.
+  // With nothing stored locally yet, load every note.
+  const tombstones = await syncTombstones(stores, userId);
+  const storedNotes = await local.getNotes(userId);
+  const since = storedNotes.length > 0 ? getDeltaStart(device, userId) : 0;
+  // Devices on an older version may still write old-style IDs
+  const changedNotes = await moveLegacyNotes(stores, userId, await remote.loadNotes(userId, since));
+  deferred.forEach(note => {
+    if (!changedNotes.some(changed => changed.id === note.id)) {
+      changedNotes.push(note);
+    }
+  });
+  const { localNotes, firebaseNotes } = await applyNoteTombstones(
+    stores,
+    userId,
+    storedNotes,
+    changedNotes,
+    tombstones
+  );
+
+  // Three-way merge the changes into the local notes
+  const { notes: mergedNotes, merged, toUpload } = mergeNotes(localNotes, firebaseNotes);
+
+  // Update the local store with the merged changes
+  await local.saveNotes(merged, userId);
+
+  // Push local and merged changes back to the cloud
+  await uploadMergedNotes(stores, userId, toUpload);
+  advanceSyncCursor(device, userId, changedNotes);
+
+  const keptIds = new Set(localNotes.map(note => note.id));
+  const deletedIds = storedNotes.filter(note => !keptIds.has(note.id)).map(note => note.id);
+  return { notes: mergedNotes, pulled: changedNotes, changedIds: [...merged.map(note => note.id), ...deletedIds] };
+};
@@ -0,0 +1,108 @@
+import { Note, Notebook } from '../types';
+
+export interface NotebookNode {
+  notebook: Notebook;
+  children: NotebookNode[];
+  depth: number;
+}
+
+/**
+ * Generate a unique notebook ID
+ */
+export const generateNotebookId = (): string => {
+  return `nb-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+};
+
+/**
+ * Build the nested notebook tree, sorted by name at each level.
+ * Notebooks whose parent no longer exists are shown at the root.
+ */
+export const buildNotebookTree = (notebooks: Notebook[]): NotebookNode[] => {
+  const ids = new Set(notebooks.map(nb => nb.id));
+  const byParent = new Map<string | null, Notebook[]>();
+
+  notebooks.forEach(notebook => {
+    const parentId = notebook.parentId && ids.has(notebook.parentId) ? notebook.parentId : null;
+    byParent.set(parentId, [...(byParent.get(parentId) || []), notebook]);
+  });
+
+  const build = (parentId: string | null, depth: number, seen: Set<string>): NotebookNode[] => {
+    return (byParent.get(parentId) || [])
+      .filter(notebook => !seen.has(notebook.id))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(notebook => ({
+        notebook,
+        depth,
+        children: build(notebook.id, depth + 1, new Set([...seen, notebook.id]))
+      }));
+  };
+
+  return build(null, 0, new Set());
+};
+
+/**
+ * Get the IDs of every notebook nested under the given one
+ */
+export const getDescendantIds = (notebooks: Notebook[], notebookId: string): Set<string> => {
+  const descendants = new Set<string>();
+  const queue = [notebookId];
+
+  while (queue.length > 0) {
+    const parentId = queue.shift()!;
+    notebooks.forEach(notebook => {
+      if (notebook.parentId === parentId && !descendants.has(notebook.id)) {
+        descendants.add(notebook.id);
+        queue.push(notebook.id);
+      }
+    });
+  }
+
+  return descendants;
+};
+
+/**
+ * A notebook can't be moved into itself or one of its own descendants
+ */
+export const canMoveNotebook = (
+  notebooks: Notebook[],
+  notebookId: string,
+  newParentId: string | null
+): boolean => {
+  if (newParentId === null) return true;
+  if (newParentId === notebookId) return false;
+  return !getDescendantIds(notebooks, notebookId).has(newParentId);
+};
+
+/**
+ * Notes in a notebook or any of its sub-notebooks
+ */
+export const filterNotesByNotebook = (
+  notes: Note[],
+  notebooks: Notebook[],
+  notebookId: string | null
+): Note[] => {
+  if (notebookId === null) return notes;
+  const ids = getDescendantIds(notebooks, notebookId);
+  ids.add(notebookId);
+  return notes.filter(note => note.notebookId && ids.has(note.notebookId));
+};
+
+/**
+ * Count notes per notebook, including notes in sub-notebooks
+ */
+export const countNotesByNotebook = (notes: Note[], notebooks: Notebook[]): Map<string, number> => {
+  const parents = new Map(notebooks.map(nb => [nb.id, nb.parentId]));
+  const counts = new Map<string, number>();
+
+  notes.forEach(note => {
+    const seen = new Set<string>();
+    let current = note.notebookId || null;
+    while (current && parents.has(current) && !seen.has(current)) {
+      seen.add(current);
+      counts.set(current, (counts.get(current) || 0) + 1);
+      current = parents.get(current) || null;
+    }
+  });
+
+  return counts;
+};
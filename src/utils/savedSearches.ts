@@ -0,0 +1,38 @@
+import { SavedSearch } from '../types';
+
+/**
+ * Generate a unique saved search ID
+ */
+export const generateSavedSearchId = (): string => {
+  return `ss-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+};
+
+/**
+ * Saved searches in sidebar order; ties (e.g. concurrent creates on two devices) fall back to creation time
+ */
+export const sortSavedSearches = (savedSearches: SavedSearch[]): SavedSearch[] => {
+  return [...savedSearches].sort((a, b) => a.position - b.position || a.createdAt - b.createdAt);
+};
+
+/**
+ * Move a saved search to `targetIndex` in sidebar order.
+ * Returns only the entries whose position changed, ready to persist.
+ */
+export const reorderSavedSearches = (
+  savedSearches: SavedSearch[],
+  savedSearchId: string,
+  targetIndex: number
+): SavedSearch[] => {
+  const ordered = sortSavedSearches(savedSearches);
+  const fromIndex = ordered.findIndex(savedSearch => savedSearch.id === savedSearchId);
+  if (fromIndex === -1) return [];
+
+  const [moved] = ordered.splice(fromIndex, 1);
+  ordered.splice(Math.max(0, Math.min(targetIndex, ordered.length)), 0, moved);
+
+  const now = Date.now();
+  return ordered
+    .map((savedSearch, position) => ({ savedSearch, position }))
+    .filter(({ savedSearch, position }) => savedSearch.position !== position)
+    .map(({ savedSearch, position }) => ({ ...savedSearch, position, updatedAt: now }));
+};
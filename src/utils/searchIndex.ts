@@ -0,0 +1,244 @@
+import { Note } from '../types';
+
+export interface QueryTerm {
+  raw: string;
+  stem: string;
+}
+
+export interface SearchDocRecord {
+  noteId: string;
+  userId: string;
+  hash: string;
+  length: number;
+  termFreqs: Record<string, number>;
+}
+
+export interface SearchTermRecord {
+  userId: string;
+  term: string;
+  postings: Record<string, number>;
+}
+
+export interface SearchSnippet {
+  text: string;
+  ranges: Array<[number, number]>;
+}
+
+export interface RankedNote {
+  noteId: string;
+  score: number;
+}
+
+// Title words count as if they appeared this many times in the body
+const TITLE_BOOST = 3;
+// Prefix matches score lower than whole-word matches
+const PREFIX_WEIGHT = 0.7;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 140;
+
+const WORD_REGEX = /[\p{L}\p{N}]+/gu;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in', 'into', 'is', 'it',
+  'no', 'not', 'of', 'on', 'or', 'such', 'that', 'the', 'their', 'then', 'there', 'these',
+  'they', 'this', 'to', 'was', 'will', 'with'
+]);
+
+const STEM_SUFFIXES: Array<[string, string]> = [
+  ['ational', 'ate'],
+  ['tional', 'tion'],
+  ['ization', 'ize'],
+  ['fulness', 'ful'],
+  ['ousness', 'ous'],
+  ['iveness', 'ive'],
+  ['ation', 'ate'],
+  ['ness', ''],
+  ['ment', ''],
+  ['able', ''],
+  ['ible', ''],
+  ['ing', ''],
+  ['ies', 'y'],
+  ['ied', 'y'],
+  ['ed', ''],
+  ['ly', ''],
+  ['er', ''],
+  ['es', ''],
+  ['s', '']
+];
+
+/**
+ * Light suffix-stripping stemmer; index and queries only need to agree with each other
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  for (const [suffix, replacement] of STEM_SUFFIXES) {
+    if (!word.endsWith(suffix)) continue;
+    if (suffix === 's' && /(ss|us|is)$/.test(word)) return word;
+
+    const base = word.slice(0, -suffix.length) + replacement;
+    if (base.length < 3) return word;
+
+    // running -> run, stopped -> stop
+    if (replacement === '' && /([^aeiouslz])\1$/.test(base)) {
+      return base.slice(0, -1);
+    }
+    return base;
+  }
+
+  return word;
+};
+
+/**
+ * Split text into lowercase words, skipping stop words
+ */
+export const tokenize = (text: string): string[] => {
+  const words: string[] = [];
+  for (const match of text.toLowerCase().matchAll(WORD_REGEX)) {
+    if (!STOP_WORDS.has(match[0])) {
+      words.push(match[0]);
+    }
+  }
+  return words;
+};
+
+/**
+ * Tokenize a search query, keeping both the typed word (for prefix matching) and its stem
+ */
+export const tokenizeQuery = (query: string): QueryTerm[] => {
+  return Array.from(new Set(tokenize(query))).map(raw => ({ raw, stem: stem(raw) }));
+};
+
+/**
+ * Cheap content hash so unchanged notes aren't re-indexed on every save
+ */
+const hashText = (text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `${text.length}:${hash >>> 0}`;
+};
+
+/**
+ * Build the index document for a note: stemmed term frequencies and length
+ */
+export const buildSearchDoc = (note: Note, userId: string): SearchDocRecord => {
+  const termFreqs: Record<string, number> = {};
+  let length = 0;
+
+  const addWords = (text: string, weight: number) => {
+    tokenize(text).forEach(word => {
+      const term = stem(word);
+      termFreqs[term] = (termFreqs[term] || 0) + weight;
+      length += weight;
+    });
+  };
+
+  addWords(note.title, TITLE_BOOST);
+  addWords(note.content, 1);
+
+  return {
+    noteId: note.id,
+    userId,
+    hash: hashText(`${note.title}\u0000${note.content}`),
+    length,
+    termFreqs
+  };
+};
+
+/**
+ * BM25-rank the notes matching every query term.
+ * `matches[i]` holds the index terms found for `queryTerms[i]` (exact stem or prefix).
+ */
+export const rankDocuments = (
+  queryTerms: QueryTerm[],
+  matches: SearchTermRecord[][],
+  docs: SearchDocRecord[]
+): RankedNote[] => {
+  const totalDocs = docs.length;
+  if (totalDocs === 0 || queryTerms.length === 0) return [];
+
+  const docLengths = new Map(docs.map(doc => [doc.noteId, doc.length]));
+  const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / totalDocs || 1;
+  let scores: Map<string, number> | null = null;
+
+  for (let i = 0; i < queryTerms.length; i++) {
+    const termScores = new Map<string, number>();
+
+    matches[i].forEach(record => {
+      const postings = Object.entries(record.postings);
+      const idf = Math.log(1 + (totalDocs - postings.length + 0.5) / (postings.length + 0.5));
+      const weight = record.term === queryTerms[i].stem ? 1 : PREFIX_WEIGHT;
+
+      postings.forEach(([noteId, tf]) => {
+        const length = docLengths.get(noteId);
+        if (length === undefined) return;
+        const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (length / avgLength));
+        const score = weight * idf * ((tf * (BM25_K1 + 1)) / norm);
+        termScores.set(noteId, Math.max(termScores.get(noteId) || 0, score));
+      });
+    });
+
+    // Every query term has to match
+    const previous: Map<string, number> | null = scores;
+    const combined = new Map<string, number>();
+    termScores.forEach((score, noteId) => {
+      if (!previous) {
+        combined.set(noteId, score);
+      } else if (previous.has(noteId)) {
+        combined.set(noteId, previous.get(noteId)! + score);
+      }
+    });
+    scores = combined;
+  }
+
+  return Array.from(scores?.entries() ?? [])
+    .map(([noteId, score]) => ({ noteId, score }))
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Character ranges of words in `text` that match a query term
+ */
+export const findMatchRanges = (text: string, queryTerms: QueryTerm[]): Array<[number, number]> => {
+  const ranges: Array<[number, number]> = [];
+  if (queryTerms.length === 0) return ranges;
+
+  for (const match of text.matchAll(WORD_REGEX)) {
+    const word = match[0].toLowerCase();
+    const wordStem = stem(word);
+    const isMatch = queryTerms.some(term =>
+      word.startsWith(term.raw) || wordStem === term.stem || wordStem.startsWith(term.stem)
+    );
+    if (isMatch) {
+      ranges.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+
+  return ranges;
+};
+
+/**
+ * Build a short excerpt around the first match in the content
+ */
+export const buildSnippet = (content: string, queryTerms: QueryTerm[]): SearchSnippet => {
+  const firstMatch = findMatchRanges(content, queryTerms)[0];
+  let start = firstMatch ? Math.max(0, firstMatch[0] - SNIPPET_BEFORE) : 0;
+
+  // Don't cut the first word in half
+  if (start > 0) {
+    const space = content.indexOf(' ', start);
+    if (space !== -1 && space < (firstMatch?.[0] ?? start)) {
+      start = space + 1;
+    }
+  }
+
+  const end = Math.min(content.length, start + SNIPPET_LENGTH);
+  const excerpt = content.slice(start, end).replace(/\s+/g, ' ').trim();
+  const text = `${start > 0 ? '…' : ''}${excerpt}${end < content.length ? '…' : ''}`;
+
+  return { text, ranges: findMatchRanges(text, queryTerms) };
+};
@@ -0,0 +1,487 @@
+import { Note, Notebook } from '../types';
+import { normalizeTag, getNoteTags } from './tags';
+import { extractCodeLanguages } from './codeBlocks';
+import { getDescendantIds } from './notebooks';
+import { tokenizeQuery } from './searchIndex';
+
+export type QueryOperator = 'tag' | 'in' | 'lang' | 'before' | 'after' | 'is';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; value: string }
+  | { type: 'phrase'; value: string }
+  | { type: 'field'; operator: QueryOperator; value: string };
+
+export interface QueryError {
+  message: string;
+  position: number;
+}
+
+export interface ParsedQuery {
+  ast: QueryNode | null;
+  error: QueryError | null;
+}
+
+export interface QueryContext {
+  notebooks: Notebook[];
+  // Note IDs matching each free-text word, looked up in the search index
+  textMatches: Map<string, Set<string>>;
+  now: number;
+}
+
+export interface QuerySuggestion {
+  // Text that replaces the word under the cursor
+  value: string;
+  label: string;
+  description?: string;
+}
+
+export const QUERY_OPERATORS: Array<{ operator: QueryOperator; description: string; example: string }> = [
+  { operator: 'tag', description: 'Notes with a tag', example: 'tag:infra' },
+  { operator: 'in', description: 'Notes in a notebook (and its sub-notebooks)', example: 'in:work' },
+  { operator: 'lang', description: 'Notes with a code block in a language', example: 'lang:python' },
+  { operator: 'before', description: 'Edited before a date', example: 'before:2026-01-01' },
+  { operator: 'after', description: 'Edited on or after a date', example: 'after:7d' },
+  { operator: 'is', description: 'Note state', example: 'is:shared' }
+];
+
+const IS_VALUES: Array<{ value: string; description: string }> = [
+  { value: 'shared', description: 'Shared publicly' },
+  { value: 'tagged', description: 'Has at least one tag' },
+  { value: 'untagged', description: 'Has no tags' }
+];
+
+const DATE_KEYWORDS: Array<{ value: string; description: string }> = [
+  { value: 'today', description: 'Since midnight' },
+  { value: 'yesterday', description: 'Since yesterday at midnight' },
+  { value: 'this-week', description: 'Since Monday' },
+  { value: 'this-month', description: 'Since the 1st of the month' },
+  { value: '7d', description: 'Last 7 days (also w, m, y)' }
+];
+
+const DAY_MS = 86400000;
+const RELATIVE_DATE_REGEX = /^(\d+)([dwmy])$/;
+const ISO_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Resolve a date value (YYYY-MM-DD, today, 7d, ...) to a timestamp at local midnight.
+ * Relative values are resolved against `now` so saved queries stay live.
+ */
+export const resolveQueryDate = (value: string, now: number): number | null => {
+  const startOfDay = (time: number) => {
+    const date = new Date(time);
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+  };
+
+  const iso = value.match(ISO_DATE_REGEX);
+  if (iso) {
+    const date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    // Reject rollovers like 2026-02-31
+    return date.getMonth() === Number(iso[2]) - 1 && date.getDate() === Number(iso[3]) ? date.getTime() : null;
+  }
+
+  const relative = value.match(RELATIVE_DATE_REGEX);
+  if (relative) {
+    const amount = Number(relative[1]);
+    const date = new Date(startOfDay(now));
+    switch (relative[2]) {
+      case 'd': date.setDate(date.getDate() - amount); break;
+      case 'w': date.setDate(date.getDate() - amount * 7); break;
+      case 'm': date.setMonth(date.getMonth() - amount); break;
+      case 'y': date.setFullYear(date.getFullYear() - amount); break;
+    }
+    return date.getTime();
+  }
+
+  switch (value) {
+    case 'today':
+      return startOfDay(now);
+    case 'yesterday':
+      return startOfDay(now) - DAY_MS;
+    case 'this-week': {
+      const date = new Date(startOfDay(now));
+      date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+      return date.getTime();
+    }
+    case 'this-month': {
+      const date = new Date(startOfDay(now));
+      date.setDate(1);
+      return date.getTime();
+    }
+    default:
+      return null;
+  }
+};
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'not'; position: number }
+  | { kind: 'term'; position: number; negated: boolean; node: QueryNode };
+
+class QuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+  }
+}
+
+const isOperator = (name: string): name is QueryOperator => {
+  return QUERY_OPERATORS.some(({ operator }) => operator === name);
+};
+
+/**
+ * Validate an operator value and normalize it
+ */
+const parseFieldValue = (operator: QueryOperator, rawValue: string, position: number): string => {
+  if (!rawValue) {
+    const { example } = QUERY_OPERATORS.find(op => op.operator === operator)!;
+    throw new QuerySyntaxError(`"${operator}:" needs a value, for example ${example}`, position);
+  }
+
+  switch (operator) {
+    case 'tag':
+      return normalizeTag(rawValue);
+    case 'lang':
+    case 'in':
+      return rawValue.toLowerCase();
+    case 'before':
+    case 'after':
+      if (resolveQueryDate(rawValue.toLowerCase(), Date.now()) === null) {
+        throw new QuerySyntaxError(
+          `"${rawValue}" isn't a valid date for ${operator}:. Use YYYY-MM-DD, today, yesterday, this-week, this-month or a span like 7d`,
+          position
+        );
+      }
+      return rawValue.toLowerCase();
+    case 'is': {
+      const value = rawValue.toLowerCase();
+      if (!IS_VALUES.some(option => option.value === value)) {
+        throw new QuerySyntaxError(
+          `Unknown value "is:${rawValue}". Try ${IS_VALUES.map(option => `is:${option.value}`).join(', ')}`,
+          position
+        );
+      }
+      return value;
+    }
+  }
+};
+
+/**
+ * Split a query into parentheses, OR keywords and terms
+ */
+const lex = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (): string => {
+    const start = i;
+    i++; // opening quote
+    const end = query.indexOf('"', i);
+    if (end === -1) {
+      throw new QuerySyntaxError('Missing closing quote', start);
+    }
+    const value = query.slice(i, end);
+    i = end + 1;
+    return value;
+  };
+
+  const readWord = (): string => {
+    const start = i;
+    while (i < query.length && !/[\s()"]/.test(query[i])) i++;
+    return query.slice(start, i);
+  };
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', position: i });
+      i++;
+      continue;
+    }
+
+    const position = i;
+    const negated = char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1]);
+    if (negated) i++;
+
+    if (negated && query[i] === '(') {
+      tokens.push({ kind: 'not', position });
+      continue;
+    }
+
+    if (query[i] === '"') {
+      const value = readQuoted().trim();
+      if (!value) {
+        throw new QuerySyntaxError('Empty quotes', position);
+      }
+      tokens.push({ kind: 'term', position, negated, node: { type: 'phrase', value } });
+      continue;
+    }
+
+    const word = readWord();
+    const field = word.match(/^([a-zA-Z]+):(.*)$/);
+
+    if (word === 'OR' && !negated) {
+      tokens.push({ kind: 'or', position });
+    } else if (word === 'AND' && !negated) {
+      // AND is implicit between terms
+    } else if (field && !field[2].startsWith('//')) {
+      const name = field[1].toLowerCase();
+      if (!isOperator(name)) {
+        throw new QuerySyntaxError(
+          `Unknown operator "${field[1]}:". Try ${QUERY_OPERATORS.map(op => `${op.operator}:`).join(', ')}`,
+          position
+        );
+      }
+      const rawValue = field[2] === '' && query[i] === '"' ? readQuoted() : field[2];
+      tokens.push({
+        kind: 'term',
+        position,
+        negated,
+        node: { type: 'field', operator: name, value: parseFieldValue(name, rawValue.trim(), position) }
+      });
+    } else {
+      tokens.push({ kind: 'term', position, negated, node: { type: 'text', value: word } });
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Parse a search query into an AST.
+ * Terms are ANDed; supports OR, -negation, (groups), "phrases" and operator:value filters.
+ * Words the index leaves out, like "the", match nothing and everything alike, so they're dropped.
+ */
+export const parseSearchQuery = (query: string): ParsedQuery => {
+  try {
+    const tokens = lex(query);
+    let index = 0;
+
+    // Each returns null for terms that were all dropped
+    const parseOr = (): QueryNode | null => {
+      const branches = [parseAnd()];
+      while (tokens[index]?.kind === 'or') {
+        index++;
+        branches.push(parseAnd());
+      }
+      const children = branches.filter((child): child is QueryNode => child !== null);
+      if (children.length === 0) return null;
+      return children.length === 1 ? children[0] : { type: 'or', children };
+    };
+
+    const parseAnd = (): QueryNode | null => {
+      const start = index;
+      const children: QueryNode[] = [];
+      while (index < tokens.length && tokens[index].kind !== 'or' && tokens[index].kind !== 'rparen') {
+        const child = parseUnary();
+        if (child) children.push(child);
+      }
+      if (index === start) {
+        const token = tokens[index];
+        throw new QuerySyntaxError(
+          token ? `Expected a search term before "${token.kind === 'or' ? 'OR' : ')'}"` : 'Expected a search term after "OR"',
+          token ? token.position : query.length
+        );
+      }
+      if (children.length === 0) return null;
+      return children.length === 1 ? children[0] : { type: 'and', children };
+    };
+
+    const parseGroup = (): QueryNode | null => {
+      const open = tokens[index++];
+      const node = parseOr();
+      if (tokens[index]?.kind !== 'rparen') {
+        throw new QuerySyntaxError('Missing closing parenthesis', open.position);
+      }
+      index++;
+      return node;
+    };
+
+    const parseUnary = (): QueryNode | null => {
+      const token = tokens[index];
+
+      if (token.kind === 'lparen') {
+        return parseGroup();
+      }
+      if (token.kind === 'not') {
+        // Always followed by the group's "(" token
+        index++;
+        const child = parseGroup();
+        return child && { type: 'not', child };
+      }
+      if (token.kind !== 'term') {
+        throw new QuerySyntaxError('Unexpected token', token.position);
+      }
+
+      index++;
+      if (token.node.type === 'text' && tokenizeQuery(token.node.value).length === 0) return null;
+      return token.negated ? { type: 'not', child: token.node } : token.node;
+    };
+
+    if (tokens.length === 0) {
+      return { ast: null, error: null };
+    }
+
+    const ast = parseOr();
+    if (index < tokens.length) {
+      throw new QuerySyntaxError('Unexpected closing parenthesis', tokens[index].position);
+    }
+    return { ast, error: null };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { ast: null, error: { message: error.message, position: error.position } };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Free-text words the query needs looked up in the search index.
+ * `positiveOnly` skips negated terms, e.g. for ranking and highlighting.
+ */
+export const collectTextTerms = (ast: QueryNode | null, positiveOnly = false): string[] => {
+  const words = new Set<string>();
+
+  const visit = (node: QueryNode, negated: boolean) => {
+    switch (node.type) {
+      case 'and':
+      case 'or':
+        node.children.forEach(child => visit(child, negated));
+        break;
+      case 'not':
+        visit(node.child, !negated);
+        break;
+      case 'text':
+      case 'phrase':
+        if (!positiveOnly || !negated) {
+          tokenizeQuery(node.value).forEach(term => words.add(term.raw));
+        }
+        break;
+    }
+  };
+
+  if (ast) visit(ast, false);
+  return Array.from(words);
+};
+
+const normalizeWhitespace = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Check whether a note matches a parsed query
+ */
+export const evaluateQuery = (ast: QueryNode | null, note: Note, context: QueryContext): boolean => {
+  if (!ast) return true;
+
+  const hasWords = (value: string) =>
+    tokenizeQuery(value).every(term => context.textMatches.get(term.raw)?.has(note.id));
+
+  switch (ast.type) {
+    case 'and':
+      return ast.children.every(child => evaluateQuery(child, note, context));
+    case 'or':
+      return ast.children.some(child => evaluateQuery(child, note, context));
+    case 'not':
+      return !evaluateQuery(ast.child, note, context);
+    case 'text':
+      return hasWords(ast.value);
+    case 'phrase':
+      // The index narrows candidates; the exact phrase is then checked on the text
+      return hasWords(ast.value) &&
+        normalizeWhitespace(`${note.title}\n${note.content}`).includes(normalizeWhitespace(ast.value));
+    case 'field':
+      switch (ast.operator) {
+        case 'tag':
+          return getNoteTags(note).includes(ast.value);
+        case 'lang':
+          return extractCodeLanguages(note.content).includes(ast.value);
+        case 'in': {
+          const notebookIds = new Set<string>();
+          context.notebooks
+            .filter(notebook => notebook.name.toLowerCase() === ast.value)
+            .forEach(notebook => {
+              notebookIds.add(notebook.id);
+              getDescendantIds(context.notebooks, notebook.id).forEach(id => notebookIds.add(id));
+            });
+          return !!note.notebookId && notebookIds.has(note.notebookId);
+        }
+        case 'before':
+        case 'after': {
+          const date = resolveQueryDate(ast.value, context.now);
+          const edited = note.updatedAt || note.createdAt;
+          if (date === null) return false;
+          return ast.operator === 'before' ? edited < date : edited >= date;
+        }
+        case 'is':
+          switch (ast.value) {
+            case 'shared':
+              return !!note.shareId;
+            case 'tagged':
+              return getNoteTags(note).length > 0;
+            case 'untagged':
+              return getNoteTags(note).length === 0;
+            default:
+              return false;
+          }
+      }
+  }
+};
+
+/**
+ * Autocomplete hints for the word under the cursor
+ */
+export const getQuerySuggestions = (
+  query: string,
+  cursor: number,
+  options: { tags: string[]; notebooks: Notebook[]; languages: string[] }
+): QuerySuggestion[] => {
+  const before = query.slice(0, cursor);
+  const word = before.match(/-?[^\s()]*$/)?.[0] || '';
+  const negation = word.startsWith('-') ? '-' : '';
+  const bare = word.slice(negation.length);
+  const field = bare.match(/^([a-zA-Z]+):"?(.*)$/);
+
+  const complete = (operator: string, values: Array<{ value: string; description?: string }>, typed: string) =>
+    values
+      .filter(({ value }) => value.toLowerCase().startsWith(typed.toLowerCase()) && value.toLowerCase() !== typed.toLowerCase())
+      .slice(0, 8)
+      .map(({ value, description }) => {
+        const quoted = /\s/.test(value) ? `"${value}"` : value;
+        return { value: `${negation}${operator}:${quoted}`, label: `${operator}:${quoted}`, description };
+      });
+
+  if (field) {
+    const operator = field[1].toLowerCase();
+    const typed = field[2];
+    switch (operator) {
+      case 'tag':
+        return complete('tag', options.tags.map(value => ({ value })), typed);
+      case 'in':
+        return complete('in', options.notebooks.map(notebook => ({ value: notebook.name })), typed);
+      case 'lang':
+        return complete('lang', options.languages.map(value => ({ value })), typed);
+      case 'is':
+        return complete('is', IS_VALUES, typed);
+      case 'before':
+      case 'after':
+        return complete(operator, DATE_KEYWORDS, typed);
+      default:
+        return [];
+    }
+  }
+
+  if (!bare) return [];
+
+  return QUERY_OPERATORS
+    .filter(({ operator }) => operator.startsWith(bare.toLowerCase()))
+    .map(({ operator, description, example }) => ({
+      value: `${negation}${operator}:`,
+      label: `${operator}:`,
+      description: `${description} — ${example}`
+    }));
+};
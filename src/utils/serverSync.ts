@@ -0,0 +1,306 @@
+import { Note, Notebook, SavedSearch, NoteVersion, NoteTombstone, NoteChange, RemoteStore } from '../types';
+import { auth } from '../config/firebase';
+import { SYNC_SERVER_URL, SYNC_SERVER_RECONNECT } from '../config/syncServer';
+import { DELTA_SYNC } from '../config/deltaSync';
+
+// Pushed by the server over the events socket
+type ServerEvent =
+  | { type: 'ready' }
+  | { type: 'note'; noteId: string; note: Note | null }
+  | { type: 'notebooks'; notebooks: Notebook[] }
+  | { type: 'savedSearches'; savedSearches: SavedSearch[] }
+  | { type: 'tombstones'; tombstones: NoteTombstone[] };
+
+interface EventSubscriber {
+  // Runs on every (re)connect, to catch up on changes missed while disconnected
+  onConnect: () => void;
+  onEvent: (event: ServerEvent) => void;
+}
+
+interface EventConnection {
+  socket: WebSocket | null;
+  ready: boolean;
+  attempts: number;
+  reconnectTimer?: ReturnType<typeof setTimeout>;
+  subscribers: Set<EventSubscriber>;
+}
+
+/**
+ * The signed-in user's Firebase ID token, which the server verifies
+ */
+const getToken = async (): Promise<string | undefined> => auth.currentUser?.getIdToken();
+
+/**
+ * Call the sync server for a user; `action` describes the call in errors
+ */
+const request = async <T>(
+  userId: string,
+  path: string,
+  action: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<T> => {
+  try {
+    const token = await getToken();
+    const response = await fetch(`${SYNC_SERVER_URL}/users/${encodeURIComponent(userId)}${path}`, {
+      method: init.method || 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body)
+    });
+    if (!response.ok) {
+      throw new Error(`Sync server responded ${response.status}`);
+    }
+    return response.status === 204 ? (undefined as T) : await response.json();
+  } catch (error) {
+    console.error(`Error trying to ${action} on sync server:`, error);
+    throw new Error(`Failed to ${action} on sync server`);
+  }
+};
+
+const toNote = (note: any): Note => ({
+  id: note.id,
+  title: note.title,
+  content: note.content,
+  createdAt: note.createdAt,
+  updatedAt: note.updatedAt,
+  shareId: note.shareId || undefined,
+  notebookId: note.notebookId || null,
+  tags: note.tags || [],
+  trashedAt: note.trashedAt || undefined,
+  deviceId: note.deviceId || undefined
+});
+
+// One events socket per user, shared by every subscription
+const connections = new Map<string, EventConnection>();
+
+const openConnection = (userId: string, connection: EventConnection) => {
+  const socket = new WebSocket(`${SYNC_SERVER_URL.replace(/^http/, 'ws')}/users/${encodeURIComponent(userId)}/events`);
+  connection.socket = socket;
+
+  socket.onopen = async () => {
+    socket.send(JSON.stringify({ type: 'auth', token: await getToken() }));
+  };
+
+  socket.onmessage = (message: MessageEvent<string>) => {
+    const event: ServerEvent = JSON.parse(message.data);
+    if (event.type === 'ready') {
+      connection.ready = true;
+      connection.attempts = 0;
+      connection.subscribers.forEach(subscriber => subscriber.onConnect());
+      return;
+    }
+    connection.subscribers.forEach(subscriber => subscriber.onEvent(event));
+  };
+
+  socket.onclose = () => {
+    connection.socket = null;
+    connection.ready = false;
+    if (connection.subscribers.size === 0) return;
+
+    const delay = Math.min(
+      SYNC_SERVER_RECONNECT.baseDelay * 2 ** connection.attempts++,
+      SYNC_SERVER_RECONNECT.maxDelay
+    );
+    connection.reconnectTimer = setTimeout(() => openConnection(userId, connection), delay);
+  };
+};
+
+/**
+ * Listen to the server's live updates for a user. Returns an unsubscribe function.
+ */
+const listenToServer = (userId: string, subscriber: EventSubscriber): (() => void) => {
+  let connection = connections.get(userId);
+  if (!connection) {
+    connection = { socket: null, ready: false, attempts: 0, subscribers: new Set() };
+    connections.set(userId, connection);
+    openConnection(userId, connection);
+  }
+
+  connection.subscribers.add(subscriber);
+  if (connection.ready) subscriber.onConnect();
+
+  const current = connection;
+  return () => {
+    current.subscribers.delete(subscriber);
+    if (current.subscribers.size > 0) return;
+
+    clearTimeout(current.reconnectTimer);
+    current.socket?.close();
+    connections.delete(userId);
+  };
+};
+
+/**
+ * Subscribe to a list the server pushes whole, loading it on every (re)connect
+ */
+const subscribeToList = <T>(
+  userId: string,
+  load: () => Promise<T[]>,
+  pick: (event: ServerEvent) => T[] | undefined,
+  callback: (list: T[]) => void
+): (() => void) => {
+  return listenToServer(userId, {
+    onConnect: () => {
+      load().then(callback).catch(() => {});
+    },
+    onEvent: event => {
+      const list = pick(event);
+      if (list) callback(list);
+    }
+  });
+};
+
+/**
+ * Save a note to the sync server
+ */
+export const saveNoteToServer = async (userId: string, note: Note): Promise<void> => {
+  await request(userId, `/notes/${encodeURIComponent(note.id)}`, 'save note', {
+    method: 'PUT',
+    body: {
+      title: note.title,
+      content: note.content,
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt || Date.now(),
+      shareId: note.shareId || null,
+      notebookId: note.notebookId || null,
+      tags: note.tags || [],
+      trashedAt: note.trashedAt || null,
+      deviceId: note.deviceId || null
+    }
+  });
+};
+
+/**
+ * Load a user's notes from the sync server: only those updated at or after `since`, or all of them
+ */
+export const loadNotesFromServer = async (userId: string, since = 0): Promise<Note[]> => {
+  const notes = await request<any[]>(userId, `/notes?since=${since}`, 'load notes');
+  return notes.map(toNote);
+};
+
+/**
+ * Delete a note and its history from the sync server, leaving a tombstone
+ */
+export const deleteNoteFromServer = async (userId: string, tombstone: NoteTombstone): Promise<void> => {
+  await request(userId, `/notes/${encodeURIComponent(tombstone.noteId)}`, 'delete note', {
+    method: 'DELETE',
+    body: tombstone
+  });
+};
+
+/**
+ * Subscribe to notes saved or removed on the sync server at or after `since`.
+ * After a reconnect, changes made meanwhile are loaded first.
+ * Returns an unsubscribe function
+ */
+export const subscribeToNoteChangesOnServer = (
+  userId: string,
+  since: number,
+  callback: (change: NoteChange) => void
+): (() => void) => {
+  let newest = since;
+  const deliver = (note: Note) => {
+    newest = Math.max(newest, note.updatedAt || 0);
+    callback({ type: 'saved', note });
+  };
+
+  return listenToServer(userId, {
+    onConnect: () => {
+      const from = newest > since ? Math.max(since, newest - DELTA_SYNC.cursorOverlap) : since;
+      loadNotesFromServer(userId, from).then(notes => notes.forEach(deliver)).catch(() => {});
+    },
+    onEvent: event => {
+      if (event.type !== 'note') return;
+      if (!event.note) {
+        callback({ type: 'removed', noteId: event.noteId });
+      } else if ((event.note.updatedAt || 0) >= since) {
+        deliver(toNote(event.note));
+      }
+    }
+  });
+};
+
+/**
+ * The self-hosted sync server as the RemoteStore
+ */
+export const serverRemoteStore: RemoteStore = {
+  saveNote: saveNoteToServer,
+  loadNotes: loadNotesFromServer,
+  deleteNote: deleteNoteFromServer,
+  subscribeToNoteChanges: subscribeToNoteChangesOnServer,
+
+  saveNotebook: async (userId, notebook) => {
+    await request(userId, `/notebooks/${encodeURIComponent(notebook.id)}`, 'save notebook', {
+      method: 'PUT',
+      body: notebook
+    });
+  },
+  loadNotebooks: (userId) => request<Notebook[]>(userId, '/notebooks', 'load notebooks'),
+  deleteNotebook: async (userId, notebookId) => {
+    await request(userId, `/notebooks/${encodeURIComponent(notebookId)}`, 'delete notebook', { method: 'DELETE' });
+  },
+  subscribeToNotebooks: (userId, callback) =>
+    subscribeToList(
+      userId,
+      () => serverRemoteStore.loadNotebooks(userId),
+      event => (event.type === 'notebooks' ? event.notebooks : undefined),
+      callback
+    ),
+
+  saveSavedSearch: async (userId, savedSearch) => {
+    await request(userId, `/saved-searches/${encodeURIComponent(savedSearch.id)}`, 'save saved search', {
+      method: 'PUT',
+      body: savedSearch
+    });
+  },
+  loadSavedSearches: (userId) => request<SavedSearch[]>(userId, '/saved-searches', 'load saved searches'),
+  deleteSavedSearch: async (userId, savedSearchId) => {
+    await request(userId, `/saved-searches/${encodeURIComponent(savedSearchId)}`, 'delete saved search', {
+      method: 'DELETE'
+    });
+  },
+  subscribeToSavedSearches: (userId, callback) =>
+    subscribeToList(
+      userId,
+      () => serverRemoteStore.loadSavedSearches(userId),
+      event => (event.type === 'savedSearches' ? event.savedSearches : undefined),
+      callback
+    ),
+
+  saveVersion: async (userId, version) => {
+    const path = `/versions/${encodeURIComponent(version.noteId)}/${encodeURIComponent(version.id)}`;
+    await request(userId, path, 'save version', { method: 'PUT', body: version });
+  },
+  loadVersions: (userId, noteId) =>
+    request<NoteVersion[]>(userId, `/versions/${encodeURIComponent(noteId)}`, 'load version history'),
+  deleteVersions: async (userId, noteId, versionIds) => {
+    await request(userId, `/versions/${encodeURIComponent(noteId)}`, 'delete versions', {
+      method: 'DELETE',
+      body: { versionIds }
+    });
+  },
+
+  loadTombstones: (userId) => request<NoteTombstone[]>(userId, '/tombstones', 'load deleted notes'),
+  markTombstonesSeen: async (userId, noteIds, deviceId) => {
+    if (noteIds.length === 0) return;
+    await request(userId, '/tombstones/seen', 'update deleted notes', { method: 'POST', body: { noteIds, deviceId } });
+  },
+  deleteTombstones: async (userId, noteIds) => {
+    if (noteIds.length === 0) return;
+    await request(userId, '/tombstones', 'delete tombstones', { method: 'DELETE', body: { noteIds } });
+  },
+  subscribeToTombstones: (userId, callback) =>
+    subscribeToList(
+      userId,
+      () => serverRemoteStore.loadTombstones(userId),
+      event => (event.type === 'tombstones' ? event.tombstones : undefined),
+      callback
+    ),
+
+  registerDevice: (userId, deviceId) =>
+    request<Record<string, number>>(userId, `/devices/${encodeURIComponent(deviceId)}`, 'register device', {
+      method: 'PUT'
+    })
+};
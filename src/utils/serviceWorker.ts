@@ -0,0 +1,45 @@
+import { SERVICE_WORKER } from '../config/serviceWorker';
+import { getSyncQueue, subscribeToSyncQueue, saveDeviceIdToIndexedDB } from './indexedDB';
+import { getDeviceId } from './device';
+
+// Background Sync isn't in the DOM typings, and only some browsers have it
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+};
+
+/**
+ * Ask the service worker to send the sync queue once the connection returns, even if every tab
+ * is closed by then. Does nothing while the queue is empty or where Background Sync isn't supported.
+ */
+export const requestBackgroundSync = async (): Promise<void> => {
+  const registration: SyncRegistration = await navigator.serviceWorker.ready;
+  if (!registration.sync) return;
+
+  const queue = await getSyncQueue();
+  if (queue.length > 0) {
+    await registration.sync.register(SERVICE_WORKER.syncTag);
+  }
+};
+
+/**
+ * Install the service worker that keeps the app usable offline, and request a background sync
+ * whenever something is queued
+ */
+export const registerServiceWorker = (): void => {
+  if (!('serviceWorker' in navigator)) return;
+
+  // The worker has no localStorage, so it reads this device's ID from IndexedDB
+  saveDeviceIdToIndexedDB(getDeviceId()).catch(error => console.error('Error saving device ID:', error));
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(SERVICE_WORKER.url).catch(error => {
+      console.error('Error registering service worker:', error);
+    });
+  });
+
+  const request = () => {
+    requestBackgroundSync().catch(error => console.error('Error requesting background sync:', error));
+  };
+  subscribeToSyncQueue(request);
+  request();
+};
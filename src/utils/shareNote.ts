@@ -1,6 +1,7 @@
 import { ref, set, get } from 'firebase/database';
 import { database } from '../config/firebase';
-import { Note } from '../types';
+import { noteStores } from '../config/storage';
+import { Note, NoteVersion, SharedNote, RemoteStore } from '../types';
 
 /**
  * Generate a unique share ID for a note
@@ -10,9 +11,10 @@ export const generateShareId = (): string => {
 };
 
 /**
- * Share a note publicly by creating a shareable link
+ * Share a note publicly by creating a shareable link. The public copy lives in Firebase;
+ * the user's note is marked shared through the backend notes sync through.
  */
-export const shareNote = async (userId: string, note: Note): Promise<string> => {
+export const shareNote = async (userId: string, note: Note, remote: RemoteStore = noteStores.remote): Promise<string> => {
   try {
     console.log('📤 shareNote called with userId:', userId, 'noteId:', note.id);
     
@@ -33,17 +35,8 @@ export const shareNote = async (userId: string, note: Note): Promise<string> =>
     console.log('✅ Saved to sharedNotes successfully');
 
     // Update the user's note to mark it as shared
-    const userNoteRef = ref(database, `users/${userId}/notes/${note.id}`);
     console.log('💾 Updating user note to mark as shared...');
-    
-    await set(userNoteRef, {
-      title: note.title,
-      content: note.content,
-      createdAt: note.createdAt,
-      updatedAt: Date.now(),
-      isShared: true,
-      shareId: shareId
-    });
+    await remote.saveNote(userId, { ...note, updatedAt: Date.now(), isShared: true, shareId });
     console.log('✅ User note updated successfully');
 
     console.log('🎉 Share complete! Returning shareId:', shareId);
@@ -57,7 +50,7 @@ export const shareNote = async (userId: string, note: Note): Promise<string> =>
 /**
  * Get a shared note by its share ID (public access, no auth required)
  */
-export const getSharedNote = async (shareId: string): Promise<Note | null> => {
+export const getSharedNote = async (shareId: string): Promise<SharedNote | null> => {
   try {
     const sharedNoteRef = ref(database, `sharedNotes/${shareId}`);
     const snapshot = await get(sharedNoteRef);
@@ -70,7 +63,8 @@ export const getSharedNote = async (shareId: string): Promise<Note | null> => {
         content: data.content,
         createdAt: data.createdAt,
         isShared: true,
-        shareId: shareId
+        shareId: shareId,
+        ...(data.checkpoint ? { checkpoint: data.checkpoint } : {})
       };
     }
     
@@ -81,10 +75,51 @@ export const getSharedNote = async (shareId: string): Promise<Note | null> => {
   }
 };
 
+/**
+ * Share a named checkpoint as a frozen copy that later edits to the note don't change.
+ * Returns the share ID, which the caller stores on the version.
+ */
+export const shareCheckpoint = async (userId: string, note: Note, version: NoteVersion): Promise<string> => {
+  try {
+    const shareId = version.shareId || generateShareId();
+    const sharedNoteRef = ref(database, `sharedNotes/${shareId}`);
+
+    await set(sharedNoteRef, {
+      title: version.title,
+      content: version.content,
+      createdAt: note.createdAt,
+      ownerId: userId,
+      sharedAt: Date.now(),
+      checkpoint: {
+        label: version.label || '',
+        timestamp: version.timestamp
+      }
+    });
+
+    return shareId;
+  } catch (error) {
+    console.error('Error sharing checkpoint:', error);
+    throw new Error('Failed to share checkpoint');
+  }
+};
+
+/**
+ * Remove a checkpoint's frozen share link
+ */
+export const unshareCheckpoint = async (version: NoteVersion): Promise<void> => {
+  try {
+    if (!version.shareId) return;
+    await set(ref(database, `sharedNotes/${version.shareId}`), null);
+  } catch (error) {
+    console.error('Error unsharing checkpoint:', error);
+    throw new Error('Failed to unshare checkpoint');
+  }
+};
+
 /**
  * Unshare a note (remove from public access)
  */
-export const unshareNote = async (userId: string, note: Note): Promise<void> => {
+export const unshareNote = async (userId: string, note: Note, remote: RemoteStore = noteStores.remote): Promise<void> => {
   try {
     if (!note.shareId) return;
 
@@ -93,15 +128,7 @@ export const unshareNote = async (userId: string, note: Note): Promise<void> =>
     await set(sharedNoteRef, null);
 
     // Update user's note to remove shared status
-    const userNoteRef = ref(database, `users/${userId}/notes/${note.id}`);
-    await set(userNoteRef, {
-      title: note.title,
-      content: note.content,
-      createdAt: note.createdAt,
-      updatedAt: Date.now(),
-      isShared: false,
-      shareId: null
-    });
+    await remote.saveNote(userId, { ...note, updatedAt: Date.now(), isShared: false, shareId: undefined });
   } catch (error) {
     console.error('Error unsharing note:', error);
     throw new Error('Failed to unshare note');
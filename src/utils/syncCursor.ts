@@ -0,0 +1,27 @@
+import { DeviceStore, Note } from '../types';
+import { DELTA_SYNC } from '../config/deltaSync';
+
+const syncCursorKey = (userId: string) => `notesSyncCursor_${userId}`;
+
+/**
+ * The newest cloud `updatedAt` already merged into the local store, or 0 before the first sync
+ */
+export const getSyncCursor = (device: DeviceStore, userId: string): number => {
+  return Number(device.getItem(syncCursorKey(userId))) || 0;
+};
+
+/**
+ * Where the next query for changed notes starts, allowing for clock skew between devices
+ */
+export const getDeltaStart = (device: DeviceStore, userId: string): number => {
+  const cursor = getSyncCursor(device, userId);
+  return cursor > 0 ? Math.max(cursor - DELTA_SYNC.cursorOverlap, 0) : 0;
+};
+
+/**
+ * Move the cursor past notes that were merged; it never moves back
+ */
+export const advanceSyncCursor = (device: DeviceStore, userId: string, notes: Note[]): void => {
+  const newest = Math.max(getSyncCursor(device, userId), ...notes.map(note => note.updatedAt || 0));
+  device.setItem(syncCursorKey(userId), String(newest));
+};
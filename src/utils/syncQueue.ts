@@ -0,0 +1,134 @@
+import { Note, NoteStores } from '../types';
+import { SyncQueueItem } from './indexedDB';
+import { markSynced, mergeNoteRevisions } from './threeWayMerge';
+import { createTombstone } from './tombstones';
+import { DELTA_SYNC } from '../config/deltaSync';
+
+/**
+ * Advance a note's sync base once an uploaded copy is confirmed in Firebase
+ */
+export const recordSynced = async ({ local }: NoteStores, userId: string, syncedNote: Note): Promise<void> => {
+  const storedNote = await local.getNote(syncedNote.id);
+
+  // Only if nothing changed locally since this copy was uploaded
+  if (storedNote && storedNote.title === syncedNote.title && storedNote.content === syncedNote.content) {
+    await local.saveNote(markSynced(storedNote), userId);
+  }
+};
+
+/**
+ * Merge a queued note with its cloud copy if another device changed that since this one last
+ * synced, so sending it doesn't overwrite their edits. Returns the note to send, or null when
+ * there's nothing to send: the cloud copy already has it, or the user has a conflict to resolve.
+ */
+const mergeWithCloudCopy = async ({ local, remote }: NoteStores, userId: string, queuedNote: Note): Promise<Note | null> => {
+  const note = await local.getNote(queuedNote.id) ?? queuedNote;
+  if (!note.syncBase) return note;
+
+  const since = Math.max(note.syncBase.updatedAt - DELTA_SYNC.cursorOverlap, 0);
+  const cloudNote = (await remote.loadNotes(userId, since)).find(changed => changed.id === note.id);
+  if (!cloudNote) return note;
+
+  const { outcome, note: merged } = mergeNoteRevisions(note, cloudNote);
+  if (outcome === 'unchanged' || outcome === 'local') return note;
+
+  await local.saveNote(merged, userId);
+  return outcome === 'merged' ? merged : null;
+};
+
+/**
+ * Send one queued operation to Firebase; throws if it fails
+ */
+export const syncQueueItem = async (stores: NoteStores, userId: string, item: SyncQueueItem): Promise<void> => {
+  const { local, remote } = stores;
+  if (item.entity === 'notebook') {
+    // Deletes carry the notebook marked deleted; ones queued before that remove it outright
+    if (item.notebook) {
+      await remote.saveNotebook(userId, item.notebook);
+    } else if (item.operation === 'delete') {
+      await remote.deleteNotebook(userId, item.notebookId);
+    }
+    return;
+  }
+
+  if (item.entity === 'savedSearch') {
+    // Like notebooks, deletes carry the saved search marked deleted
+    if (item.savedSearch) {
+      await remote.saveSavedSearch(userId, item.savedSearch);
+    } else if (item.operation === 'delete') {
+      await remote.deleteSavedSearch(userId, item.savedSearchId);
+    }
+    return;
+  }
+
+  if (item.entity === 'version') {
+    if (item.operation === 'delete') {
+      await remote.deleteVersions(userId, item.noteId, [item.versionId]);
+    } else if (item.version) {
+      await remote.saveVersion(userId, item.version);
+    }
+    return;
+  }
+
+  switch (item.operation) {
+    case 'create':
+    case 'update':
+      if (item.note) {
+        const note = await mergeWithCloudCopy(stores, userId, item.note);
+        if (note) {
+          await remote.saveNote(userId, note);
+          await recordSynced(stores, userId, note);
+        }
+      }
+      break;
+    case 'delete': {
+      // Deletes queued before tombstones existed get one now
+      const tombstone = await local.getTombstone(item.noteId) ?? createTombstone(item.noteId, stores.device.getDeviceId());
+      await remote.deleteNote(userId, tombstone);
+      break;
+    }
+  }
+};
+
+interface FlushSyncQueueOptions {
+  // Send items still waiting out their backoff too
+  ignoreBackoff?: boolean;
+  // Runs each send, e.g. to show its note as uploading
+  runSend?: (item: SyncQueueItem, send: () => Promise<void>) => Promise<void>;
+  onFailure?: (item: SyncQueueItem, err: any) => void;
+}
+
+/**
+ * Send the due items of the sync queue in order; only the ones that succeed leave it, the others
+ * are retried with backoff. Returns how many failed and what is still queued.
+ */
+export const flushSyncQueue = async (
+  stores: NoteStores,
+  userId: string,
+  { ignoreBackoff = false, runSend = (_item, send) => send(), onFailure }: FlushSyncQueueOptions = {}
+): Promise<{ failures: number; remaining: SyncQueueItem[] }> => {
+  const { local } = stores;
+  const now = Date.now();
+  const dueItems = (await local.getSyncQueue()).filter(item => ignoreBackoff || !item.nextRetry || item.nextRetry <= now);
+  console.log(`Syncing ${dueItems.length} queued operations...`);
+
+  let failures = 0;
+  for (const item of dueItems) {
+    try {
+      await runSend(item, () => syncQueueItem(stores, userId, item));
+      await local.removeFromSyncQueue(item.id);
+    } catch (err: any) {
+      failures++;
+      const target = item.entity === 'notebook'
+        ? `notebook ${item.notebookId}`
+        : item.entity === 'savedSearch'
+          ? `saved search ${item.savedSearchId}`
+          : item.entity === 'version' ? `version ${item.versionId}` : `note ${item.noteId}`;
+      console.error(`Failed to sync ${item.operation} for ${target}:`, err);
+      await local.markSyncItemFailed(item.id, err?.message || String(err));
+      onFailure?.(item, err);
+    }
+  }
+
+  return { failures, remaining: await local.getSyncQueue() };
+};
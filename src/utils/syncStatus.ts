@@ -0,0 +1,54 @@
+import { Note, NoteSyncState } from '../types';
+import { SyncQueueItem, DeadLetterItem } from './indexedDB';
+
+/**
+ * The note a queued operation saves or deletes, if any
+ */
+export const getSyncItemNoteId = (item: SyncQueueItem): string | null => {
+  if (item.entity === 'notebook' || item.entity === 'savedSearch' || item.entity === 'version') return null;
+  return item.noteId;
+};
+
+/**
+ * Human-readable description of a queued operation, e.g. `Update note "Groceries"`
+ */
+export const describeSyncItem = (item: SyncQueueItem, notes: Note[] = []): string => {
+  const operation = item.operation.charAt(0).toUpperCase() + item.operation.slice(1);
+
+  if (item.entity === 'notebook') {
+    return `${operation} notebook "${item.notebook?.name || item.notebookId}"`;
+  }
+  if (item.entity === 'savedSearch') {
+    return `${operation} saved search "${item.savedSearch?.name || item.savedSearchId}"`;
+  }
+
+  const title = notes.find(note => note.id === item.noteId)?.title;
+  if (item.entity === 'version') {
+    return `${operation} a version of "${title || item.version?.title || item.noteId}"`;
+  }
+  return `${operation} note "${title || item.note?.title || item.noteId}"`;
+};
+
+/**
+ * Sync state of every note with unsynced changes; notes not in the map are synced.
+ * Giving up outranks an upload in progress, which outranks waiting or retrying in the queue.
+ */
+export const getNoteSyncStates = (
+  pending: SyncQueueItem[],
+  deadLetters: DeadLetterItem[],
+  inFlightNoteIds: Set<string>
+): Map<string, NoteSyncState> => {
+  const states = new Map<string, NoteSyncState>();
+
+  pending.forEach(item => {
+    const noteId = getSyncItemNoteId(item);
+    if (noteId) states.set(noteId, item.lastError ? 'failed' : 'pending');
+  });
+  inFlightNoteIds.forEach(noteId => states.set(noteId, 'syncing'));
+  deadLetters.forEach(item => {
+    const noteId = getSyncItemNoteId(item);
+    if (noteId) states.set(noteId, 'failed');
+  });
+
+  return states;
+};
@@ -0,0 +1,75 @@
+const CHANNEL_NAME = 'smart-note-tabs';
+const LEADER_LOCK_NAME = 'smart-note-sync-leader';
+
+// Identifies this tab in messages to the others
+export const TAB_ID = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export type TabMessage =
+  // Notes were saved or deleted in IndexedDB; other tabs should reload them
+  | { type: 'notes-changed'; tabId: string; noteIds: string[] }
+  // The sync queue or dead-letter list changed
+  | { type: 'sync-queue-changed'; tabId: string }
+  // The tab is editing a note, repeated as a heartbeat while it is
+  | { type: 'editing'; tabId: string; noteId: string }
+  | { type: 'tab-closed'; tabId: string };
+
+// A message without the sender, which broadcastToTabs fills in
+type WithoutSender<M> = M extends TabMessage ? Omit<M, 'tabId'> : never;
+type TabMessageBody = WithoutSender<TabMessage>;
+
+const channel: BroadcastChannel | null = typeof BroadcastChannel !== 'undefined'
+  ? new BroadcastChannel(CHANNEL_NAME)
+  : null;
+
+/**
+ * Send a message to every other open tab of the app
+ */
+export const broadcastToTabs = (message: TabMessageBody): void => {
+  channel?.postMessage({ ...message, tabId: TAB_ID });
+};
+
+/**
+ * Listen for messages from other tabs. Returns an unsubscribe function.
+ */
+export const subscribeToTabs = (listener: (message: TabMessage) => void): (() => void) => {
+  if (!channel) return () => {};
+
+  const handleMessage = (event: MessageEvent<TabMessage>) => listener(event.data);
+  channel.addEventListener('message', handleMessage);
+  return () => channel.removeEventListener('message', handleMessage);
+};
+
+/**
+ * Ask to become the tab that syncs with the cloud. Only one tab holds the leader lock at a time;
+ * `onLeader` runs once this tab gets it, which may be when the current leader closes.
+ * Without the Web Locks API every tab leads, as before tabs coordinated.
+ * Returns a function that gives up leadership or the pending request.
+ */
+export const requestSyncLeadership = (onLeader: () => void): (() => void) => {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    onLeader();
+    return () => {};
+  }
+
+  const controller = new AbortController();
+  let release: () => void = () => {};
+
+  navigator.locks
+    .request(LEADER_LOCK_NAME, { signal: controller.signal }, () => {
+      onLeader();
+      // Hold the lock until released or the tab closes
+      return new Promise<void>(resolve => {
+        release = resolve;
+      });
+    })
+    .catch(err => {
+      if (err?.name !== 'AbortError') {
+        console.error('Error requesting sync leadership:', err);
+      }
+    });
+
+  return () => {
+    controller.abort();
+    release();
+  };
+};
@@ -0,0 +1,93 @@
+import { Note } from '../types';
+
+export type TagMatchMode = 'and' | 'or';
+
+// A hashtag starts a word and isn't a Markdown heading ("# Title" has a space)
+const HASHTAG_REGEX = /(^|[^\w#&/])#([\p{L}\p{N}_][\p{L}\p{N}_/-]*)/gu;
+const CODE_BLOCK_REGEX = /```[\s\S]*?```|`[^`\n]*`/g;
+
+/**
+ * Normalize user input into a tag: lowercase, no leading '#', dashes for spaces
+ */
+export const normalizeTag = (tag: string): string => {
+  return tag.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-');
+};
+
+/**
+ * Find inline #hashtags in note content, ignoring code
+ */
+export const extractHashtags = (content: string): string[] => {
+  const text = content.replace(CODE_BLOCK_REGEX, ' ');
+  const tags = new Set<string>();
+
+  for (const match of text.matchAll(HASHTAG_REGEX)) {
+    tags.add(normalizeTag(match[2]));
+  }
+
+  return Array.from(tags);
+};
+
+/**
+ * All tags on a note: explicit tags plus inline hashtags
+ */
+export const getNoteTags = (note: Note): string[] => {
+  const tags = new Set((note.tags || []).map(normalizeTag));
+  extractHashtags(note.content).forEach(tag => tags.add(tag));
+  return Array.from(tags).filter(Boolean);
+};
+
+/**
+ * Count how many notes use each tag, most used first
+ */
+export const getTagCounts = (notes: Note[]): Array<{ tag: string; count: number }> => {
+  const counts = new Map<string, number>();
+
+  notes.forEach(note => {
+    getNoteTags(note).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+  });
+
+  return Array.from(counts.entries())
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+/**
+ * Filter notes that have all (AND) or any (OR) of the selected tags
+ */
+export const filterNotesByTags = (notes: Note[], selectedTags: string[], mode: TagMatchMode): Note[] => {
+  if (selectedTags.length === 0) return notes;
+
+  return notes.filter(note => {
+    const tags = new Set(getNoteTags(note));
+    return mode === 'and'
+      ? selectedTags.every(tag => tags.has(tag))
+      : selectedTags.some(tag => tags.has(tag));
+  });
+};
+
+/**
+ * Rename a tag on one note, in both its tag list and its inline hashtags.
+ * Renaming onto a tag the note already has merges the two.
+ * Returns null when the note doesn't use the tag.
+ */
+export const renameTagInNote = (note: Note, fromTag: string, toTag: string): Note | null => {
+  const from = normalizeTag(fromTag);
+  const to = normalizeTag(toTag);
+  if (!from || !to || from === to || !getNoteTags(note).includes(from)) return null;
+
+  const tags = (note.tags || []).map(normalizeTag);
+  const renamedTags = tags.includes(from)
+    ? Array.from(new Set(tags.map(tag => (tag === from ? to : tag))))
+    : tags;
+
+  // Rewrite hashtags outside code, keeping code blocks untouched
+  const escaped = from.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  const hashtagRegex = new RegExp(`(^|[^\\w#&/])#${escaped}(?![\\p{L}\\p{N}_/-])`, 'giu');
+  const codeBlocks: string[] = [];
+  const content = note.content
+    .replace(CODE_BLOCK_REGEX, block => `\u0000${codeBlocks.push(block) - 1}\u0000`)
+    .replace(hashtagRegex, `$1#${to}`)
+    .replace(/\u0000(\d+)\u0000/g, (_, index) => codeBlocks[Number(index)]);
+
+  return { ...note, tags: renamedTags, content };
+};
@@ -0,0 +1,105 @@
+import { Note } from '../types';
+
+export interface TaskItem {
+  line: number; // 0-based line index in the note content
+  text: string;
+  checked: boolean;
+  due: string | null; // YYYY-MM-DD from @due(...)
+}
+
+export interface NoteTasks {
+  note: Note;
+  tasks: TaskItem[];
+}
+
+export type DueFilter = 'all' | 'overdue' | 'today' | 'week' | 'dated' | 'undated';
+
+// `- [ ] text`, `* [x] text`, `1. [ ] text`, optionally indented or inside a blockquote
+const TASK_LINE_REGEX = /^((?:\s*>)*\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\]\s)(.*)$/;
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/;
+const DUE_REGEX = /@due\((\d{4}-\d{2}-\d{2})\)/;
+
+/**
+ * Find every `- [ ]` / `- [x]` item in note content, skipping fenced code
+ */
+export const extractTasks = (content: string): TaskItem[] => {
+  const tasks: TaskItem[] = [];
+  let openFence: string | null = null;
+
+  content.split('\n').forEach((line, index) => {
+    const fence = line.match(FENCE_REGEX);
+    if (fence) {
+      if (!openFence) {
+        openFence = fence[1];
+      } else if (fence[1][0] === openFence[0] && fence[1].length >= openFence.length) {
+        openFence = null;
+      }
+      return;
+    }
+    if (openFence) return;
+
+    const match = line.match(TASK_LINE_REGEX);
+    if (match) {
+      tasks.push({
+        line: index,
+        text: match[4].replace(DUE_REGEX, '').trim(),
+        checked: match[2] !== ' ',
+        due: match[4].match(DUE_REGEX)?.[1] ?? null
+      });
+    }
+  });
+
+  return tasks;
+};
+
+/**
+ * Set the checkbox on a task line. Returns the content unchanged if the line isn't a task.
+ */
+export const setTaskChecked = (content: string, line: number, checked: boolean): string => {
+  const lines = content.split('\n');
+  const match = lines[line]?.match(TASK_LINE_REGEX);
+  if (!match) return content;
+
+  lines[line] = `${match[1]}${checked ? 'x' : ' '}${match[3]}${match[4]}`;
+  return lines.join('\n');
+};
+
+/**
+ * Open tasks across notes, grouped by note (notes without open tasks are left out)
+ */
+export const collectOpenTasks = (notes: Note[]): NoteTasks[] => {
+  return notes
+    .map(note => ({ note, tasks: extractTasks(note.content).filter(task => !task.checked) }))
+    .filter(({ tasks }) => tasks.length > 0);
+};
+
+/**
+ * Local YYYY-MM-DD for a timestamp, comparable with @due dates as strings
+ */
+const toDateString = (time: number): string => {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Check a task against a due-date filter; "week" means due within the next 7 days
+ */
+export const matchesDueFilter = (task: TaskItem, filter: DueFilter, now: number): boolean => {
+  const today = toDateString(now);
+
+  switch (filter) {
+    case 'all':
+      return true;
+    case 'undated':
+      return !task.due;
+    case 'dated':
+      return !!task.due;
+    case 'overdue':
+      return !!task.due && task.due < today;
+    case 'today':
+      return task.due === today;
+    case 'week':
+      return !!task.due && task.due >= today && task.due <= toDateString(now + 7 * 86400000);
+  }
+};
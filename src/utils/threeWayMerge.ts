@@ -0,0 +1,225 @@
+import { Note, NoteRevision, NoteConflict, MergeChunk } from '../types';
+import { diffSequences, splitLines } from './diff';
+
+export type MergeOutcome = 'unchanged' | 'local' | 'remote' | 'merged' | 'conflict';
+
+export interface NoteMergeResult {
+  outcome: MergeOutcome;
+  note: Note;
+}
+
+export interface TextMergeResult {
+  chunks: MergeChunk[];
+  hasConflicts: boolean;
+}
+
+const sameLines = (a: string[], b: string[]): boolean => {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+};
+
+/**
+ * Map each index of `base` to its matching index in `other` (-1 if not kept)
+ */
+const matchIndices = (base: string[], other: string[]): Int32Array => {
+  const matches = new Int32Array(base.length).fill(-1);
+  for (const op of diffSequences(base, other)) {
+    if (op.type === 'equal') {
+      op.items.forEach((_, offset) => {
+        matches[op.aStart + offset] = op.bStart + offset;
+      });
+    }
+  }
+  return matches;
+};
+
+/**
+ * Line-based three-way merge (diff3) of two texts that share a common base
+ */
+export const mergeText = (base: string, local: string, remote: string): TextMergeResult => {
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const remoteLines = splitLines(remote);
+  const localMatches = matchIndices(baseLines, localLines);
+  const remoteMatches = matchIndices(baseLines, remoteLines);
+
+  const chunks: MergeChunk[] = [];
+  const pushResolved = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last && last.type === 'resolved') {
+      last.lines.push(...lines);
+    } else {
+      chunks.push({ type: 'resolved', lines: [...lines] });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  while (true) {
+    // Lines unchanged on both sides
+    const stable: string[] = [];
+    while (i < baseLines.length && localMatches[i] === j && remoteMatches[i] === k) {
+      stable.push(baseLines[i]);
+      i++;
+      j++;
+      k++;
+    }
+    pushResolved(stable);
+
+    // Next base line that both sides still contain
+    let next = i;
+    while (next < baseLines.length && (localMatches[next] < 0 || remoteMatches[next] < 0)) {
+      next++;
+    }
+    const nextLocal = next < baseLines.length ? localMatches[next] : localLines.length;
+    const nextRemote = next < baseLines.length ? remoteMatches[next] : remoteLines.length;
+
+    if (next === i && nextLocal === j && nextRemote === k) break;
+
+    const baseHunk = baseLines.slice(i, next);
+    const localHunk = localLines.slice(j, nextLocal);
+    const remoteHunk = remoteLines.slice(k, nextRemote);
+
+    if (sameLines(localHunk, baseHunk)) {
+      pushResolved(remoteHunk);
+    } else if (sameLines(remoteHunk, baseHunk) || sameLines(localHunk, remoteHunk)) {
+      pushResolved(localHunk);
+    } else {
+      chunks.push({ type: 'conflict', base: baseHunk, local: localHunk, remote: remoteHunk });
+    }
+
+    i = next;
+    j = nextLocal;
+    k = nextRemote;
+  }
+
+  return {
+    chunks,
+    hasConflicts: chunks.some(chunk => chunk.type === 'conflict')
+  };
+};
+
+/**
+ * Join merge chunks back into text, picking a replacement for each conflict in order
+ */
+export const applyResolutions = (chunks: MergeChunk[], resolutions: string[]): string => {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+
+  chunks.forEach(chunk => {
+    if (chunk.type === 'resolved') {
+      lines.push(...chunk.lines);
+    } else {
+      const resolution = resolutions[conflictIndex++];
+      lines.push(...splitLines(resolution ?? chunk.local.join('\n')));
+    }
+  });
+
+  return lines.join('\n');
+};
+
+/**
+ * Snapshot the mergeable fields of a note
+ */
+export const toRevision = (note: Note): NoteRevision => ({
+  title: note.title,
+  content: note.content,
+  updatedAt: note.updatedAt || note.createdAt
+});
+
+/**
+ * Record that the note's current title/content are what the cloud holds
+ */
+export const markSynced = (note: Note): Note => ({
+  ...note,
+  syncBase: toRevision(note)
+});
+
+const sameRevision = (a: NoteRevision, b: NoteRevision): boolean => {
+  return a.title === b.title && a.content === b.content;
+};
+
+/**
+ * Three-way merge a local note with its cloud copy.
+ * Non-mergeable fields follow whichever side was updated last.
+ */
+export const mergeNoteRevisions = (local: Note, remote: Note): NoteMergeResult => {
+  const localRevision = toRevision(local);
+  const remoteRevision = toRevision(remote);
+  const newer = localRevision.updatedAt > remoteRevision.updatedAt ? local : remote;
+
+  if (sameRevision(localRevision, remoteRevision)) {
+    return {
+      outcome: 'unchanged',
+      note: { ...newer, syncBase: remoteRevision, conflict: undefined }
+    };
+  }
+
+  const base = local.syncBase;
+
+  if (!base) {
+    // No shared ancestor - nothing to merge against, keep the most recent copy
+    return localRevision.updatedAt > remoteRevision.updatedAt
+      ? { outcome: 'local', note: local }
+      : { outcome: 'remote', note: { ...remote, syncBase: remoteRevision } };
+  }
+
+  if (sameRevision(remoteRevision, base)) {
+    return { outcome: 'local', note: local };
+  }
+
+  if (sameRevision(localRevision, base)) {
+    return {
+      outcome: 'remote',
+      note: { ...remote, syncBase: remoteRevision, conflict: undefined }
+    };
+  }
+
+  // Already waiting on the user to resolve this exact remote copy
+  if (local.conflict && sameRevision(local.conflict.remote, remoteRevision)) {
+    return { outcome: 'conflict', note: local };
+  }
+
+  // Both sides changed since the base
+  let title = localRevision.title;
+  let titleConflict: NoteConflict['title'];
+  if (localRevision.title !== remoteRevision.title) {
+    if (localRevision.title === base.title) {
+      title = remoteRevision.title;
+    } else if (remoteRevision.title !== base.title) {
+      titleConflict = { base: base.title, local: localRevision.title, remote: remoteRevision.title };
+    }
+  }
+
+  const content = mergeText(base.content, localRevision.content, remoteRevision.content);
+
+  if (titleConflict || content.hasConflicts) {
+    return {
+      outcome: 'conflict',
+      note: {
+        ...local,
+        conflict: {
+          title: titleConflict,
+          chunks: content.chunks,
+          remote: remoteRevision,
+          detectedAt: Date.now()
+        }
+      }
+    };
+  }
+
+  return {
+    outcome: 'merged',
+    note: {
+      ...newer,
+      title,
+      content: applyResolutions(content.chunks, []),
+      updatedAt: Date.now(),
+      // The merge result still has to be uploaded, so the cloud copy stays the base
+      syncBase: remoteRevision,
+      conflict: undefined
+    }
+  };
+};
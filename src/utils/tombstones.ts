@@ -0,0 +1,74 @@
+import { Note, NoteTombstone } from '../types';
+import { TOMBSTONE_GC } from '../config/tombstones';
+
+/**
+ * Tombstone for a note the given device deleted just now
+ */
+export const createTombstone = (noteId: string, deviceId: string): NoteTombstone => {
+  const deletedAt = Date.now();
+  return { noteId, deletedAt, deviceId, seenBy: { [deviceId]: deletedAt } };
+};
+
+/**
+ * Combine tombstone lists, keeping the latest deletion of each note and everyone who saw it
+ */
+export const mergeTombstones = (...lists: NoteTombstone[][]): NoteTombstone[] => {
+  const byNoteId = new Map<string, NoteTombstone>();
+
+  lists.flat().forEach(tombstone => {
+    const existing = byNoteId.get(tombstone.noteId);
+    if (!existing) {
+      byNoteId.set(tombstone.noteId, tombstone);
+      return;
+    }
+
+    const latest = tombstone.deletedAt > existing.deletedAt ? tombstone : existing;
+    byNoteId.set(tombstone.noteId, {
+      ...latest,
+      seenBy: { ...existing.seenBy, ...tombstone.seenBy }
+    });
+  });
+
+  return Array.from(byNoteId.values());
+};
+
+/**
+ * Split notes by the tombstones that cover them. A note edited after it was deleted
+ * elsewhere is kept, and its tombstone is returned as revived so it can be dropped.
+ */
+export const applyTombstones = (
+  notes: Note[],
+  tombstones: NoteTombstone[]
+): { kept: Note[]; deleted: Note[]; revived: NoteTombstone[] } => {
+  const byNoteId = new Map(tombstones.map(tombstone => [tombstone.noteId, tombstone]));
+  const kept: Note[] = [];
+  const deleted: Note[] = [];
+  const revived: NoteTombstone[] = [];
+
+  notes.forEach(note => {
+    const tombstone = byNoteId.get(note.id);
+    if (!tombstone) {
+      kept.push(note);
+    } else if ((note.updatedAt ?? note.createdAt) > tombstone.deletedAt) {
+      kept.push(note);
+      revived.push(tombstone);
+    } else {
+      deleted.push(note);
+    }
+  });
+
+  return { kept, deleted, revived };
+};
+
+/**
+ * Tombstones every device still syncing has seen, which can be removed for good.
+ * `devices` maps device IDs to when they last synced.
+ */
+export const getCollectableTombstones = (
+  tombstones: NoteTombstone[],
+  devices: Record<string, number>,
+  now: number = Date.now()
+): NoteTombstone[] => {
+  const activeDevices = Object.keys(devices).filter(deviceId => now - devices[deviceId] < TOMBSTONE_GC.deviceExpiry);
+  return tombstones.filter(tombstone => activeDevices.every(deviceId => tombstone.seenBy?.[deviceId] !== undefined));
+};
@@ -0,0 +1,25 @@
+import { Note } from '../types';
+import { TRASH_PURGE_DAYS } from '../config/trash';
+
+const DAY = 24 * 3600000;
+
+/**
+ * When a trashed note will be purged
+ */
+export const getPurgeTime = (note: Note): number => {
+  return (note.trashedAt || 0) + TRASH_PURGE_DAYS * DAY;
+};
+
+/**
+ * Whole days left before a trashed note is purged, at least 0
+ */
+export const getDaysUntilPurge = (note: Note, now: number = Date.now()): number => {
+  return Math.max(0, Math.ceil((getPurgeTime(note) - now) / DAY));
+};
+
+/**
+ * Trashed notes that are due to be purged
+ */
+export const getExpiredTrash = (notes: Note[], now: number = Date.now()): Note[] => {
+  return notes.filter(note => note.trashedAt && getPurgeTime(note) <= now);
+};
@@ -0,0 +1,198 @@
+import { diffLines, diffWords, splitLines, DiffOpType, WordSegment } from './diff';
+import { getCodeLineLanguages } from './codeBlocks';
+
+export interface DiffLine {
+  type: DiffOpType;
+  text: string;
+  // 1-based line numbers on each side; null where the line doesn't exist
+  oldNumber: number | null;
+  newNumber: number | null;
+  // Fenced code block language, for syntax colouring
+  language: string | null;
+  // Word-level changes, for changed lines paired with their counterpart
+  segments: WordSegment[] | null;
+  // Index of the hunk a changed line belongs to (see getDiffHunks)
+  hunk: number | null;
+}
+
+/**
+ * A run of changed lines: `fromLines` at `fromStart` (0-based) became `toLines` at `toStart`
+ */
+export interface DiffHunk {
+  index: number;
+  fromStart: number;
+  fromLines: string[];
+  toStart: number;
+  toLines: string[];
+}
+
+export interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+/**
+ * Line diff between two texts for display. A run of deleted lines followed by inserted lines
+ * is treated as an edit, pairing them in order for word-level highlights.
+ */
+export const buildLineDiff = (oldText: string, newText: string): DiffLine[] => {
+  const oldLanguages = getCodeLineLanguages(oldText);
+  const newLanguages = getCodeLineLanguages(newText);
+  const ops = diffLines(oldText, newText);
+  const lines: DiffLine[] = [];
+  let hunk = -1;
+
+  ops.forEach((op, opIndex) => {
+    if (op.type === 'insert' && ops[opIndex - 1]?.type === 'delete') return;
+    if (op.type !== 'equal' && (opIndex === 0 || ops[opIndex - 1].type === 'equal')) hunk++;
+
+    if (op.type === 'equal') {
+      op.items.forEach((text, i) => {
+        lines.push({
+          type: 'equal',
+          text,
+          oldNumber: op.aStart + i + 1,
+          newNumber: op.bStart + i + 1,
+          language: newLanguages[op.bStart + i] ?? null,
+          segments: null,
+          hunk: null
+        });
+      });
+      return;
+    }
+
+    if (op.type === 'insert') {
+      op.items.forEach((text, i) => {
+        lines.push({
+          type: 'insert',
+          text,
+          oldNumber: null,
+          newNumber: op.bStart + i + 1,
+          language: newLanguages[op.bStart + i] ?? null,
+          segments: null,
+          hunk
+        });
+      });
+      return;
+    }
+
+    const inserted = ops[opIndex + 1]?.type === 'insert' ? ops[opIndex + 1] : null;
+    const words = op.items.map((text, i) =>
+      inserted && i < inserted.items.length ? diffWords(text, inserted.items[i]) : null
+    );
+
+    op.items.forEach((text, i) => {
+      lines.push({
+        type: 'delete',
+        text,
+        oldNumber: op.aStart + i + 1,
+        newNumber: null,
+        language: oldLanguages[op.aStart + i] ?? null,
+        segments: words[i]?.old ?? null,
+        hunk
+      });
+    });
+
+    inserted?.items.forEach((text, i) => {
+      lines.push({
+        type: 'insert',
+        text,
+        oldNumber: null,
+        newNumber: inserted.bStart + i + 1,
+        language: newLanguages[inserted.bStart + i] ?? null,
+        segments: words[i]?.new ?? null,
+        hunk
+      });
+    });
+  });
+
+  return lines;
+};
+
+/**
+ * The hunks of a line diff, numbered as in buildLineDiff
+ */
+export const getDiffHunks = (fromText: string, toText: string): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+
+  diffLines(fromText, toText).forEach(op => {
+    if (op.type === 'equal') {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { index: hunks.length, fromStart: op.aStart, fromLines: [], toStart: op.bStart, toLines: [] };
+      hunks.push(current);
+    }
+    if (op.type === 'delete') {
+      current.fromLines.push(...op.items);
+    } else {
+      current.toLines.push(...op.items);
+    }
+  });
+
+  return hunks;
+};
+
+/**
+ * Apply some of the hunks of a diff to its `from` text, leaving the rest of it as is
+ */
+export const applyHunks = (fromText: string, hunks: DiffHunk[]): string => {
+  const lines = splitLines(fromText);
+
+  // Bottom-up so earlier line positions stay valid
+  [...hunks]
+    .sort((a, b) => b.fromStart - a.fromStart)
+    .forEach(hunk => {
+      lines.splice(hunk.fromStart, hunk.fromLines.length, ...hunk.toLines);
+    });
+
+  return lines.join('\n');
+};
+
+/**
+ * Arrange a line diff in two columns, deleted lines facing the inserted lines that replaced them
+ */
+export const toSideBySide = (lines: DiffLine[]): SideBySideRow[] => {
+  const rows: SideBySideRow[] = [];
+  let deleted: DiffLine[] = [];
+  let inserted: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(deleted.length, inserted.length); i++) {
+      rows.push({ left: deleted[i] ?? null, right: inserted[i] ?? null });
+    }
+    deleted = [];
+    inserted = [];
+  };
+
+  lines.forEach(line => {
+    if (line.type === 'delete') {
+      // A new block of deletions starts after the previous edit's insertions
+      if (inserted.length > 0) flush();
+      deleted.push(line);
+    } else if (line.type === 'insert') {
+      inserted.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  });
+  flush();
+
+  return rows;
+};
+
+/**
+ * Number of lines added and removed between two texts
+ */
+export const countLineChanges = (oldText: string, newText: string): { added: number; removed: number } => {
+  return diffLines(oldText, newText).reduce(
+    (counts, op) => ({
+      added: counts.added + (op.type === 'insert' ? op.items.length : 0),
+      removed: counts.removed + (op.type === 'delete' ? op.items.length : 0)
+    }),
+    { added: 0, removed: 0 }
+  );
+};
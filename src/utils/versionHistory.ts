@@ -1,73 +1,123 @@
-import { Note, NoteVersion } from '../types';
-
-const MAX_VERSIONS = 10; // Keep last 10 versions
+import { Note, NoteVersion, VersionChangeType, RestoredHunk } from '../types';
+import { VERSION_RETENTION, RetentionRule } from '../config/versionRetention';
+import { countLineChanges, applyHunks, DiffHunk } from './versionDiff';
+import { createId } from './ids';
 
 /**
- * Create a version snapshot from the current note
+ * Create a version snapshot from the current note, as written by the given device
  */
-export const createVersion = (note: Note, changeType: 'created' | 'edited' | 'restored' = 'edited'): NoteVersion => {
+export const createVersion = (
+  note: Note,
+  deviceId: string,
+  changeType: VersionChangeType = 'edited',
+  restoredHunks?: RestoredHunk[],
+  label?: string
+): NoteVersion => {
   return {
-    id: `${note.id}-v${Date.now()}`,
+    id: createId(),
+    noteId: note.id,
     title: note.title,
     content: note.content,
+    tags: note.tags || [],
     timestamp: Date.now(),
-    changeType
+    changeType,
+    deviceId,
+    ...(restoredHunks && restoredHunks.length > 0 ? { restoredHunks } : {}),
+    ...(label ? { label } : {})
   };
 };
 
+const sameTags = (a: string[] = [], b: string[] = []): boolean => {
+  return a.length === b.length && a.every(tag => b.includes(tag));
+};
+
 /**
- * Add a new version to the note's version history
+ * Whether the note differs from a version snapshot (always true without one)
  */
-export const addVersion = (note: Note, changeType: 'created' | 'edited' | 'restored' = 'edited'): Note => {
-  const versions = note.versions || [];
-  const newVersion = createVersion(note, changeType);
-  
-  // Check if content actually changed
-  if (versions.length > 0) {
-    const lastVersion = versions[versions.length - 1];
-    if (lastVersion.title === note.title && lastVersion.content === note.content) {
-      // No changes, don't create new version
-      return note;
+export const hasChangedSince = (version: NoteVersion | undefined, note: Note): boolean => {
+  return !version ||
+    version.title !== note.title ||
+    version.content !== note.content ||
+    !sameTags(version.tags, note.tags);
+};
+
+/**
+ * IDs of versions the retention policy drops: past each rule's age, only the newest
+ * version per window survives. The newest version overall and named checkpoints are always kept.
+ */
+export const pruneVersions = (
+  versions: NoteVersion[],
+  now: number = Date.now(),
+  rules: RetentionRule[] = VERSION_RETENTION
+): string[] => {
+  const sortedRules = [...rules].sort((a, b) => b.olderThan - a.olderThan);
+  const keptBuckets = new Set<string>();
+  const toRemove: string[] = [];
+
+  getVersionHistory(versions).forEach((version, index) => {
+    const age = now - version.timestamp;
+    const ruleIndex = sortedRules.findIndex(rule => age >= rule.olderThan);
+    if (index === 0 || version.label || ruleIndex === -1) return;
+
+    // Newest first, so the first version seen in a window is the one kept
+    const bucket = `${ruleIndex}:${Math.floor(version.timestamp / sortedRules[ruleIndex].keepOnePer)}`;
+    if (keptBuckets.has(bucket)) {
+      toRemove.push(version.id);
+    } else {
+      keptBuckets.add(bucket);
     }
-  }
-  
-  // Add new version and keep only last MAX_VERSIONS
-  const updatedVersions = [...versions, newVersion].slice(-MAX_VERSIONS);
-  
-  return {
-    ...note,
-    updatedAt: Date.now(),
-    versions: updatedVersions
-  };
+  });
+
+  return toRemove;
 };
 
 /**
- * Restore a note to a specific version
+ * Restore a note to a version snapshot
  */
-export const restoreVersion = (note: Note, versionId: string): Note => {
-  const version = note.versions?.find(v => v.id === versionId);
-  
-  if (!version) {
-    throw new Error('Version not found');
-  }
-  
-  // Create a version of current state before restoring
-  const noteWithCurrentVersion = addVersion(note, 'edited');
-  
-  // Restore to the selected version
+export const restoreVersion = (note: Note, version: NoteVersion): Note => {
   return {
-    ...noteWithCurrentVersion,
+    ...note,
     title: version.title,
     content: version.content,
+    tags: version.tags ?? note.tags,
     updatedAt: Date.now()
   };
 };
 
+/**
+ * Describe hunks of getDiffHunks(note content, version content) as restored from that version
+ */
+export const toRestoredHunks = (version: NoteVersion, hunks: DiffHunk[]): RestoredHunk[] => {
+  return hunks.map(hunk => ({
+    versionId: version.id,
+    versionTimestamp: version.timestamp,
+    versionStart: hunk.toStart + 1,
+    versionLineCount: hunk.toLines.length,
+    noteStart: hunk.fromStart + 1,
+    noteLineCount: hunk.fromLines.length
+  }));
+};
+
+/**
+ * Restore only some changes of a version: `hunks` are picked from
+ * getDiffHunks(note.content, version.content). The title and tags stay as they are.
+ */
+export const restoreHunks = (
+  note: Note,
+  version: NoteVersion,
+  hunks: DiffHunk[]
+): { note: Note; restoredHunks: RestoredHunk[] } => {
+  return {
+    note: { ...note, content: applyHunks(note.content, hunks), updatedAt: Date.now() },
+    restoredHunks: toRestoredHunks(version, hunks)
+  };
+};
+
 /**
  * Get version history sorted by timestamp (newest first)
  */
-export const getVersionHistory = (note: Note): NoteVersion[] => {
-  return (note.versions || []).sort((a, b) => b.timestamp - a.timestamp);
+export const getVersionHistory = (versions: NoteVersion[]): NoteVersion[] => {
+  return [...versions].sort((a, b) => b.timestamp - a.timestamp);
 };
 
 /**
@@ -94,14 +144,29 @@ export const formatVersionDate = (timestamp: number): string => {
 };
 
 /**
- * Compare two versions and get change summary
+ * Compare two versions and get change summary, e.g. "Title changed, 3 lines added, 1 removed"
  */
 export const getChangeSummary = (oldVersion: NoteVersion, newVersion: NoteVersion): string => {
-  const titleChanged = oldVersion.title !== newVersion.title;
-  const contentChanged = oldVersion.content !== newVersion.content;
-  
-  if (titleChanged && contentChanged) return 'Title and content changed';
-  if (titleChanged) return 'Title changed';
-  if (contentChanged) return 'Content changed';
-  return 'No changes';
+  const changes: string[] = [];
+  if (oldVersion.title !== newVersion.title) changes.push('Title changed');
+
+  const { added, removed } = countLineChanges(oldVersion.content, newVersion.content);
+  if (added > 0 && removed > 0) {
+    changes.push(`${added} line${added !== 1 ? 's' : ''} added, ${removed} removed`);
+  } else if (added > 0) {
+    changes.push(`${added} line${added !== 1 ? 's' : ''} added`);
+  } else if (removed > 0) {
+    changes.push(`${removed} line${removed !== 1 ? 's' : ''} removed`);
+  }
+
+  if (!sameTags(oldVersion.tags, newVersion.tags)) changes.push('Tags changed');
+
+  return changes.length > 0 ? changes.join(', ') : 'No changes';
+};
+
+/**
+ * Named checkpoints, newest first
+ */
+export const getCheckpoints = (versions: NoteVersion[]): NoteVersion[] => {
+  return getVersionHistory(versions).filter(version => version.label);
 };
@@ -0,0 +1,111 @@
+import { Note } from '../types';
+import { mapOutsideCode } from './codeBlocks';
+
+// [[Target]] or [[Target|label]]
+const WIKI_LINK_REGEX = /\[\[([^[\]|\n]+)(?:\|([^[\]\n]+))?\]\]/g;
+
+// Wiki links render as in-page hrefs so the sanitizer leaves them alone
+export const WIKI_LINK_HREF_PREFIX = '#wiki:';
+
+/**
+ * Normalize a link target or note title for matching: trimmed, single-spaced, case-insensitive
+ */
+export const normalizeLinkTarget = (title: string): string => {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase();
+};
+
+/**
+ * Normalized targets of every [[link]] in note content, ignoring code
+ */
+export const extractWikiLinks = (content: string): string[] => {
+  const targets = new Set<string>();
+  mapOutsideCode(content, text => {
+    for (const match of text.matchAll(WIKI_LINK_REGEX)) {
+      const target = normalizeLinkTarget(match[1]);
+      if (target) targets.add(target);
+    }
+    return text;
+  });
+  return Array.from(targets);
+};
+
+/**
+ * The note a link target points at; with duplicate titles the most recently edited wins
+ */
+export const resolveWikiLink = (notes: Note[], target: string): Note | undefined => {
+  const normalized = normalizeLinkTarget(target);
+  return notes
+    .filter(note => normalizeLinkTarget(note.title) === normalized)
+    .sort((a, b) => (b.updatedAt || b.createdAt) - (a.updatedAt || a.createdAt))[0];
+};
+
+/**
+ * Point every [[fromTitle]] link in the content at toTitle, keeping custom labels.
+ * Returns null if the content has no such link.
+ */
+export const rewriteWikiLinks = (content: string, fromTitle: string, toTitle: string): string | null => {
+  const from = normalizeLinkTarget(fromTitle);
+  let changed = false;
+
+  const newContent = mapOutsideCode(content, text =>
+    text.replace(WIKI_LINK_REGEX, (link, target: string, label?: string) => {
+      if (normalizeLinkTarget(target) !== from) return link;
+      changed = true;
+      return `[[${toTitle.trim()}${label ? `|${label}` : ''}]]`;
+    })
+  );
+
+  return changed ? newContent : null;
+};
+
+/**
+ * The partial title after an unclosed `[[` right before the cursor, or null when not inside a link
+ */
+export const getOpenWikiLink = (textBeforeCursor: string): string | null => {
+  const match = textBeforeCursor.match(/\[\[([^[\]|\n]*)$/);
+  return match ? match[1] : null;
+};
+
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MarkdownNode[];
+}
+
+/**
+ * Remark plugin turning [[Target|label]] in text into links with a `#wiki:` href.
+ * Code is separate node types in the tree, so it is never touched.
+ */
+export const remarkWikiLinks = () => (tree: MarkdownNode) => {
+  const visit = (node: MarkdownNode) => {
+    if (!node.children || node.type === 'link' || node.type === 'linkReference') return;
+
+    node.children = node.children.flatMap(child => {
+      if (child.type !== 'text' || !child.value?.includes('[[')) {
+        visit(child);
+        return [child];
+      }
+
+      const parts: MarkdownNode[] = [];
+      let lastIndex = 0;
+      for (const match of child.value.matchAll(WIKI_LINK_REGEX)) {
+        if (match.index! > lastIndex) {
+          parts.push({ type: 'text', value: child.value.slice(lastIndex, match.index) });
+        }
+        parts.push({
+          type: 'link',
+          url: `${WIKI_LINK_HREF_PREFIX}${encodeURIComponent(match[1].trim())}`,
+          children: [{ type: 'text', value: (match[2] || match[1]).trim() }]
+        });
+        lastIndex = match.index! + match[0].length;
+      }
+      if (lastIndex < child.value.length) {
+        parts.push({ type: 'text', value: child.value.slice(lastIndex) });
+      }
+      return parts;
+    });
+  };
+
+  visit(tree);
+};
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SYNC_PROVIDER?: string;
+  readonly VITE_SYNC_SERVER_URL?: string;
+}
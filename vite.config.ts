@@ -1,13 +1,76 @@
 import path from 'path';
-import { defineConfig } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, build, Plugin, ResolvedConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * Every file under a directory, as URL paths
+ */
+const listPublicFiles = (dir: string, base = ''): string[] => {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory()
+      ? listPublicFiles(path.join(dir, entry.name), `${base}/${entry.name}`)
+      : [`${base}/${entry.name}`]
+  );
+};
+
+/**
+ * Build src/serviceWorker.ts to /sw.js once the app is built, with the list of files to precache
+ * and a cache version that changes whenever they do
+ */
+const serviceWorker = (): Plugin => {
+  let config: ResolvedConfig;
+  let bundleFiles: string[] = [];
+
+  return {
+    name: 'smart-note-service-worker',
+    apply: 'build',
+    configResolved(resolvedConfig) {
+      config = resolvedConfig;
+    },
+    writeBundle(_options, bundle) {
+      bundleFiles = Object.keys(bundle).filter(fileName => !fileName.endsWith('.map')).map(fileName => `/${fileName}`);
+    },
+    async closeBundle() {
+      const precacheUrls = [...bundleFiles, ...listPublicFiles(config.publicDir)];
+      const cacheVersion = createHash('sha256').update(precacheUrls.join('\n')).digest('hex').slice(0, 12);
+
+      await build({
+        configFile: false,
+        root: config.root,
+        mode: config.mode,
+        envDir: config.envDir,
+        logLevel: 'warn',
+        define: {
+          __PRECACHE_URLS__: JSON.stringify(precacheUrls),
+          __CACHE_VERSION__: JSON.stringify(cacheVersion)
+        },
+        build: {
+          outDir: config.build.outDir,
+          emptyOutDir: false,
+          copyPublicDir: false,
+          rollupOptions: {
+            input: path.resolve(__dirname, 'src/serviceWorker.ts'),
+            output: {
+              format: 'iife',
+              entryFileNames: 'sw.js',
+              inlineDynamicImports: true
+            }
+          }
+        }
+      });
+    }
+  };
+};
+
 export default defineConfig({
   server: {
     port: 3000,
     host: '0.0.0.0',
   },
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),